@@ -1,4 +1,6 @@
 import { config } from 'dotenv';
 config();
 
-import '@/ai/flows/intelligent-malicious-url-flagging.ts';
\ No newline at end of file
+import '@/ai/flows/intelligent-malicious-url-flagging.ts';
+import '@/ai/flows/batch-malicious-url-flagging.ts';
+import '@/ai/flows/page-content-phishing-analysis.ts';
@@ -0,0 +1,130 @@
+/**
+ * @fileOverview Scores the URL classifier against a labeled dataset.
+ *
+ *   npm run eval -- [dataset] [--engine model|combined|heuristics] [--model <provider>/<model>]
+ *                   [--concurrency 4] [--output report.json] [--min-f1 0.8]
+ *
+ * `model` runs intelligentMaliciousURLFlaggingFlow alone, which is what a
+ * prompt change affects; `combined` merges its answer with the local rules the
+ * way a scan does; `heuristics` runs the local rules without a model. Feeds
+ * and the verdict cache are never consulted. With `--model fake/url-classifier`
+ * the run needs no network or API key. Exits with status 1 when an analysis
+ * fails or the F1 score is below `--min-f1`.
+ */
+import { config } from 'dotenv';
+config();
+
+import {readFile, writeFile} from 'node:fs/promises';
+import path from 'node:path';
+import {parseArgs} from 'node:util';
+
+import {intelligentMaliciousURLFlagging} from '@/ai/flows/intelligent-malicious-url-flagging';
+import {isValidModelName} from '@/ai/model-config';
+import {failedAnalysisVerdict} from '@/lib/threat/check-url';
+import {
+  computeEvaluationReport,
+  formatEvaluationReport,
+  parseEvaluationDataset,
+  toPredictedCategory,
+  type EvaluationSample,
+  type LabeledUrl,
+} from '@/lib/threat/evaluation';
+import {mergeWithModelVerdict, scanUrlHeuristics, toHeuristicVerdict} from '@/lib/threat/heuristics';
+import {getRetryDelayMs, isRateLimitError, toModelUrl, withModelTimeout} from '@/lib/threat/model-errors';
+import type {ThreatVerdict} from '@/lib/threat/verdict';
+
+type Engine = 'model' | 'combined' | 'heuristics';
+
+const ENGINES: Engine[] = ['model', 'combined', 'heuristics'];
+const DEFAULT_DATASET = path.join('evals', 'url-classifier.jsonl');
+const MAX_RATE_LIMIT_RETRIES = 4;
+const DEFAULT_RATE_LIMIT_PAUSE_MS = 10_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function classify(url: string, engine: Engine, model?: string): Promise<ThreatVerdict> {
+  const scan = scanUrlHeuristics(url);
+  if (engine === 'heuristics') return toHeuristicVerdict(scan);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const answer = await withModelTimeout(intelligentMaliciousURLFlagging({url: toModelUrl(url), model}));
+      if (engine === 'combined') return mergeWithModelVerdict(scan, answer);
+      return {...answer, evidence: answer.evidence.map((item) => ({...item, source: 'model' as const})), source: 'model'};
+    } catch (error) {
+      if (isRateLimitError(error) && attempt < MAX_RATE_LIMIT_RETRIES) {
+        await sleep(getRetryDelayMs(error) ?? DEFAULT_RATE_LIMIT_PAUSE_MS * 2 ** attempt);
+        continue;
+      }
+      return failedAnalysisVerdict(scan, error);
+    }
+  }
+}
+
+async function evaluate(samples: LabeledUrl[], engine: Engine, model: string | undefined, concurrency: number): Promise<EvaluationSample[]> {
+  const results: EvaluationSample[] = new Array(samples.length);
+  let next = 0;
+  let completed = 0;
+  const worker = async () => {
+    while (next < samples.length) {
+      const index = next++;
+      const verdict = await classify(samples[index].url, engine, model);
+      results[index] = {...samples[index], predicted: toPredictedCategory(verdict), verdict};
+      completed++;
+      if (process.stderr.isTTY) process.stderr.write(`\rEvaluated ${completed}/${samples.length}`);
+    }
+  };
+  await Promise.all(Array.from({length: Math.min(concurrency, samples.length)}, worker));
+  if (process.stderr.isTTY) process.stderr.write('\n');
+  return results;
+}
+
+async function main() {
+  const {values, positionals} = parseArgs({
+    allowPositionals: true,
+    options: {
+      engine: {type: 'string', default: 'model'},
+      model: {type: 'string'},
+      concurrency: {type: 'string', default: '4'},
+      output: {type: 'string'},
+      'min-f1': {type: 'string'},
+      'max-mistakes': {type: 'string', default: '20'},
+    },
+  });
+
+  const engine = values.engine as Engine;
+  if (!ENGINES.includes(engine)) throw new Error(`--engine must be one of ${ENGINES.join(', ')}.`);
+  if (values.model !== undefined && !isValidModelName(values.model)) throw new Error(`Unknown model "${values.model}".`);
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new Error('--concurrency must be a positive whole number.');
+  const minF1 = values['min-f1'] === undefined ? undefined : Number(values['min-f1']);
+  if (minF1 !== undefined && !(minF1 >= 0 && minF1 <= 1)) throw new Error('--min-f1 must be between 0 and 1.');
+
+  const datasetPath = positionals[0] ?? DEFAULT_DATASET;
+  const samples = parseEvaluationDataset(path.basename(datasetPath), await readFile(datasetPath, 'utf8'));
+  const model = engine === 'heuristics' ? undefined : values.model;
+  console.log(`Evaluating ${samples.length} URLs from ${datasetPath} with ${engine === 'heuristics' ? 'the local rules' : `${engine} engine, model ${model ?? 'AI_MODEL default'}`}\n`);
+
+  const results = await evaluate(samples, engine, model, concurrency);
+  const report = computeEvaluationReport(results);
+  console.log(formatEvaluationReport(report, {maxMistakes: Number(values['max-mistakes'])}));
+
+  if (values.output) {
+    await writeFile(values.output, JSON.stringify({dataset: datasetPath, engine, model: model ?? null, ...report, results}, null, 2));
+    console.log(`\nFull report written to ${values.output}`);
+  }
+
+  if (report.errors > 0) {
+    console.error(`\n${report.errors} analyses failed; the scores above leave them out.`);
+    process.exitCode = 1;
+  }
+  if (minF1 !== undefined && report.binary.f1 < minF1) {
+    console.error(`\nF1 ${(report.binary.f1 * 100).toFixed(1)}% is below the required ${(minF1 * 100).toFixed(1)}%.`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
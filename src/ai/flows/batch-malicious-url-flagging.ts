@@ -0,0 +1,75 @@
+'use server';
+/**
+ * @fileOverview A Genkit flow that flags several URLs in one prompt, to cut the cost of large scans.
+ *
+ * - batchMaliciousURLFlagging - A function that returns one verdict per URL.
+ * - BatchMaliciousURLFlaggingInput - The input type for the batchMaliciousURLFlagging function.
+ * - BatchMaliciousURLFlaggingOutput - The return type for the batchMaliciousURLFlagging function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {resolveModelName} from '@/ai/model-config';
+import {ThreatVerdictSchema} from '@/ai/schemas/threat-verdict';
+import {z} from 'genkit';
+
+const BatchMaliciousURLFlaggingInputSchema = z.object({
+  urls: z.array(z.string()).min(1).describe('The URLs to check for malicious content.'),
+});
+// The flow also takes the model to ask; the prompt only sees the URL input.
+const BatchMaliciousURLFlaggingFlowInputSchema = BatchMaliciousURLFlaggingInputSchema.extend({
+  model: z.string().optional().describe('Model to ask, as <provider>/<model>; defaults to AI_MODEL.'),
+});
+export type BatchMaliciousURLFlaggingInput = z.infer<typeof BatchMaliciousURLFlaggingFlowInputSchema>;
+
+const BatchMaliciousURLFlaggingOutputSchema = z.object({
+  verdicts: z.array(
+    ThreatVerdictSchema.extend({
+      index: z.number().int().describe('The number shown before the URL in the list.'),
+    })
+  ),
+});
+export type BatchMaliciousURLFlaggingOutput = z.infer<typeof BatchMaliciousURLFlaggingOutputSchema>;
+
+export async function batchMaliciousURLFlagging(input: BatchMaliciousURLFlaggingInput): Promise<BatchMaliciousURLFlaggingOutput> {
+  return batchMaliciousURLFlaggingFlow(input);
+}
+
+const batchMaliciousURLFlaggingPrompt = ai.definePrompt({
+  name: 'batchMaliciousURLFlaggingPrompt',
+  input: {schema: BatchMaliciousURLFlaggingInputSchema},
+  output: {schema: BatchMaliciousURLFlaggingOutputSchema},
+  prompt: `You are an AI assistant specializing in identifying potentially malicious URLs.
+
+  Analyze each of the numbered URLs below on its own and determine if it is likely to be malicious based on your knowledge of threats and URL patterns. The URLs have already been checked against the locally imported threat feeds and are not listed in any of them.
+
+  Return one verdict per URL, each with the URL's number as "index":
+  - riskScore: 0-100, where 0 is certainly safe and 100 is certainly malicious
+  - category: phishing, malware, scam, spam, adult, benign or unknown
+  - confidence: low, medium or high
+  - evidence: every signal you relied on, strongest first (empty for an unremarkable URL)
+  - summary: one sentence explaining the verdict
+
+  URLs:
+  {{#each urls}}
+  {{@index}}: {{{this}}}
+  {{/each}}
+
+  Consider factors such as:
+  - Known phishing domains
+  - Malware distribution sites
+  - Suspicious URL patterns
+  - Domains you know to be reported on threat intelligence blacklists
+  `,
+});
+
+const batchMaliciousURLFlaggingFlow = ai.defineFlow(
+  {
+    name: 'batchMaliciousURLFlaggingFlow',
+    inputSchema: BatchMaliciousURLFlaggingFlowInputSchema,
+    outputSchema: BatchMaliciousURLFlaggingOutputSchema,
+  },
+  async ({model, ...input}) => {
+    const {output} = await batchMaliciousURLFlaggingPrompt(input, {model: resolveModelName(model)});
+    return output!;
+  }
+);
@@ -8,17 +8,20 @@
  */
 
 import {ai} from '@/ai/genkit';
+import {resolveModelName} from '@/ai/model-config';
+import {ThreatVerdictSchema} from '@/ai/schemas/threat-verdict';
 import {z} from 'genkit';
 
 const IntelligentMaliciousURLFlaggingInputSchema = z.object({
   url: z.string().url().describe('The URL to check for malicious content.'),
 });
-export type IntelligentMaliciousURLFlaggingInput = z.infer<typeof IntelligentMaliciousURLFlaggingInputSchema>;
-
-const IntelligentMaliciousURLFlaggingOutputSchema = z.object({
-  isMalicious: z.boolean().describe('Whether the URL is flagged as potentially malicious.'),
-  reason: z.string().optional().describe('The reason why the URL was flagged as potentially malicious.'),
+// The flow also takes the model to ask; the prompt only sees the URL input.
+const IntelligentMaliciousURLFlaggingFlowInputSchema = IntelligentMaliciousURLFlaggingInputSchema.extend({
+  model: z.string().optional().describe('Model to ask, as <provider>/<model>; defaults to AI_MODEL.'),
 });
+export type IntelligentMaliciousURLFlaggingInput = z.infer<typeof IntelligentMaliciousURLFlaggingFlowInputSchema>;
+
+const IntelligentMaliciousURLFlaggingOutputSchema = ThreatVerdictSchema;
 export type IntelligentMaliciousURLFlaggingOutput = z.infer<typeof IntelligentMaliciousURLFlaggingOutputSchema>;
 
 export async function intelligentMaliciousURLFlagging(input: IntelligentMaliciousURLFlaggingInput): Promise<IntelligentMaliciousURLFlaggingOutput> {
@@ -31,9 +34,14 @@ const intelligentMaliciousURLFlaggingPrompt = ai.definePrompt({
   output: {schema: IntelligentMaliciousURLFlaggingOutputSchema},
   prompt: `You are an AI assistant specializing in identifying potentially malicious URLs.
 
-  Analyze the provided URL and determine if it is likely to be malicious based on your knowledge and publicly available threat intelligence feeds.
+  Analyze the provided URL and determine if it is likely to be malicious based on your knowledge of threats and URL patterns. The URL has already been checked against the locally imported threat feeds and is not listed in any of them.
 
-  Return a JSON object indicating whether the URL is malicious and, if so, the reason for the classification.
+  Return a structured verdict:
+  - riskScore: 0-100, where 0 is certainly safe and 100 is certainly malicious
+  - category: phishing, malware, scam, spam, adult, benign or unknown
+  - confidence: low, medium or high
+  - evidence: every signal you relied on, strongest first (empty for an unremarkable URL)
+  - summary: one sentence explaining the verdict
 
   URL: {{{url}}}
 
@@ -41,18 +49,18 @@ const intelligentMaliciousURLFlaggingPrompt = ai.definePrompt({
   - Known phishing domains
   - Malware distribution sites
   - Suspicious URL patterns
-  - Presence on threat intelligence blacklists
+  - Domains you know to be reported on threat intelligence blacklists
   `,
 });
 
 const intelligentMaliciousURLFlaggingFlow = ai.defineFlow(
   {
     name: 'intelligentMaliciousURLFlaggingFlow',
-    inputSchema: IntelligentMaliciousURLFlaggingInputSchema,
+    inputSchema: IntelligentMaliciousURLFlaggingFlowInputSchema,
     outputSchema: IntelligentMaliciousURLFlaggingOutputSchema,
   },
-  async input => {
-    const {output} = await intelligentMaliciousURLFlaggingPrompt(input);
+  async ({model, ...input}) => {
+    const {output} = await intelligentMaliciousURLFlaggingPrompt(input, {model: resolveModelName(model)});
     return output!;
   }
 );
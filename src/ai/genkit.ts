@@ -1,7 +1,11 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/google-genai';
 
+import {getDefaultModel, getOpenAICompatibleConfig} from '@/ai/model-config';
+import {fakeProvider} from '@/ai/providers/fake';
+import {openAICompatible} from '@/ai/providers/openai-compatible';
+
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.5-flash',
+  plugins: [googleAI(), openAICompatible(getOpenAICompatibleConfig()), fakeProvider()],
+  model: getDefaultModel(),
 });
@@ -0,0 +1,71 @@
+/**
+ * Model provider configuration, read from the environment:
+ *
+ * - `AI_MODEL`: default model for every flow, as `<provider>/<model>`
+ *   (default `googleai/gemini-2.5-flash`).
+ * - `GEMINI_API_KEY` / `GOOGLE_API_KEY`: key for the `googleai` provider.
+ * - `OPENAI_COMPATIBLE_BASE_URL`: base URL of an OpenAI-compatible server such
+ *   as a local llama.cpp, vLLM or Ollama instance (default
+ *   `http://localhost:8080/v1`); models are addressed as
+ *   `openai-compatible/<model id>`.
+ * - `OPENAI_COMPATIBLE_API_KEY`: bearer token for that server, if it wants one.
+ *
+ * The `fake` provider needs no configuration: `fake/url-classifier` answers
+ * deterministically without network access, for tests and CI.
+ */
+export type ModelProviderId = 'googleai' | 'openai-compatible' | 'fake';
+
+export type ModelProviderInfo = {
+  id: ModelProviderId;
+  label: string;
+  configured: boolean; // Whether the environment has what the provider needs
+  models: string[]; // Suggestions; any model the provider knows can be used
+  detail: string; // Where the provider sends requests, shown on the settings screen
+};
+
+export const MODEL_PROVIDER_LABELS: Record<ModelProviderId, string> = {
+  googleai: 'Google AI (Gemini)',
+  'openai-compatible': 'OpenAI-compatible endpoint',
+  fake: 'Fake (deterministic, offline)',
+};
+
+export const DEFAULT_MODEL = 'googleai/gemini-2.5-flash';
+export const FAKE_MODEL = 'fake/url-classifier';
+export const GOOGLE_AI_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite', 'gemini-2.0-flash'];
+
+const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:8080/v1';
+
+// `<provider>/<model>`; model ids may contain dots, colons and slashes (e.g. `qwen2.5:7b`).
+const MODEL_NAME_PATTERN = /^(googleai|openai-compatible|fake)\/[\w.:@/-]+$/;
+
+export function getOpenAICompatibleConfig() {
+  return {
+    baseUrl: (process.env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_OPENAI_COMPATIBLE_BASE_URL).replace(/\/+$/, ''),
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || undefined,
+  };
+}
+
+export function getDefaultModel(): string {
+  const model = process.env.AI_MODEL;
+  return model && MODEL_NAME_PATTERN.test(model) ? model : DEFAULT_MODEL;
+}
+
+export function isValidModelName(model: unknown): model is string {
+  return typeof model === 'string' && MODEL_NAME_PATTERN.test(model);
+}
+
+export function getModelProvider(model: string): ModelProviderId {
+  return model.slice(0, model.indexOf('/')) as ModelProviderId;
+}
+
+/**
+ * The model a flow should use: the requested one when it names a known
+ * provider, otherwise the configured default.
+ */
+export function resolveModelName(requested?: string): string {
+  if (requested === undefined || requested === '') return getDefaultModel();
+  if (!isValidModelName(requested)) {
+    throw new Error(`Unknown model "${requested}". Use <provider>/<model> with provider googleai, openai-compatible or fake.`);
+  }
+  return requested;
+}
@@ -0,0 +1,111 @@
+import type {GenerateRequest, GenerateResponseData} from 'genkit/model';
+import {genkitPluginV2, model} from 'genkit/plugin';
+
+type FakeVerdict = {
+  riskScore: number;
+  category: 'phishing' | 'malware' | 'scam' | 'spam' | 'adult' | 'benign' | 'unknown';
+  confidence: 'low' | 'medium' | 'high';
+  evidence: { signal: string; detail: string }[];
+  summary: string;
+};
+
+// First matching keyword decides the verdict; anything else is benign.
+const KEYWORD_RULES: { pattern: RegExp; category: FakeVerdict['category']; riskScore: number; signal: string }[] = [
+  { pattern: /phish|login-verify|account-verify|secure-update|signin-/i, category: 'phishing', riskScore: 88, signal: 'Phishing keyword' },
+  { pattern: /malware|trojan|\.exe(?:$|[?#])|\.scr(?:$|[?#])|payload/i, category: 'malware', riskScore: 92, signal: 'Malware keyword' },
+  { pattern: /free-?prize|winner|giveaway|crypto-?double|lottery/i, category: 'scam', riskScore: 76, signal: 'Scam keyword' },
+  { pattern: /casino|cheap-?pills|viagra|seo-?links/i, category: 'spam', riskScore: 55, signal: 'Spam keyword' },
+  { pattern: /\bporn|xxx|adult-/i, category: 'adult', riskScore: 45, signal: 'Adult keyword' },
+];
+
+/**
+ * The verdict the fake model gives one URL. Keyword matching only, so the
+ * same URL always gets the same answer.
+ */
+export function fakeClassify(url: string): FakeVerdict {
+  const rule = KEYWORD_RULES.find(({ pattern }) => pattern.test(url));
+  if (!rule) {
+    return { riskScore: 5, category: 'benign', confidence: 'medium', evidence: [], summary: 'No known threat keyword in the URL.' };
+  }
+  const keyword = url.match(rule.pattern)![0];
+  return {
+    riskScore: rule.riskScore,
+    category: rule.category,
+    confidence: 'high',
+    evidence: [{ signal: rule.signal, detail: `"${keyword}" in the URL` }],
+    summary: `Flagged as ${rule.category} by the fake classifier.`,
+  };
+}
+
+// The flows list URLs as `URL: <url>` (single) or `<n>: <url>` (batch).
+const SINGLE_URL_LINE = /^\s*URL:\s*(\S+)\s*$/m;
+const BATCH_URL_LINE = /^\s*(\d+):\s*(\S+)\s*$/gm;
+
+/**
+ * The fake model's page verdict: password inputs plus a form posting to
+ * another site, or a brand named off its own domain, is phishing.
+ */
+function fakeJudgePage(prompt: string) {
+  const passwordInputs = Number(prompt.match(/^\s*Password inputs:\s*(\d+)/m)?.[1] ?? 0);
+  const crossOriginForm = /^\s*- \S+ to \S+ \(different site\)/m.test(prompt);
+  const offDomainBrand = prompt.match(/(\w+) \(page is not on this brand's domain\)/)?.[1];
+  if (passwordInputs > 0 && (crossOriginForm || offDomainBrand)) {
+    return {
+      isCredentialPhishing: true,
+      ...(offDomainBrand ? { impersonatedBrand: offDomainBrand } : {}),
+      riskScore: 90,
+      confidence: 'high',
+      evidence: [
+        { signal: 'Password form', detail: `${passwordInputs} password input(s)` },
+        ...(crossOriginForm ? [{ signal: 'Cross-site form', detail: 'A form submits to a different site' }] : []),
+        ...(offDomainBrand ? [{ signal: 'Brand off its domain', detail: `"${offDomainBrand}" named on an unrelated domain` }] : []),
+      ],
+      summary: 'Flagged as credential phishing by the fake classifier.',
+    };
+  }
+  return {
+    isCredentialPhishing: false,
+    riskScore: passwordInputs > 0 ? 30 : 5,
+    confidence: 'medium',
+    evidence: passwordInputs > 0 ? [{ signal: 'Password form', detail: `${passwordInputs} password input(s)` }] : [],
+    summary: 'No credential phishing pattern found by the fake classifier.',
+  };
+}
+
+function answer(request: GenerateRequest): unknown {
+  const text = request.messages.flatMap((message) => message.content.map((part) => part.text ?? '')).join('\n');
+  const schema = request.output?.schema as { properties?: Record<string, unknown> } | undefined;
+  if (schema?.properties?.isCredentialPhishing) return fakeJudgePage(text);
+  if (schema?.properties?.verdicts) {
+    return {
+      verdicts: Array.from(text.matchAll(BATCH_URL_LINE), ([, index, url]) => ({ index: Number(index), ...fakeClassify(url) })),
+    };
+  }
+  const url = text.match(SINGLE_URL_LINE)?.[1];
+  if (!url) throw new Error('The fake model found no "URL:" line in the prompt.');
+  return fakeClassify(url);
+}
+
+/**
+ * Genkit plugin with one offline, deterministic model, `fake/url-classifier`,
+ * that understands the URL flagging and page analysis prompts. Lets the flows and the
+ * evaluation harness run without network access or an API key.
+ */
+export function fakeProvider() {
+  return genkitPluginV2({
+    name: 'fake',
+    init: () => [
+      model(
+        {
+          name: 'fake/url-classifier',
+          label: 'Fake - deterministic URL classifier',
+          supports: { multiturn: true, systemRole: true, media: false, tools: false, output: ['text', 'json'], constrained: 'all' },
+        },
+        async (request): Promise<GenerateResponseData> => ({
+          message: { role: 'model', content: [{ text: JSON.stringify(answer(request)) }] },
+          finishReason: 'stop',
+        })
+      ),
+    ],
+  });
+}
@@ -0,0 +1,101 @@
+import {GenkitError} from 'genkit';
+import type {GenerateRequest, GenerateResponseData, MessageData} from 'genkit/model';
+import {genkitPluginV2, model} from 'genkit/plugin';
+
+export type OpenAICompatibleOptions = {
+  baseUrl: string; // e.g. `http://localhost:8080/v1`
+  apiKey?: string;
+};
+
+type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+const ROLE_MAP: Record<MessageData['role'], ChatMessage['role']> = {
+  system: 'system',
+  user: 'user',
+  model: 'assistant',
+  tool: 'user',
+};
+
+const toChatMessage = (message: MessageData): ChatMessage => ({
+  role: ROLE_MAP[message.role],
+  content: message.content.map((part) => part.text ?? '').join(''),
+});
+
+async function chatCompletion(
+  { baseUrl, apiKey }: OpenAICompatibleOptions,
+  modelId: string,
+  request: GenerateRequest,
+  signal?: AbortSignal
+): Promise<GenerateResponseData> {
+  const config = (request.config ?? {}) as { temperature?: number; maxOutputTokens?: number };
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: modelId,
+      messages: request.messages.map(toChatMessage),
+      temperature: config.temperature ?? 0,
+      ...(config.maxOutputTokens ? { max_tokens: config.maxOutputTokens } : {}),
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new GenkitError({
+      status: response.status === 429 ? 'RESOURCE_EXHAUSTED' : response.status === 401 || response.status === 403 ? 'PERMISSION_DENIED' : 'UNAVAILABLE',
+      message: `[${response.status} ${response.statusText}] ${baseUrl}: ${body.slice(0, 500)}`,
+    });
+  }
+
+  const data = await response.json();
+  const choice = data.choices?.[0];
+  return {
+    message: { role: 'model', content: [{ text: choice?.message?.content ?? '' }] },
+    finishReason: choice?.finish_reason === 'length' ? 'length' : 'stop',
+    usage: {
+      inputTokens: data.usage?.prompt_tokens,
+      outputTokens: data.usage?.completion_tokens,
+    },
+  };
+}
+
+/**
+ * Lists the model ids an OpenAI-compatible server offers (`GET /models`).
+ */
+export async function listOpenAICompatibleModels(options: OpenAICompatibleOptions, signal?: AbortSignal): Promise<string[]> {
+  const response = await fetch(`${options.baseUrl}/models`, {
+    headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+    signal,
+  });
+  if (!response.ok) throw new Error(`Listing models failed. Status: ${response.status} ${response.statusText}`);
+  const data = await response.json();
+  return (data.data ?? []).map((entry: { id: string }) => entry.id).filter(Boolean);
+}
+
+/**
+ * Genkit plugin for any server speaking the OpenAI chat completions API.
+ * Models are resolved on demand, so `openai-compatible/<id>` works for
+ * whatever model ids the server has loaded. The models do not claim
+ * constrained output, so Genkit writes the output schema into the prompt and
+ * extracts the JSON from the reply.
+ */
+export function openAICompatible(options: OpenAICompatibleOptions) {
+  return genkitPluginV2({
+    name: 'openai-compatible',
+    resolve: (actionType, name) => {
+      if (actionType !== 'model') return undefined;
+      return model(
+        {
+          name: `openai-compatible/${name}`,
+          label: `OpenAI-compatible - ${name}`,
+          supports: { multiturn: true, systemRole: true, media: false, tools: false, output: ['text', 'json'] },
+        },
+        (request, { abortSignal }) => chatCompletion(options, name, request, abortSignal)
+      );
+    },
+  });
+}
@@ -0,0 +1,55 @@
+import {z} from 'genkit';
+
+import {ThreatEvidenceSchema} from '@/ai/schemas/threat-verdict';
+
+/**
+ * What the page-content phishing flow extracts from a fetched page and shows
+ * the model. Kept out of the flow file because 'use server' modules may only
+ * export async functions.
+ */
+export const PageFormSchema = z.object({
+  action: z.string().describe('Absolute URL the form submits to.'),
+  method: z.string().describe('HTTP method, upper case.'),
+  crossOrigin: z.boolean().describe('Whether the form submits to a different site than the page.'),
+  hasPassword: z.boolean().describe('Whether the form has a password input.'),
+  inputs: z.array(z.string()).describe('Type or name of each visible input, e.g. "email", "password", "card-number".'),
+});
+
+export const PageFeaturesSchema = z.object({
+  url: z.string().describe('URL that was requested.'),
+  finalUrl: z.string().describe('URL of the page after redirects.'),
+  status: z.number().int(),
+  redirects: z.number().int().describe('How many redirects led to the page.'),
+  title: z.string().optional(),
+  forms: z.array(PageFormSchema),
+  passwordInputs: z.number().int().describe('Password inputs on the page, inside forms or not.'),
+  externalScriptHosts: z.array(z.string()).describe('Hosts of scripts loaded from other sites.'),
+  favicon: z
+    .object({
+      url: z.string(),
+      crossOrigin: z.boolean(),
+    })
+    .optional(),
+  brands: z
+    .array(
+      z.object({
+        brand: z.string(),
+        onBrandDomain: z.boolean().describe('Whether the page is served from a domain the brand owns.'),
+      })
+    )
+    .describe('Well-known brands named in the title, visible text or favicon URL.'),
+  textExcerpt: z.string().describe('Start of the visible text.'),
+});
+
+export const PagePhishingVerdictSchema = z.object({
+  isCredentialPhishing: z.boolean().describe('Whether the page tries to collect credentials or payment details under false pretences.'),
+  impersonatedBrand: z.string().optional().describe('The brand the page pretends to be, if any.'),
+  riskScore: z.number().int().min(0).max(100).describe('How likely the page is credential phishing, from 0 to 100.'),
+  confidence: z.enum(['low', 'medium', 'high']),
+  evidence: z.array(ThreatEvidenceSchema).describe('The page features the verdict is based on, strongest first.'),
+  summary: z.string().describe('One sentence explaining the verdict.'),
+});
+
+export type PageFeatures = z.infer<typeof PageFeaturesSchema>;
+export type PageForm = z.infer<typeof PageFormSchema>;
+export type PagePhishingVerdict = z.infer<typeof PagePhishingVerdictSchema>;
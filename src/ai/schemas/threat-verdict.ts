@@ -0,0 +1,21 @@
+import {z} from 'genkit';
+
+/**
+ * Output schema shared by the single-URL and batch malicious URL flagging flows.
+ * Kept out of the flow files because 'use server' modules may only export
+ * async functions.
+ */
+export const ThreatEvidenceSchema = z.object({
+  signal: z.string().describe('Short name of the signal, e.g. "Brand impersonation" or "Known malware host".'),
+  detail: z.string().describe('What in the URL triggered the signal.'),
+});
+
+export const ThreatVerdictSchema = z.object({
+  riskScore: z.number().int().min(0).max(100).describe('How likely the URL is to be harmful, from 0 (certainly safe) to 100 (certainly malicious).'),
+  category: z
+    .enum(['phishing', 'malware', 'scam', 'spam', 'adult', 'benign', 'unknown'])
+    .describe('The most likely kind of threat, "benign" for safe URLs and "unknown" when there is too little to go on.'),
+  confidence: z.enum(['low', 'medium', 'high']).describe('How confident the assessment is.'),
+  evidence: z.array(ThreatEvidenceSchema).describe('The signals the verdict is based on, strongest first.'),
+  summary: z.string().describe('One sentence explaining the verdict.'),
+});
@@ -1,51 +1,101 @@
 'use server';
 
+import { intelligentMaliciousURLFlagging } from '@/ai/flows/intelligent-malicious-url-flagging';
+import { pageContentPhishingAnalysis } from '@/ai/flows/page-content-phishing-analysis';
+import type { PageFeatures, PagePhishingVerdict } from '@/ai/schemas/page-phishing';
+import { NETWORK_ERROR_LABELS, StatusCheckError } from '@/lib/status-checker/errors';
+import { checkLocally, failedAnalysisVerdict, recordModelVerdict } from '@/lib/threat/check-url';
+import { classifyModelError, toModelUrl, withModelTimeout } from '@/lib/threat/model-errors';
+import { withDefaultScheme } from '@/lib/url-canonicalize';
+import type { AnalysisError, ThreatVerdict } from '@/lib/threat/verdict';
 import {
-  intelligentMaliciousURLFlagging,
-  type IntelligentMaliciousURLFlaggingOutput,
-} from '@/ai/flows/intelligent-malicious-url-flagging';
+  GoogleSheetError,
+  parseSheetReference,
+  type GoogleSheetImportResult,
+  type GoogleSheetsAuthMode,
+} from '@/lib/url-import/google-sheets';
+import { getGoogleSheetsAuth, readGoogleSheet } from '@/lib/url-import/google-sheets-fetch';
+import type { SitemapImportResult } from '@/lib/url-import/sitemap';
+import { importSitemapFromUrl, importSitemapsFromIndex } from '@/lib/url-import/sitemap-fetch';
 
+// Imported feeds are consulted first, then the local rules; the model is only
+// asked about URLs neither can settle, and its verdicts are cached unless
+// `forceRescan` is set. `model` picks the model (`<provider>/<model>`) for this
+// call. Input lines without a scheme are sent to the model over http, as
+// `analyzePageContent` fetches them. Large scans should use `/api/threat-scan`
+// instead.
 export async function checkUrl(
-  url: string
-): Promise<IntelligentMaliciousURLFlaggingOutput> {
+  url: string,
+  { forceRescan = false, model }: { forceRescan?: boolean; model?: string } = {}
+): Promise<ThreatVerdict> {
+  const { scan, verdict } = await checkLocally(url, { forceRescan, model });
+  if (verdict) return verdict;
+
   try {
-    const result = await intelligentMaliciousURLFlagging({ url });
-    return result;
+    const result = await withModelTimeout(intelligentMaliciousURLFlagging({ url: toModelUrl(url), model }));
+    return await recordModelVerdict(url, scan, result, model);
   } catch (error) {
     console.error(`Error checking URL "${url}":`, error);
-    // Return a non-malicious status on error to avoid false positives.
-    return { isMalicious: false, reason: 'An error occurred during analysis.' };
+    return failedAnalysisVerdict(scan, error);
   }
 }
 
+export type PageAnalysisResult =
+  | { ok: true; features: PageFeatures; verdict: PagePhishingVerdict }
+  | { ok: false; stage: 'input' | 'fetch'; message: string }
+  | { ok: false; stage: 'model'; error: AnalysisError };
 
-export async function fetchGoogleSheet(url: string): Promise<string> {
-  if (!url.startsWith('https://docs.google.com/spreadsheets/d/')) {
-    throw new Error('Invalid Google Sheet URL. Please use a valid shareable link.');
+// Fetches the page and asks the model whether its content is credential
+// phishing. Complements `checkUrl`, which only sees the URL string. Input
+// lines without a scheme (`example.com/login`) are fetched over http.
+export async function analyzePageContent(
+  rawUrl: string,
+  { model }: { model?: string } = {}
+): Promise<PageAnalysisResult> {
+  const url = withDefaultScheme(rawUrl);
+  // Checked here so a bad URL is not reported as invalid model output.
+  if (!URL.canParse(url) || !/^https?:$/.test(new URL(url).protocol)) {
+    return { ok: false, stage: 'input', message: `"${rawUrl}" is not a web page URL.` };
   }
-
   try {
-    const sheetIdRegex = /spreadsheets\/d\/([a-zA-Z0-9-_]+)/;
-    const match = url.match(sheetIdRegex);
-    if (!match || !match[1]) {
-      throw new Error('Could not extract Sheet ID from the URL.');
+    const { features, verdict } = await withModelTimeout(pageContentPhishingAnalysis({ url, model }));
+    return { ok: true, features, verdict };
+  } catch (error) {
+    if (error instanceof StatusCheckError) {
+      return { ok: false, stage: 'fetch', message: `${NETWORK_ERROR_LABELS[error.kind]}: ${error.message}` };
     }
-    const sheetId = match[1];
+    console.error(`Error analyzing page "${url}":`, error);
+    return { ok: false, stage: 'model', error: classifyModelError(error) };
+  }
+}
 
-    // Assumes the first sheet is the target
-    const exportUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv`;
+// Reads a tab (by name, or the URL's `gid`) and optional A1 range of a Google
+// Sheet, with the server's service account or OAuth token when one is
+// configured. Failures come back sorted into `GoogleSheetErrorKind`s.
+export async function fetchGoogleSheet(
+  url: string,
+  { tab, range }: { tab?: string; range?: string } = {}
+): Promise<GoogleSheetImportResult> {
+  try {
+    return { ok: true, ...(await readGoogleSheet(parseSheetReference(url, { tab, range }))) };
+  } catch (error) {
+    if (error instanceof GoogleSheetError) return { ok: false, error: { kind: error.kind, message: error.message } };
+    console.error('Google Sheet fetch error:', error);
+    return { ok: false, error: { kind: 'unknown', message: (error as Error).message || 'An unknown error occurred while fetching the sheet.' } };
+  }
+}
 
-    const response = await fetch(exportUrl);
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch sheet data. Status: ${response.statusText}`);
-    }
+export async function getGoogleSheetsAccess(): Promise<{ mode: GoogleSheetsAuthMode; serviceAccountEmail?: string }> {
+  return getGoogleSheetsAuth();
+}
 
-    const csvText = await response.text();
-    return csvText;
+// Accepts a sitemap, sitemap index, robots.txt or site URL; indexes are
+// expanded recursively and `<lastmod>`/`<priority>`/`<changefreq>` kept.
+export async function fetchSitemap(url: string): Promise<SitemapImportResult> {
+  return importSitemapFromUrl(url);
+}
 
-  } catch (error: any) {
-    console.error('Google Sheet fetch error:', error);
-    throw new Error(error.message || 'An unknown error occurred while fetching the sheet.');
-  }
+// Reads the sitemaps listed by an index the user uploaded.
+export async function fetchSitemapsFromIndex(sitemapUrls: string[]): Promise<SitemapImportResult> {
+  return importSitemapsFromIndex(sitemapUrls);
 }
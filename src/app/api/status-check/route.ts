@@ -0,0 +1,34 @@
+import { resolveStatusCheckOptions } from '@/lib/status-checker/options';
+import { runStatusChecks } from '@/lib/status-checker/run-checks';
+import type { StatusCheckEvent } from '@/lib/status-checker/types';
+import { streamUrlJob } from '@/lib/sse';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Streams status checks as server-sent events: a `result` event per URL as soon
+ * as it finishes, a `progress` event with an ETA after each one, and a final
+ * `done` event. Aborting the request cancels the checks still in flight.
+ * Body: `{ urls: string[], options?: Partial<StatusCheckOptions> }`.
+ */
+export async function POST(request: Request) {
+  return streamUrlJob<StatusCheckEvent>(
+    request,
+    async ({ urls, options, signal, send }) => {
+      const startTime = Date.now();
+      const results = await runStatusChecks(urls, {
+        signal,
+        options: resolveStatusCheckOptions(options),
+        onResult: (result, index) => send({ type: 'result', index, result }),
+        onProgress: (progress) => send({ type: 'progress', ...progress }),
+      });
+      send({
+        type: 'done',
+        completed: results.length,
+        total: urls.length,
+        elapsedMs: Date.now() - startTime,
+      });
+    },
+    { name: 'Status check', activity: 'checking URLs' }
+  );
+}
@@ -0,0 +1,31 @@
+import { runThreatScan } from '@/lib/threat/batch-scan';
+import type { ThreatScanEvent } from '@/lib/threat/scan-events';
+import { resolveThreatScanOptions } from '@/lib/threat/scan-options';
+import { streamUrlJob } from '@/lib/sse';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Streams threat verdicts as server-sent events: a `verdict` event per URL as
+ * soon as it is settled, a `progress` event after each one, `rate-limited`
+ * when the model provider asks us to back off, and a final `done` event.
+ * Aborting the request drops the batches not yet sent to the model.
+ * Body: `{ urls: string[], options?: Partial<ThreatScanOptions> }`.
+ */
+export async function POST(request: Request) {
+  return streamUrlJob<ThreatScanEvent>(
+    request,
+    async ({ urls, options, signal, send }) => {
+      const startTime = Date.now();
+      const { completed, modelCalls } = await runThreatScan(urls, {
+        signal,
+        options: resolveThreatScanOptions(options),
+        onVerdict: (verdict, index) => send({ type: 'verdict', index, url: urls[index], verdict }),
+        onProgress: (progress) => send({ type: 'progress', ...progress }),
+        onRateLimited: (retryInMs) => send({ type: 'rate-limited', retryInMs }),
+      });
+      send({ type: 'done', completed, total: urls.length, elapsedMs: Date.now() - startTime, modelCalls });
+    },
+    { name: 'Threat scan', activity: 'scanning URLs' }
+  );
+}
@@ -0,0 +1,69 @@
+'use server';
+
+import { intelligentMaliciousURLFlagging } from '@/ai/flows/intelligent-malicious-url-flagging';
+import {
+  FAKE_MODEL,
+  GOOGLE_AI_MODELS,
+  MODEL_PROVIDER_LABELS,
+  getDefaultModel,
+  getOpenAICompatibleConfig,
+  type ModelProviderInfo,
+} from '@/ai/model-config';
+import { listOpenAICompatibleModels } from '@/ai/providers/openai-compatible';
+import { classifyModelError, withModelTimeout } from '@/lib/threat/model-errors';
+import type { AnalysisError } from '@/lib/threat/verdict';
+
+// Listing models on a local server that is down should not hold up the page.
+const LIST_MODELS_TIMEOUT_MS = 3_000;
+const TEST_URL = 'https://example.com/';
+
+export async function getModelProviders(): Promise<{ defaultModel: string; providers: ModelProviderInfo[] }> {
+  const openAICompatible = getOpenAICompatibleConfig();
+  const localModels = await listOpenAICompatibleModels(openAICompatible, AbortSignal.timeout(LIST_MODELS_TIMEOUT_MS)).catch(() => null);
+
+  return {
+    defaultModel: getDefaultModel(),
+    providers: [
+      {
+        id: 'googleai',
+        label: MODEL_PROVIDER_LABELS.googleai,
+        configured: Boolean(process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY),
+        models: GOOGLE_AI_MODELS,
+        detail: 'Gemini API, keyed by GEMINI_API_KEY or GOOGLE_API_KEY.',
+      },
+      {
+        id: 'openai-compatible',
+        label: MODEL_PROVIDER_LABELS['openai-compatible'],
+        configured: localModels !== null,
+        models: localModels ?? [],
+        detail: localModels === null
+          ? `${openAICompatible.baseUrl} (not reachable; set OPENAI_COMPATIBLE_BASE_URL)`
+          : openAICompatible.baseUrl,
+      },
+      {
+        id: 'fake',
+        label: MODEL_PROVIDER_LABELS.fake,
+        configured: true,
+        models: [FAKE_MODEL.slice('fake/'.length)],
+        detail: 'Offline keyword classifier for tests; never calls a network.',
+      },
+    ],
+  };
+}
+
+export type ModelTestResult =
+  | { ok: true; elapsedMs: number; summary: string }
+  | { ok: false; elapsedMs: number; error: AnalysisError };
+
+/**
+ * Asks `model` about a harmless URL, to check the provider is set up.
+ */
+export async function testModel(model: string): Promise<ModelTestResult> {
+  const startTime = Date.now();
+  try {
+    const verdict = await withModelTimeout(intelligentMaliciousURLFlagging({ url: TEST_URL, model }));
+    return { ok: true, elapsedMs: Date.now() - startTime, summary: verdict.summary };
+  } catch (error) {
+    return { ok: false, elapsedMs: Date.now() - startTime, error: classifyModelError(error) };
+  }
+}
@@ -2,13 +2,14 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
-import { Network, ShieldCheck } from 'lucide-react';
+import { Network, Settings, ShieldCheck } from 'lucide-react';
 
 export default function Header() {
   const pathname = usePathname();
   const navItems = [
     { href: '/', label: 'URL Detective', icon: ShieldCheck },
     { href: '/status-checker', label: 'Status Checker', icon: Network },
+    { href: '/settings', label: 'Settings', icon: Settings },
   ];
   return (
     <header className="sticky top-0 z-30 w-full border-b bg-background/80 backdrop-blur-sm">
@@ -0,0 +1,209 @@
+'use client';
+
+import { CheckCircle2, FlaskConical, Loader2, RotateCcw, Save, XCircle } from 'lucide-react';
+import React, { useEffect, useState, useTransition } from 'react';
+
+import { getModelProviders, testModel, type ModelTestResult } from '@/app/settings/actions';
+import {
+  MODEL_PROVIDER_LABELS,
+  getModelProvider,
+  isValidModelName,
+  type ModelProviderId,
+  type ModelProviderInfo,
+} from '@/ai/model-config';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useModelPreference } from '@/hooks/use-model-preference';
+import { useToast } from '@/hooks/use-toast';
+import { ANALYSIS_ERROR_LABELS } from '@/lib/threat/verdict';
+
+const ENVIRONMENT_VARIABLES: { name: string; description: string }[] = [
+  { name: 'AI_MODEL', description: 'Server default model, e.g. googleai/gemini-2.5-flash or openai-compatible/llama-3.1-8b-instruct.' },
+  { name: 'GEMINI_API_KEY', description: 'API key for Google AI.' },
+  { name: 'OPENAI_COMPATIBLE_BASE_URL', description: 'Base URL of a local OpenAI-compatible server (default http://localhost:8080/v1).' },
+  { name: 'OPENAI_COMPATIBLE_API_KEY', description: 'Bearer token for that server, if it needs one.' },
+];
+
+export default function ModelSettings() {
+  const [savedModel, setSavedModel] = useModelPreference();
+  const [providers, setProviders] = useState<ModelProviderInfo[] | null>(null);
+  const [providersError, setProvidersError] = useState<string | null>(null);
+  const [defaultModel, setDefaultModel] = useState('');
+  const [provider, setProvider] = useState<ModelProviderId>('googleai');
+  const [modelId, setModelId] = useState('');
+  const [testResult, setTestResult] = useState<ModelTestResult | null>(null);
+  const [isTesting, startTesting] = useTransition();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getModelProviders()
+      .then((result) => {
+        setProviders(result.providers);
+        setDefaultModel(result.defaultModel);
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        setProvidersError(message);
+        toast({ variant: 'destructive', title: 'Could Not Check Providers', description: message });
+      });
+  }, [toast]);
+
+  // Start the form from the saved choice, or from the server default.
+  useEffect(() => {
+    const model = savedModel ?? defaultModel;
+    if (!isValidModelName(model)) return;
+    setProvider(getModelProvider(model));
+    setModelId(model.slice(model.indexOf('/') + 1));
+  }, [savedModel, defaultModel]);
+
+  const model = `${provider}/${modelId.trim()}`;
+  const isValid = modelId.trim() !== '' && isValidModelName(model);
+  const activeProvider = providers?.find((p) => p.id === provider);
+
+  const handleSave = () => {
+    setSavedModel(model);
+    setTestResult(null);
+    toast({ title: 'Model Saved', description: `Scans in this browser now use ${model}.` });
+  };
+
+  const handleReset = () => {
+    setSavedModel(undefined);
+    setTestResult(null);
+    toast({ title: 'Using Server Default', description: `Scans now use ${defaultModel || 'the server default'}.` });
+  };
+
+  const handleTest = () => {
+    setTestResult(null);
+    startTesting(async () => {
+      setTestResult(await testModel(model));
+    });
+  };
+
+  return (
+    <div className="grid gap-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>AI Model</CardTitle>
+          <CardDescription>
+            The model URL Detective asks about URLs that no feed or local rule settles. The choice is stored in this
+            browser; the server default is {defaultModel ? <code>{defaultModel}</code> : '…'}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6">
+          <div className="grid gap-2">
+            <Label>Provider</Label>
+            {providers ? (
+              <RadioGroup
+                value={provider}
+                onValueChange={(value) => {
+                  setProvider(value as ModelProviderId);
+                  setModelId(providers.find((p) => p.id === value)?.models[0] ?? '');
+                  setTestResult(null);
+                }}
+                className="grid gap-3 md:grid-cols-3"
+              >
+                {providers.map((p) => (
+                  <Label
+                    key={p.id}
+                    htmlFor={`provider-${p.id}`}
+                    className="flex cursor-pointer items-start gap-3 rounded-md border p-4 font-normal has-[[data-state=checked]]:border-primary"
+                  >
+                    <RadioGroupItem id={`provider-${p.id}`} value={p.id} className="mt-0.5" />
+                    <div className="grid gap-1">
+                      <span className="flex items-center gap-2 font-medium">
+                        {p.label}
+                        <Badge variant={p.configured ? 'secondary' : 'outline'}>{p.configured ? 'Ready' : 'Not set up'}</Badge>
+                      </span>
+                      <span className="text-xs text-muted-foreground">{p.detail}</span>
+                    </div>
+                  </Label>
+                ))}
+              </RadioGroup>
+            ) : providersError ? (
+              <p className="flex items-center text-sm text-destructive">
+                <XCircle className="mr-2 h-4 w-4" /> The providers could not be checked: {providersError}
+              </p>
+            ) : (
+              <p className="flex items-center text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Checking providers...
+              </p>
+            )}
+          </div>
+
+          <div className="grid gap-2 md:max-w-md">
+            <Label htmlFor="model-id">Model</Label>
+            <Input
+              id="model-id"
+              list="model-suggestions"
+              value={modelId}
+              onChange={(e) => {
+                setModelId(e.target.value);
+                setTestResult(null);
+              }}
+              placeholder={provider === 'openai-compatible' ? 'Model id loaded on the server' : 'Model name'}
+            />
+            <datalist id="model-suggestions">
+              {activeProvider?.models.map((name) => <option key={name} value={name} />)}
+            </datalist>
+            <p className="text-xs text-muted-foreground">
+              Scans will use <code>{model}</code>
+              {savedModel === undefined && ' (currently the server default is in use)'}.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button onClick={handleSave} disabled={!isValid || model === savedModel}>
+              <Save className="mr-2 h-4 w-4" /> Save
+            </Button>
+            <Button onClick={handleTest} variant="outline" disabled={!isValid || isTesting}>
+              {isTesting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FlaskConical className="mr-2 h-4 w-4" />}
+              Test Model
+            </Button>
+            <Button onClick={handleReset} variant="ghost" disabled={savedModel === undefined}>
+              <RotateCcw className="mr-2 h-4 w-4" /> Use Server Default
+            </Button>
+          </div>
+
+          {testResult && (
+            <p className="flex items-center text-sm">
+              {testResult.ok ? (
+                <>
+                  <CheckCircle2 className="mr-2 h-4 w-4 text-green-500" />
+                  Answered in {(testResult.elapsedMs / 1000).toFixed(1)}s: {testResult.summary}
+                </>
+              ) : (
+                <>
+                  <XCircle className="mr-2 h-4 w-4 text-destructive" />
+                  {ANALYSIS_ERROR_LABELS[testResult.error.kind]}: {testResult.error.message}
+                </>
+              )}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Server Configuration</CardTitle>
+          <CardDescription>
+            Providers are configured with environment variables on the server. {MODEL_PROVIDER_LABELS.fake} needs none.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid gap-3 text-sm">
+            {ENVIRONMENT_VARIABLES.map((variable) => (
+              <div key={variable.name} className="grid gap-0.5 md:grid-cols-[280px_1fr]">
+                <dt><code>{variable.name}</code></dt>
+                <dd className="text-muted-foreground">{variable.description}</dd>
+              </div>
+            ))}
+          </dl>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,18 +2,27 @@ import * as React from "react"
 
 import { cn } from "@/lib/utils"
 
-const Table = React.forwardRef<
-  HTMLTableElement,
-  React.HTMLAttributes<HTMLTableElement>
->(({ className, ...props }, ref) => (
-  <div className="relative w-full overflow-auto">
+type TableProps = React.HTMLAttributes<HTMLTableElement> & {
+  containerClassName?: string
+  containerRef?: React.Ref<HTMLDivElement>
+  containerProps?: React.HTMLAttributes<HTMLDivElement>
+}
+
+const Table = React.forwardRef<HTMLTableElement, TableProps>(
+  ({ className, containerClassName, containerRef, containerProps, ...props }, ref) => (
+  <div
+    ref={containerRef}
+    className={cn("relative w-full overflow-auto", containerClassName)}
+    {...containerProps}
+  >
     <table
       ref={ref}
       className={cn("w-full caption-bottom text-sm", className)}
       {...props}
     />
   </div>
-))
+  )
+)
 Table.displayName = "Table"
 
 const TableHeader = React.forwardRef<
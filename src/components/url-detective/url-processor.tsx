@@ -1,7 +1,6 @@
 'use client';
 
 import {
-  AlertCircle,
   AlertTriangle,
   CheckCircle2,
   ChevronDown,
@@ -9,29 +8,37 @@ import {
   Copy,
   Download,
   FileJson,
+  FileSearch,
   FileText,
   FileUp,
+  History,
   Loader2,
+  RefreshCw,
   Search,
   ShieldAlert,
+  Settings,
+  SlidersHorizontal,
+  Square,
   Trash2,
   X,
 } from 'lucide-react';
+import Link from 'next/link';
 import React, {
   useCallback,
   useEffect,
   useMemo,
+  useRef,
   useState,
-  useTransition,
 } from 'react';
 
-import { checkUrl } from '@/app/actions';
+import { analyzePageContent, type PageAnalysisResult } from '@/app/actions';
 import {
   Accordion,
   AccordionContent,
   AccordionItem,
   AccordionTrigger,
 } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -41,11 +48,22 @@ import {
 } from '@/components/ui/card';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Table,
   TableBody,
@@ -61,29 +79,230 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import { FileDropZone } from '@/components/url-import/file-drop-zone';
+import { ImportedUrlsSummary } from '@/components/url-import/imported-urls-summary';
 import { UrlImportDialog } from '@/components/url-import/url-import-dialog';
+import { useFrameBatch } from '@/hooks/use-frame-batch';
+import { useImportedOrigins } from '@/hooks/use-imported-origins';
+import { useModelPreference } from '@/hooks/use-model-preference';
 import { useToast } from '@/hooks/use-toast';
+import { useVirtualTable } from '@/hooks/use-virtual-table';
+import {
+  CANONICALIZE_OPTION_LABELS,
+  DEFAULT_CANONICALIZE_OPTIONS,
+  type CanonicalizeOptions,
+} from '@/lib/url-canonicalize';
+import type { ThreatScanProgress } from '@/lib/threat/scan-events';
+import { streamThreatScan } from '@/lib/threat/scan-stream-client';
+import {
+  ANALYSIS_ERROR_LABELS,
+  THREAT_CATEGORY_LABELS,
+  THREAT_SEVERITIES,
+  formatEvidence,
+  getThreatSeverity,
+  isThreat,
+  type AnalysisErrorKind,
+  type ThreatSeverity,
+  type ThreatVerdict,
+} from '@/lib/threat/verdict';
+import {
+  METADATA_FILTER_OPERATORS,
+  getMetadataFields,
+  matchesMetadataFilter,
+  mergeImportedMetadata,
+  type ImportedUrlMetadata,
+  type MetadataFilter,
+  type MetadataFilterOperator,
+  type UrlMetadata,
+} from '@/lib/url-import/metadata';
+import {
+  describeUrlOrigins,
+  formatUrlOrigin,
+  getUrlOrigins,
+  type ImportSource,
+} from '@/lib/url-import/provenance';
+import { MATCH_LEVELS, type MatchLevel } from '@/lib/url-matching';
+import { cn, formatDuration } from '@/lib/utils';
+import type {
+  UrlProcessorRequest,
+  UrlProcessorResponse,
+} from '@/workers/url-processor-protocol';
 
 type ProcessedUrl = {
   id: string;
   url: string;
+  groupKey: string;
+  variants: string[];
   isDuplicate: boolean;
   count: number;
   positions: number[];
 };
 
 type MaliciousFlag = {
-  isMalicious: boolean;
-  reason?: string;
+  verdict?: ThreatVerdict;
   isLoading: boolean;
 };
 
+type PageAnalysisState = {
+  result?: PageAnalysisResult;
+  isLoading: boolean;
+};
+
+type RiskFilter = 'all' | ThreatSeverity | 'failed' | 'unscanned';
+type RiskSort = 'input' | 'risk-desc' | 'risk-asc';
+
+const SEVERITY_BADGE_CLASSES: Record<ThreatSeverity, string> = {
+  critical: 'bg-red-600/20 text-red-400 border-red-500/30',
+  high: 'bg-orange-600/20 text-orange-400 border-orange-500/30',
+  medium: 'bg-amber-600/20 text-amber-400 border-amber-500/30',
+  low: 'bg-sky-600/20 text-sky-400 border-sky-500/30',
+  safe: 'bg-green-600/20 text-green-400 border-green-500/30',
+};
+
 type Stats = {
   total: number;
   unique: number;
   duplicates: number;
 };
 
+type ProcessingProgress = {
+  processed: number;
+  total: number;
+};
+
+// A failed analysis gets its own badge so it is never mistaken for "safe".
+function AnalysisErrorBadge({ verdict }: { verdict: ThreatVerdict }) {
+  const error = verdict.error!;
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className="border-dashed border-muted-foreground/50 font-semibold text-muted-foreground">
+          <AlertTriangle className="mr-1 h-3 w-3" />
+          {ANALYSIS_ERROR_LABELS[error.kind]}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-sm text-left" side="left">
+        <p className="font-semibold">Not analyzed: {ANALYSIS_ERROR_LABELS[error.kind]}</p>
+        <p className="text-sm text-muted-foreground">{error.message}</p>
+        {verdict.evidence.length > 0 && (
+          <>
+            <p className="mt-1 text-xs text-muted-foreground">Local rules scored this URL {verdict.riskScore}:</p>
+            <ul className="list-disc pl-4 text-xs">
+              {verdict.evidence.map((item, i) => (
+                <li key={i}>
+                  <span className="font-medium">{item.signal}:</span> {item.detail}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+function PageAnalysisBadge({ result }: { result: PageAnalysisResult }) {
+  if (!result.ok) {
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline" className="border-dashed font-semibold text-muted-foreground">
+            <FileSearch className="mr-1 h-3 w-3" />
+            Page: {result.stage === 'model' ? ANALYSIS_ERROR_LABELS[result.error.kind] : result.stage === 'fetch' ? 'Unreachable' : 'Invalid URL'}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-sm text-left" side="left">
+          {result.stage === 'model' ? result.error.message : result.message}
+        </TooltipContent>
+      </Tooltip>
+    );
+  }
+
+  const { verdict, features } = result;
+  const severity = getThreatSeverity(verdict.riskScore);
+  const crossOriginForms = features.forms.filter((form) => form.crossOrigin).length;
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant="outline"
+          className={cn('font-semibold', verdict.isCredentialPhishing ? SEVERITY_BADGE_CLASSES[severity] : SEVERITY_BADGE_CLASSES.safe)}
+        >
+          <FileSearch className="mr-1 h-3 w-3" />
+          {verdict.isCredentialPhishing
+            ? `Page: phishing${verdict.impersonatedBrand ? ` (${verdict.impersonatedBrand})` : ''} · ${verdict.riskScore}`
+            : `Page: OK · ${verdict.riskScore}`}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-sm text-left" side="left">
+        <p className="font-semibold">
+          {verdict.isCredentialPhishing ? 'Credential phishing page' : 'No credential phishing found'} · {verdict.confidence} confidence
+        </p>
+        <p className="text-sm text-muted-foreground">{verdict.summary}</p>
+        <p className="mt-1 text-xs text-muted-foreground">
+          {features.title ? `"${features.title}" · ` : ''}
+          {features.forms.length} form(s), {features.passwordInputs} password input(s)
+          {crossOriginForms > 0 && `, ${crossOriginForms} posting to another site`}
+          {features.externalScriptHosts.length > 0 && ` · scripts from ${features.externalScriptHosts.length} other host(s)`}
+        </p>
+        {verdict.evidence.length > 0 && (
+          <ul className="mt-1 list-disc pl-4 text-xs">
+            {verdict.evidence.map((item, i) => (
+              <li key={i}>
+                <span className="font-medium">{item.signal}:</span> {item.detail}
+              </li>
+            ))}
+          </ul>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+function ThreatBadge({ verdict }: { verdict: ThreatVerdict }) {
+  if (verdict.error) return <AnalysisErrorBadge verdict={verdict} />;
+  const severity = getThreatSeverity(verdict.riskScore);
+  const { label } = THREAT_SEVERITIES.find((s) => s.value === severity)!;
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={cn('font-semibold', SEVERITY_BADGE_CLASSES[severity])}>
+          {label} · {verdict.riskScore}
+          {verdict.cachedAt !== undefined && <History className="ml-1 h-3 w-3" aria-label="Cached" />}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-sm text-left" side="left">
+        <p className="font-semibold">
+          {THREAT_CATEGORY_LABELS[verdict.category]} · {verdict.confidence} confidence
+        </p>
+        {verdict.source !== 'model' && (
+          <p className="text-xs text-muted-foreground">
+            {verdict.source === 'feed' ? 'Decided by a threat feed' : 'Decided by local rules'}
+          </p>
+        )}
+        <p className="text-sm text-muted-foreground">{verdict.summary}</p>
+        {verdict.cachedAt !== undefined && (
+          <p className="text-xs text-muted-foreground">
+            Cached verdict from {new Date(verdict.cachedAt).toLocaleString()}
+          </p>
+        )}
+        {verdict.evidence.length > 0 && (
+          <ul className="mt-1 list-disc pl-4 text-xs">
+            {verdict.evidence.map((item, i) => (
+              <li key={i}>
+                <span className="font-medium">{item.signal}:</span> {item.detail}
+                {item.source !== 'model' && (
+                  <span className="text-muted-foreground"> ({item.source === 'feed' ? 'feed' : 'rule'})</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
 export default function UrlProcessor() {
   const [text, setText] = useState('');
   const [debouncedText, setDebouncedText] = useState('');
@@ -97,10 +316,57 @@ export default function UrlProcessor() {
     new Map()
   );
   const [searchTerm, setSearchTerm] = useState('');
-  const [isScanning, startScanning] = useTransition();
+  const [riskFilter, setRiskFilter] = useState<RiskFilter>('all');
+  const [riskSort, setRiskSort] = useState<RiskSort>('input');
+  const [importedMetadata, setImportedMetadata] = useState<ImportedUrlMetadata>(new Map());
+  const { origins: importedOrigins, add: addImportedOrigins, clear: clearImportedOrigins } = useImportedOrigins();
+  const [metadataFilter, setMetadataFilter] = useState<MetadataFilter>({ field: '', operator: 'contains', value: '' });
+  const [canonicalOptions, setCanonicalOptions] = useState<CanonicalizeOptions>(
+    DEFAULT_CANONICALIZE_OPTIONS
+  );
+  const [matchLevel, setMatchLevel] = useState<MatchLevel>('canonical');
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState<ThreatScanProgress | null>(null);
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null);
+  const scanAbortRef = useRef<AbortController | null>(null);
+  const [model] = useModelPreference();
+  const [pageAnalyses, setPageAnalyses] = useState<Map<string, PageAnalysisState>>(new Map());
+  const [isAnalyzingPages, setIsAnalyzingPages] = useState(false);
+  const pageAbortRef = useRef<AbortController | null>(null);
   const [isImporting, setIsImporting] = useState(false);
+  const [droppedFiles, setDroppedFiles] = useState<File[] | null>(null);
+  // Imported URLs live in the processor worker; the page only counts them.
+  const [importedCount, setImportedCount] = useState(0);
+  const [importGeneration, setImportGeneration] = useState(0);
+  const [processing, setProcessing] = useState<ProcessingProgress | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const jobIdRef = useRef(0);
+  const groupsRef = useRef(new Map<string, ProcessedUrl>());
   const { toast } = useToast();
 
+  // A large input is processed in hundreds of chunks; groups are merged as
+  // each arrives, and the latest totals shown once per frame.
+  const chunkBatch = useFrameBatch<UrlProcessorResponse>((batch) => {
+    const latest = batch[batch.length - 1];
+    if (latest.jobId !== jobIdRef.current) return;
+    const groups = groupsRef.current;
+    // Groups are inserted in order of first appearance, so no sort is needed.
+    setResults(Array.from(groups.values()));
+    setStats({
+      total: latest.processedLines,
+      unique: groups.size,
+      duplicates: latest.processedLines - groups.size,
+    });
+    setProcessing(latest.done ? null : { processed: latest.processedLines, total: latest.totalLines });
+  });
+  const verdictBatch = useFrameBatch<[string, ThreatVerdict]>((batch) => {
+    setMaliciousFlags((prev) => {
+      const newFlags = new Map(prev);
+      batch.forEach(([url, verdict]) => newFlags.set(url, { verdict, isLoading: false }));
+      return newFlags;
+    });
+  });
+
   useEffect(() => {
     const timer = setTimeout(() => {
       setDebouncedText(text);
@@ -109,51 +375,142 @@ export default function UrlProcessor() {
   }, [text]);
 
   useEffect(() => {
-    const lines = debouncedText
-      .split('\n')
-      .map((line) => line.trim())
-      .filter(Boolean);
-    
-    const urlInfo = new Map<string, { count: number; positions: number[] }>();
-    lines.forEach((line, index) => {
-        const info = urlInfo.get(line) || { count: 0, positions: [] };
-        info.count++;
-        info.positions.push(index + 1);
-        urlInfo.set(line, info);
-    });
+    const worker = new Worker(new URL('../../workers/url-processor.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<UrlProcessorResponse>) => {
+      const message = event.data;
+      if (message.jobId !== jobIdRef.current) return;
 
-    const processed: ProcessedUrl[] = Array.from(urlInfo.entries()).map(([url, info]) => ({
-        id: url,
-        url,
-        isDuplicate: info.count > 1,
-        count: info.count,
-        positions: info.positions,
-    })).sort((a, b) => a.positions[0] - b.positions[0]);
+      const groups = groupsRef.current;
+      message.groups.forEach((delta) => {
+        const existing = groups.get(delta.key);
+        const count = (existing?.count ?? 0) + delta.positions.length;
+        groups.set(delta.key, {
+          id: delta.key,
+          url: existing?.url ?? delta.url,
+          groupKey: delta.key,
+          variants: existing ? [...existing.variants, ...delta.variants] : delta.variants,
+          isDuplicate: count > 1,
+          count,
+          positions: existing ? [...existing.positions, ...delta.positions] : delta.positions,
+        });
+      });
 
-    setResults(processed);
+      chunkBatch.push(message);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [chunkBatch]);
 
-    const totalCount = lines.length;
-    const uniqueUrlCount = urlInfo.size;
-    
-    setStats({
-      total: totalCount,
-      unique: uniqueUrlCount,
-      duplicates: totalCount - uniqueUrlCount,
-    });
-  }, [debouncedText]);
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker) return;
+
+    const jobId = ++jobIdRef.current;
+    groupsRef.current = new Map();
+    const request: UrlProcessorRequest = {
+      type: 'process',
+      jobId,
+      text: debouncedText,
+      matchLevel,
+      options: canonicalOptions,
+    };
+    worker.postMessage(request);
+
+    return () => {
+      const cancel: UrlProcessorRequest = { type: 'cancel', jobId };
+      worker.postMessage(cancel);
+    };
+  }, [debouncedText, matchLevel, canonicalOptions, importGeneration]);
+
+  // Metadata of each group, from its variants; the first variant's value wins.
+  const groupMetadata = useMemo(() => {
+    const byGroup = new Map<string, UrlMetadata>();
+    if (importedMetadata.size === 0) return byGroup;
+    for (const r of results) {
+      const fields = r.variants.reduceRight<UrlMetadata | undefined>((merged, variant) => {
+        const metadata = importedMetadata.get(variant);
+        return metadata ? { ...merged, ...metadata } : merged;
+      }, undefined);
+      if (fields) byGroup.set(r.id, fields);
+    }
+    return byGroup;
+  }, [results, importedMetadata]);
+
+  const metadataFields = useMemo(() => getMetadataFields(importedMetadata.values()), [importedMetadata]);
+  const isMetadataFilterActive = metadataFilter.field !== '' && metadataFilter.value.trim() !== '';
 
   const filteredResults = useMemo(() => {
-    if (!searchTerm) return results;
-    return results.filter((r) =>
-      r.url.toLowerCase().includes(searchTerm.toLowerCase())
-    );
-  }, [results, searchTerm]);
+    const searchLower = searchTerm.toLowerCase();
+    const filtered = results.filter((r) => {
+      if (isMetadataFilterActive && !matchesMetadataFilter(groupMetadata.get(r.id), metadataFilter)) return false;
+      if (riskFilter !== 'all') {
+        const verdict = maliciousFlags.get(r.url)?.verdict;
+        const matches = riskFilter === 'unscanned'
+          ? !verdict
+          : riskFilter === 'failed'
+            ? !!verdict?.error
+            : !!verdict && !verdict.error && getThreatSeverity(verdict.riskScore) === riskFilter;
+        if (!matches) return false;
+      }
+      if (!searchLower) return true;
+      return r.groupKey.toLowerCase().includes(searchLower) ||
+        r.variants.some((v) => v.toLowerCase().includes(searchLower));
+    });
+    if (riskSort === 'input') return filtered;
+
+    // Unscanned and failed rows always go last; ties keep input order (Array#sort is stable).
+    const order = riskSort === 'risk-desc' ? -1 : 1;
+    const riskOf = (r: ProcessedUrl) => {
+      const verdict = maliciousFlags.get(r.url)?.verdict;
+      return verdict && !verdict.error ? verdict.riskScore : undefined;
+    };
+    return filtered.sort((a, b) => {
+      const riskA = riskOf(a);
+      const riskB = riskOf(b);
+      if (riskA === undefined || riskB === undefined) {
+        return (riskA === undefined ? 1 : 0) - (riskB === undefined ? 1 : 0);
+      }
+      return (riskA - riskB) * order;
+    });
+  }, [results, searchTerm, riskFilter, riskSort, maliciousFlags, groupMetadata, metadataFilter, isMetadataFilterActive]);
+
+  const {
+    containerRef: tableContainerRef,
+    containerProps: tableContainerProps,
+    virtualizer,
+    virtualRows,
+    paddingTop,
+    paddingBottom,
+    activeIndex,
+    setActiveIndex,
+    getRowId,
+  } = useVirtualTable({ count: filteredResults.length, estimateRowHeight: 73 });
+
+  const toggleCanonicalOption = useCallback((key: keyof CanonicalizeOptions) => {
+    setCanonicalOptions((prev) => ({ ...prev, [key]: !prev[key] }));
+  }, []);
+
+  const handleRemoveImported = useCallback(() => {
+    const request: UrlProcessorRequest = { type: 'clear-imported' };
+    workerRef.current?.postMessage(request);
+    // A new job is started over the typed text alone.
+    setImportGeneration((generation) => generation + 1);
+    setImportedCount(0);
+    setImportedMetadata(new Map());
+    clearImportedOrigins();
+    setMetadataFilter({ field: '', operator: 'contains', value: '' });
+  }, [clearImportedOrigins]);
 
   const handleClear = useCallback(() => {
     setText('');
     setSearchTerm('');
     setMaliciousFlags(new Map());
-  }, []);
+    setPageAnalyses(new Map());
+    handleRemoveImported();
+  }, [handleRemoveImported]);
 
   const handleCopyToClipboard = useCallback(async (content: string, name: string) => {
     try {
@@ -206,16 +563,158 @@ export default function UrlProcessor() {
         return;
     }
     if (format === 'json') {
-      const json = JSON.stringify(results, null, 2);
+      const json = JSON.stringify(results.map(r => ({
+        ...r,
+        matchLevel,
+        verdict: maliciousFlags.get(r.url)?.verdict ?? null,
+        pageAnalysis: pageAnalyses.get(r.url)?.result ?? null,
+        metadata: groupMetadata.get(r.id) ?? null,
+        origins: getUrlOrigins(importedOrigins, r.variants),
+      })), null, 2);
       downloadFile(json, 'url-detective-results.json', 'application/json');
     } else {
-      const csvHeader = 'URL,IsDuplicate,Count,Positions\n';
-      const csvBody = results.map(r => `"${r.url.replace(/"/g, '""')}",${r.isDuplicate},${r.count},"${r.positions.join(',')}"`).join('\n');
+      const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+      const csvHeader = `URL,MatchLevel,GroupKey,Variants,IsDuplicate,Count,Positions,Origins,RiskScore,Severity,Category,Confidence,VerdictSource,CachedAt,AnalysisError,Summary,Evidence,PagePhishing,PageRiskScore,PageBrand,PageSummary${metadataFields.map((field) => `,${quote(field)}`).join('')}\n`;
+      const csvBody = results.map(r => {
+        const verdict = maliciousFlags.get(r.url)?.verdict;
+        const verdictColumns = verdict
+          ? [verdict.riskScore, getThreatSeverity(verdict.riskScore), verdict.category, verdict.confidence, verdict.source, verdict.cachedAt ? new Date(verdict.cachedAt).toISOString() : '', verdict.error?.kind ?? '', quote(verdict.summary), quote(formatEvidence(verdict.evidence))]
+          : ['', '', '', '', '', '', '', '', ''];
+        const page = pageAnalyses.get(r.url)?.result;
+        const pageColumns = page?.ok
+          ? [page.verdict.isCredentialPhishing, page.verdict.riskScore, quote(page.verdict.impersonatedBrand ?? ''), quote(page.verdict.summary)]
+          : page
+            ? ['', '', '', quote(page.stage === 'model' ? page.error.message : page.message)]
+            : ['', '', '', ''];
+        const metadata = groupMetadata.get(r.id);
+        const metadataColumns = metadataFields.map((field) => quote(metadata?.[field] ?? ''));
+        return [quote(r.url), matchLevel, quote(r.groupKey), quote(r.variants.join(' ')), r.isDuplicate, r.count, quote(r.positions.join(',')), quote(getUrlOrigins(importedOrigins, r.variants).map(formatUrlOrigin).join('; ')), ...verdictColumns, ...pageColumns, ...metadataColumns].join(',');
+      }).join('\n');
       downloadFile(csvHeader + csvBody, 'url-detective-results.csv', 'text/csv');
     }
-  }, [results, toast]);
+  }, [results, matchLevel, maliciousFlags, pageAnalyses, groupMetadata, importedOrigins, metadataFields, toast]);
+
+  useEffect(() => () => scanAbortRef.current?.abort(), []);
+
+  // `forceRescan` skips the server's verdict cache.
+  const scanUrls = useCallback(async (urls: string[], forceRescan: boolean) => {
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
+    setIsScanning(true);
+    setScanProgress({ completed: 0, total: urls.length, elapsedMs: 0, etaMs: null, modelCalls: 0 });
+    setMaliciousFlags((prev) => {
+      const newFlags = new Map(prev);
+      urls.forEach((url) => {
+        newFlags.set(url, { ...newFlags.get(url), isLoading: true });
+      });
+      return newFlags;
+    });
+
+    try {
+      await streamThreatScan(urls, {
+        signal: controller.signal,
+        options: { forceRescan, model },
+        onEvent: (event) => {
+          if (event.type === 'verdict') {
+            verdictBatch.push([event.url, event.verdict]);
+          } else if (event.type === 'progress') {
+            setScanProgress(event);
+            setRateLimitedUntil((until) => (until && until > Date.now() ? until : null));
+          } else if (event.type === 'rate-limited') {
+            setRateLimitedUntil(Date.now() + event.retryInMs);
+          } else if (event.type === 'error') {
+            toast({ variant: 'destructive', title: 'Scan Failed', description: event.message });
+          }
+        },
+      });
+    } catch (error: any) {
+      if (!controller.signal.aborted) {
+        toast({ variant: 'destructive', title: 'Scan Failed', description: error.message });
+      }
+    } finally {
+      verdictBatch.flush();
+      // URLs the scan never reached go back to unscanned.
+      setMaliciousFlags((prev) => {
+        const newFlags = new Map(prev);
+        urls.forEach((url) => {
+          const flag = newFlags.get(url);
+          if (!flag?.isLoading) return;
+          if (flag.verdict) newFlags.set(url, { verdict: flag.verdict, isLoading: false });
+          else newFlags.delete(url);
+        });
+        return newFlags;
+      });
+      setIsScanning(false);
+      setScanProgress(null);
+      setRateLimitedUntil(null);
+      scanAbortRef.current = null;
+    }
+
+    if (controller.signal.aborted) {
+      toast({ title: 'Scan Cancelled', description: 'URLs not yet scanned were left unscanned.' });
+    }
+  }, [model, verdictBatch, toast]);
+
+  // Pages are fetched and judged one at a time: each analysis is a page fetch
+  // plus a model call, and server actions from one client run in sequence anyway.
+  const analyzePages = useCallback(async (urls: string[]) => {
+    const controller = new AbortController();
+    pageAbortRef.current = controller;
+    setIsAnalyzingPages(true);
+    setPageAnalyses((prev) => {
+      const next = new Map(prev);
+      urls.forEach((url) => next.set(url, { ...next.get(url), isLoading: true }));
+      return next;
+    });
+
+    try {
+      for (const url of urls) {
+        let result: PageAnalysisResult | undefined;
+        if (!controller.signal.aborted) {
+          try {
+            result = await analyzePageContent(url, { model });
+          } catch (error) {
+            // The action itself failed, e.g. the server could not be reached.
+            result = { ok: false, stage: 'model', error: { kind: 'unknown', message: error instanceof Error ? error.message : String(error) } };
+          }
+        }
+        setPageAnalyses((prev) => {
+          const next = new Map(prev);
+          const previous = next.get(url)?.result;
+          if (result ?? previous) next.set(url, { result: result ?? previous, isLoading: false });
+          else next.delete(url);
+          return next;
+        });
+      }
+    } finally {
+      setIsAnalyzingPages(false);
+      pageAbortRef.current = null;
+    }
+  }, [model]);
+
+  const handleAnalyzeFlaggedPages = useCallback(() => {
+    const flagged = results
+      .map((r) => r.url)
+      .filter((url) => {
+        const verdict = maliciousFlags.get(url)?.verdict;
+        return verdict && !verdict.error && isThreat(verdict);
+      });
+    if (flagged.length === 0) {
+      toast({
+        title: 'No Flagged URLs',
+        description: 'Scan the URLs first; page analysis runs on URLs rated medium risk or higher.',
+      });
+      return;
+    }
+    analyzePages(flagged);
+  }, [results, maliciousFlags, analyzePages, toast]);
 
-  const handleScanMalicious = useCallback(() => {
+  const handleCancelScan = useCallback(() => {
+    scanAbortRef.current?.abort();
+    pageAbortRef.current?.abort();
+  }, []);
+
+  const handleScanMalicious = useCallback((forceRescan = false) => {
     const uniqueUrls = results.map((r) => r.url);
     if (uniqueUrls.length === 0) {
       toast({
@@ -225,44 +724,71 @@ export default function UrlProcessor() {
       });
       return;
     }
+    scanUrls(uniqueUrls, forceRescan);
+  }, [results, scanUrls, toast]);
 
-    startScanning(() => {
-      setMaliciousFlags((prev) => {
-        const newFlags = new Map(prev);
-        uniqueUrls.forEach((url) => {
-          newFlags.set(url, { ...newFlags.get(url), isLoading: true });
-        });
-        return newFlags;
-      });
-
-      Promise.all(
-        uniqueUrls.map(async (url) => {
-          const result = await checkUrl(url);
-          setMaliciousFlags((prev) => {
-            const newFlags = new Map(prev);
-            newFlags.set(url, { ...result, isLoading: false });
-            return newFlags;
-          });
-        })
-      );
+  const scanStats = useMemo(() => {
+    const failed: string[] = [];
+    const failuresByKind: Partial<Record<AnalysisErrorKind, number>> = {};
+    let scanned = 0;
+    maliciousFlags.forEach((flag, url) => {
+      if (!flag.verdict) return;
+      scanned++;
+      if (flag.verdict.error) {
+        failed.push(url);
+        failuresByKind[flag.verdict.error.kind] = (failuresByKind[flag.verdict.error.kind] ?? 0) + 1;
+      }
     });
-  }, [results, toast]);
+    return { scanned, failed, failuresByKind };
+  }, [maliciousFlags]);
+
+  // Failures are never cached, so a plain scan retries them.
+  const handleRetryFailed = useCallback(() => {
+    if (scanStats.failed.length > 0) scanUrls(scanStats.failed, false);
+  }, [scanStats.failed, scanUrls]);
+
+  // Each batch is handed to the worker, which counts it on from the last one.
+  const handleImport = (urls: string[], metadata: ImportedUrlMetadata | undefined, source: ImportSource) => {
+    const request: UrlProcessorRequest = { type: 'append', urls };
+    workerRef.current?.postMessage(request);
+    setImportedCount((count) => count + urls.length);
+    if (metadata && metadata.size > 0) setImportedMetadata((prev) => mergeImportedMetadata(prev, metadata));
+    addImportedOrigins(urls, source);
+  };
+
+  const handleDropFiles = (files: File[]) => {
+    setDroppedFiles(files);
+    setIsImporting(true);
+  };
 
-  const handleImport = (urls: string) => {
-    setText(prev => prev ? `${prev}\n${urls}` : urls);
+  const handleImportOpenChange = (open: boolean) => {
+    setIsImporting(open);
+    if (!open) setDroppedFiles(null);
   };
 
-  const statCards = [
+  const activeMatchLevel = MATCH_LEVELS.find((level) => level.value === matchLevel) ?? MATCH_LEVELS[0];
+
+  const statCards: { title: string; value: number; icon: React.ReactNode; details?: string[] }[] = [
     { title: 'Total URLs', value: stats.total, icon: <FileText className="h-4 w-4 text-muted-foreground" /> },
-    { title: 'Unique URLs', value: stats.unique, icon: <Copy className="h-4 w-4 text-muted-foreground" /> },
+    { title: `Unique ${activeMatchLevel.unit}`, value: stats.unique, icon: <Copy className="h-4 w-4 text-muted-foreground" /> },
     { title: 'Duplicate Entries', value: stats.duplicates, icon: <ClipboardCopy className="h-4 w-4 text-muted-foreground" /> },
+    {
+      title: 'Failed Analyses',
+      value: scanStats.failed.length,
+      icon: <AlertTriangle className="h-4 w-4 text-muted-foreground" />,
+      details: [
+        `${scanStats.scanned.toLocaleString()} scanned`,
+        ...Object.entries(scanStats.failuresByKind).map(([kind, count]) => `${ANALYSIS_ERROR_LABELS[kind as AnalysisErrorKind]}: ${count}`),
+      ],
+    },
   ];
 
   return (
     <TooltipProvider>
-      <UrlImportDialog open={isImporting} onOpenChange={setIsImporting} onImport={handleImport} />
+      <UrlImportDialog open={isImporting} onOpenChange={handleImportOpenChange} onImport={handleImport} droppedFiles={droppedFiles} />
+      <FileDropZone onDrop={handleDropFiles} />
       <div className="grid gap-8">
-        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
           {statCards.map((stat, i) => (
             <Card key={i}>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -271,14 +797,54 @@ export default function UrlProcessor() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold">{stat.value}</div>
+                {stat.details?.map((line) => (
+                  <p key={line} className="text-xs text-muted-foreground">{line}</p>
+                ))}
               </CardContent>
             </Card>
           ))}
         </div>
 
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
             <CardTitle>Bulk URL Counter</CardTitle>
+            <div className="flex items-center gap-2">
+              <Select value={matchLevel} onValueChange={(value) => setMatchLevel(value as MatchLevel)}>
+                <SelectTrigger className="h-9 w-[260px]">
+                  <SelectValue placeholder="Matching level" />
+                </SelectTrigger>
+                <SelectContent>
+                  {MATCH_LEVELS.map((level) => (
+                    <SelectItem key={level.value} value={level.value}>
+                      {level.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={matchLevel === 'exact'}>
+                    <SlidersHorizontal className="mr-2 h-4 w-4" />
+                    Normalization
+                    <ChevronDown className="ml-2 h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Treat as duplicates when URLs differ only by</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {CANONICALIZE_OPTION_LABELS.map((option) => (
+                    <DropdownMenuCheckboxItem
+                      key={option.key}
+                      checked={canonicalOptions[option.key]}
+                      onCheckedChange={() => toggleCanonicalOption(option.key)}
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      {option.label}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
           </CardHeader>
           <CardContent className="p-6 pt-0">
             <div className="relative">
@@ -303,7 +869,7 @@ export default function UrlProcessor() {
                   </TooltipTrigger>
                   <TooltipContent>Import URLs</TooltipContent>
                 </Tooltip>
-                {text && (
+                {(text || importedCount > 0) && (
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <Button
@@ -321,6 +887,16 @@ export default function UrlProcessor() {
                 )}
               </div>
             </div>
+            <ImportedUrlsSummary count={importedCount} onRemove={handleRemoveImported} className="mt-4" />
+            {processing && (
+              <div className="mt-4 space-y-1">
+                <Progress value={(processing.processed / Math.max(processing.total, 1)) * 100} className="w-full" />
+                <p className="flex items-center text-xs text-muted-foreground">
+                  <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                  Processing {processing.processed.toLocaleString()} of {processing.total.toLocaleString()} lines...
+                </p>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -337,6 +913,73 @@ export default function UrlProcessor() {
                 />
               </div>
               <div className="flex items-center gap-2">
+                <Select value={riskFilter} onValueChange={(value) => setRiskFilter(value as RiskFilter)}>
+                  <SelectTrigger className="w-[150px]" aria-label="Filter by risk">
+                    <SelectValue placeholder="Risk" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All risks</SelectItem>
+                    {THREAT_SEVERITIES.map((severity) => (
+                      <SelectItem key={severity.value} value={severity.value}>
+                        {severity.label}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="failed">Analysis failed</SelectItem>
+                    <SelectItem value="unscanned">Not scanned</SelectItem>
+                  </SelectContent>
+                </Select>
+                {metadataFields.length > 0 && (
+                  <div className="flex items-center gap-1">
+                    <Select
+                      value={metadataFilter.field || 'none'}
+                      onValueChange={(value) => setMetadataFilter((prev) => ({ ...prev, field: value === 'none' ? '' : value }))}
+                    >
+                      <SelectTrigger className="w-[130px]" aria-label="Filter by imported field">
+                        <SelectValue placeholder="Field" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Any field</SelectItem>
+                        {metadataFields.map((field) => (
+                          <SelectItem key={field} value={field}>{field}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {metadataFilter.field !== '' && (
+                      <>
+                        <Select
+                          value={metadataFilter.operator}
+                          onValueChange={(value) => setMetadataFilter((prev) => ({ ...prev, operator: value as MetadataFilterOperator }))}
+                        >
+                          <SelectTrigger className="w-[110px]" aria-label="Comparison">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {METADATA_FILTER_OPERATORS.map((operator) => (
+                              <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          className="w-[130px]"
+                          placeholder={metadataFilter.field === 'lastmod' ? '2024-01-01' : 'Value'}
+                          value={metadataFilter.value}
+                          onChange={(e) => setMetadataFilter((prev) => ({ ...prev, value: e.target.value }))}
+                          aria-label="Field value"
+                        />
+                      </>
+                    )}
+                  </div>
+                )}
+                <Select value={riskSort} onValueChange={(value) => setRiskSort(value as RiskSort)}>
+                  <SelectTrigger className="w-[170px]" aria-label="Sort order">
+                    <SelectValue placeholder="Sort" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="input">Input order</SelectItem>
+                    <SelectItem value="risk-desc">Highest risk first</SelectItem>
+                    <SelectItem value="risk-asc">Lowest risk first</SelectItem>
+                  </SelectContent>
+                </Select>
                 <Button onClick={handleCopyUnique} variant="outline">
                   <Copy className="mr-2 h-4 w-4" /> Copy Unique
                 </Button>
@@ -359,16 +1002,71 @@ export default function UrlProcessor() {
                       </DropdownMenuItem>
                     </DropdownMenuContent>
                   </DropdownMenu>
-                <Button onClick={handleScanMalicious} disabled={isScanning}>
-                  {isScanning ? (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  ) : (
-                    <ShieldAlert className="mr-2 h-4 w-4" />
-                  )}
-                  Scan URLs
-                </Button>
+                <div className="flex">
+                  <Button onClick={() => handleScanMalicious()} disabled={isScanning} className="rounded-r-none">
+                    {isScanning ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <ShieldAlert className="mr-2 h-4 w-4" />
+                    )}
+                    Scan URLs
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button disabled={isScanning} className="rounded-l-none border-l border-primary-foreground/20 px-2">
+                        <ChevronDown className="h-4 w-4" />
+                        <span className="sr-only">More scan options</span>
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                        Model: {model ?? 'server default'}
+                      </DropdownMenuLabel>
+                      <DropdownMenuItem asChild>
+                        <Link href="/settings">
+                          <Settings className="mr-2 h-4 w-4" />
+                          Change model...
+                        </Link>
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => handleScanMalicious(true)}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Force rescan all (ignore cache)
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={handleRetryFailed} disabled={scanStats.failed.length === 0}>
+                        <AlertTriangle className="mr-2 h-4 w-4" />
+                        Retry failed ({scanStats.failed.length})
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={handleAnalyzeFlaggedPages} disabled={isAnalyzingPages}>
+                        <FileSearch className="mr-2 h-4 w-4" />
+                        Analyze page content of flagged URLs
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+                {(isScanning || isAnalyzingPages) && (
+                  <Button onClick={handleCancelScan} variant="destructive">
+                    <Square className="mr-2 h-4 w-4" /> Stop
+                  </Button>
+                )}
               </div>
             </div>
+            {isScanning && scanProgress && (
+              <div className="space-y-1">
+                <Progress value={(scanProgress.completed / Math.max(scanProgress.total, 1)) * 100} className="w-full" />
+                <p className="text-xs text-muted-foreground">
+                  {scanProgress.completed.toLocaleString()} of {scanProgress.total.toLocaleString()} scanned
+                  {` · ${scanProgress.modelCalls.toLocaleString()} model call${scanProgress.modelCalls === 1 ? '' : 's'}`}
+                  {scanProgress.etaMs !== null && scanProgress.completed < scanProgress.total && ` · about ${formatDuration(scanProgress.etaMs)} remaining`}
+                </p>
+                {rateLimitedUntil !== null && (
+                  <p className="flex items-center text-xs text-yellow-500">
+                    <AlertTriangle className="mr-2 h-3 w-3" />
+                    Rate limited by the model provider. Resuming in about {formatDuration(Math.max(rateLimitedUntil - Date.now(), 0))}.
+                  </p>
+                )}
+              </div>
+            )}
 
             <Accordion type="single" collapsible className="w-full" defaultValue="item-1">
               <AccordionItem value="item-1">
@@ -377,18 +1075,38 @@ export default function UrlProcessor() {
                 </AccordionTrigger>
                 <AccordionContent>
                   <Card>
-                    <Table>
-                      <TableHeader>
+                    <Table
+                      containerRef={tableContainerRef}
+                      containerClassName="max-h-[70vh] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                      containerProps={tableContainerProps}
+                    >
+                      <TableHeader className="sticky top-0 z-10 bg-card">
                         <TableRow>
                           <TableHead>URL Details</TableHead>
                           <TableHead className="text-right">Threat</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {filteredResults.map((item) => {
+                        {paddingTop > 0 && (
+                          <tr aria-hidden style={{ height: paddingTop }} />
+                        )}
+                        {virtualRows.map((virtualRow) => {
+                          const item = filteredResults[virtualRow.index];
                           const flag = maliciousFlags.get(item.url);
+                          const pageAnalysis = pageAnalyses.get(item.url);
+                          const origins = describeUrlOrigins(importedOrigins, item.variants);
+                          const positions = item.isDuplicate
+                            ? `DUPLICATE (${item.count} times) - Found in rows: ${item.positions.join(', ')}`
+                            : `UNIQUE - Found in row: ${item.positions[0]}`;
                           return (
-                            <TableRow key={item.id}>
+                            <TableRow
+                              key={item.id}
+                              id={getRowId(virtualRow.index)}
+                              data-index={virtualRow.index}
+                              data-state={virtualRow.index === activeIndex ? 'selected' : undefined}
+                              ref={virtualizer.measureElement}
+                              onClick={() => setActiveIndex(virtualRow.index)}
+                            >
                               <TableCell>
                                 <div className="flex items-center gap-3">
                                   {item.isDuplicate ? (
@@ -405,46 +1123,102 @@ export default function UrlProcessor() {
                                         <p>{item.url}</p>
                                       </TooltipContent>
                                     </Tooltip>
-                                    <p className="text-xs text-muted-foreground">
-                                      {item.isDuplicate
-                                        ? `DUPLICATE (${item.count} times) - Found in rows: ${item.positions.join(', ')}`
-                                        : `UNIQUE - Found in row: ${item.positions[0]}`
-                                      }
-                                    </p>
+                                    {origins.length > 0 ? (
+                                      <Tooltip>
+                                        <TooltipTrigger asChild>
+                                          <p className="text-xs text-muted-foreground">{positions}</p>
+                                        </TooltipTrigger>
+                                        <TooltipContent className="max-w-xl" side="bottom" align="start">
+                                          {origins.map((origin, index) => (
+                                            <p key={index} className="text-xs">{index === 0 ? `Imported ${origin}` : origin}</p>
+                                          ))}
+                                        </TooltipContent>
+                                      </Tooltip>
+                                    ) : (
+                                      <p className="text-xs text-muted-foreground">{positions}</p>
+                                    )}
+                                    {groupMetadata.has(item.id) && (
+                                      <p className="truncate text-xs text-muted-foreground">
+                                        {Object.entries(groupMetadata.get(item.id)!).map(([field, value]) => `${field}: ${value}`).join(' · ')}
+                                      </p>
+                                    )}
+                                    {(item.variants.length > 1 || item.groupKey !== item.url) && (
+                                      <Tooltip>
+                                        <TooltipTrigger asChild>
+                                          <p className="truncate font-mono text-xs text-muted-foreground">
+                                            {activeMatchLevel.label}: {item.groupKey}
+                                            {item.variants.length > 1 && ` (${item.variants.length} variants)`}
+                                          </p>
+                                        </TooltipTrigger>
+                                        <TooltipContent className="max-w-xl" side="bottom" align="start">
+                                          <p className="font-semibold">Collapsed into {item.groupKey}</p>
+                                          {item.variants.map((variant) => (
+                                            <p key={variant} className="font-mono text-xs">{variant}</p>
+                                          ))}
+                                        </TooltipContent>
+                                      </Tooltip>
+                                    )}
                                   </div>
                                 </div>
                               </TableCell>
                               <TableCell className="text-right">
                                 {flag?.isLoading ? (
                                   <Loader2 className="inline-block h-4 w-4 animate-spin text-muted-foreground" />
-                                ) : flag?.isMalicious ? (
+                                ) : flag?.verdict ? (
+                                  <div className="inline-flex items-center gap-1">
+                                    <ThreatBadge verdict={flag.verdict} />
+                                    <Tooltip>
+                                      <TooltipTrigger asChild>
+                                        <Button
+                                          variant="ghost"
+                                          size="icon"
+                                          className="h-6 w-6 text-muted-foreground"
+                                          disabled={isScanning}
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            scanUrls([item.url], true);
+                                          }}
+                                        >
+                                          <RefreshCw className="h-3 w-3" />
+                                          <span className="sr-only">Rescan</span>
+                                        </Button>
+                                      </TooltipTrigger>
+                                      <TooltipContent>Rescan (ignore cache)</TooltipContent>
+                                    </Tooltip>
+                                  </div>
+                                ) : null}
+                                <div className="ml-1 inline-flex items-center gap-1">
+                                  {pageAnalysis?.isLoading ? (
+                                    <Loader2 className="inline-block h-4 w-4 animate-spin text-muted-foreground" />
+                                  ) : pageAnalysis?.result ? (
+                                    <PageAnalysisBadge result={pageAnalysis.result} />
+                                  ) : null}
                                   <Tooltip>
-                                    <TooltipTrigger>
-                                      <AlertCircle className="inline-block h-5 w-5 text-destructive" />
+                                    <TooltipTrigger asChild>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-6 w-6 text-muted-foreground"
+                                        disabled={isAnalyzingPages}
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          analyzePages([item.url]);
+                                        }}
+                                      >
+                                        <FileSearch className="h-3 w-3" />
+                                        <span className="sr-only">Analyze page content</span>
+                                      </Button>
                                     </TooltipTrigger>
-                                    <TooltipContent>
-                                      <p className="max-w-xs font-semibold text-destructive">
-                                        Potentially Malicious
-                                      </p>
-                                      <p className="max-w-xs text-sm text-muted-foreground">
-                                        {flag.reason}
-                                      </p>
-                                    </TooltipContent>
+                                    <TooltipContent>Analyze page content for credential phishing</TooltipContent>
                                   </Tooltip>
-                                ) : flag && !flag.isMalicious ? (
-                                  <Tooltip>
-                                  <TooltipTrigger>
-                                    <CheckCircle2 className="inline-block h-5 w-5 text-green-500" />
-                                  </TooltipTrigger>
-                                  <TooltipContent>
-                                    <p>Scanned: No threats detected</p>
-                                  </TooltipContent>
-                                </Tooltip>
-                                ): null}
+                                </div>
                               </TableCell>
                             </TableRow>
                           );
                         })}
+                        {paddingBottom > 0 && (
+                          <tr aria-hidden style={{ height: paddingBottom }} />
+                        )}
                       </TableBody>
                     </Table>
                     {filteredResults.length === 0 && (
@@ -456,7 +1230,7 @@ export default function UrlProcessor() {
             </Accordion>
           </div>
         )}
-          {results.length === 0 && text.length > 0 && debouncedText.length > 0 && (
+          {results.length === 0 && !processing && (importedCount > 0 || (text.length > 0 && debouncedText.length > 0)) && (
             <Card className="flex items-center justify-center p-12">
                 <p className="text-muted-foreground">No valid URLs found in the input.</p>
             </Card>
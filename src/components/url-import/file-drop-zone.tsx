@@ -0,0 +1,74 @@
+'use client';
+
+import { FileUp } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+
+type FileDropZoneProps = {
+  onDrop: (files: File[]) => void;
+};
+
+const hasFiles = (event: DragEvent) => !!event.dataTransfer?.types.includes('Files');
+
+/**
+ * Lets files be dragged onto a tool page from the desktop, anywhere in the
+ * window, including over an open dialog. While files are held over the page
+ * it shows a "Drop files to import" overlay.
+ */
+export function FileDropZone({ onDrop }: FileDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  // Kept in a ref so the listeners are added once, yet call the latest handler.
+  const onDropRef = useRef(onDrop);
+  onDropRef.current = onDrop;
+
+  useEffect(() => {
+    // dragenter and dragleave fire for every element crossed; count them to
+    // know when the pointer has really left the window.
+    let depth = 0;
+
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      depth++;
+      setIsDragging(true);
+    };
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      // Without this the browser opens the file instead of dropping it here.
+      event.preventDefault();
+      event.dataTransfer!.dropEffect = 'copy';
+    };
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      depth = Math.max(depth - 1, 0);
+      if (depth === 0) setIsDragging(false);
+    };
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      depth = 0;
+      setIsDragging(false);
+      const files = Array.from(event.dataTransfer!.files);
+      if (files.length > 0) onDropRef.current(files);
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
+  if (!isDragging) return null;
+  return (
+    <div className="pointer-events-none fixed inset-0 z-[100] flex items-center justify-center border-4 border-dashed border-primary bg-background/80">
+      <p className="flex items-center text-lg font-medium">
+        <FileUp className="mr-2 h-5 w-5" /> Drop files to import
+      </p>
+    </div>
+  );
+}
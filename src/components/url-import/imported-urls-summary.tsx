@@ -0,0 +1,34 @@
+'use client';
+
+import { FileUp, X } from 'lucide-react';
+import React from 'react';
+
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+type ImportedUrlsSummaryProps = {
+  count: number;
+  onRemove: () => void;
+  disabled?: boolean;
+  className?: string;
+};
+
+/**
+ * Stands in for imported URLs under a tool's input box. Imports are kept out
+ * of the textarea, as a file of millions of URLs would not fit in one string;
+ * they follow whatever was typed or pasted.
+ */
+export function ImportedUrlsSummary({ count, onRemove, disabled, className }: ImportedUrlsSummaryProps) {
+  if (count === 0) return null;
+  return (
+    <div className={cn('flex items-center justify-between rounded-md border border-dashed px-3 py-2 text-sm', className)}>
+      <p className="flex items-center text-muted-foreground">
+        <FileUp className="mr-2 h-4 w-4" />
+        {count.toLocaleString()} imported {count === 1 ? 'URL follows' : 'URLs follow'} the text above
+      </p>
+      <Button variant="ghost" size="sm" onClick={onRemove} disabled={disabled}>
+        <X className="mr-2 h-4 w-4" /> Remove
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { badgeVariants } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { extractJsonUrls, suggestUrlPaths, type StructuredImport } from '@/lib/url-import/structured';
+import { cn } from '@/lib/utils';
+import { ArrowLeft, FileUp } from 'lucide-react';
+import React, { useDeferredValue, useMemo, useState } from 'react';
+
+const PREVIEW_URLS = 8;
+const MAX_SUGGESTIONS = 6;
+
+type JsonImportPreviewProps = {
+  sourceName: string;
+  records: unknown[];
+  errors: string[]; // JSON Lines that could not be parsed
+  lines?: number[]; // The line of each JSON Lines record
+  onImport: (result: StructuredImport) => void;
+  onBack: () => void;
+};
+
+/**
+ * The preview step of a JSON or JSON Lines import: pick the field holding the
+ * URLs with a JSONPath-like selector, from suggestions or typed in.
+ */
+export function JsonImportPreview({ sourceName, records, errors, lines, onImport, onBack }: JsonImportPreviewProps) {
+  const suggestions = useMemo(() => suggestUrlPaths(records).slice(0, MAX_SUGGESTIONS), [records]);
+  const [path, setPath] = useState(() => suggestions[0]?.path ?? '$');
+  const [carryFields, setCarryFields] = useState(false);
+  const deferredPath = useDeferredValue(path);
+
+  const selection = useMemo((): { result: StructuredImport; error?: undefined } | { error: string; result?: undefined } => {
+    try {
+      return { result: extractJsonUrls(records, deferredPath, { carryFields, lines }) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [records, lines, deferredPath, carryFields]);
+  const urlCount = selection.result?.urls.length ?? 0;
+
+  return (
+    <div className="grid gap-4 py-4">
+      <p className="truncate text-sm text-muted-foreground">
+        {sourceName}
+        {records.length > 1 && ` · ${records.length.toLocaleString()} records`}
+      </p>
+
+      <div className="grid gap-1.5">
+        <Label htmlFor="json-path">URL field</Label>
+        <Input id="json-path" className="font-mono" value={path} onChange={(e) => setPath(e.target.value)} placeholder="$.items[*].url" />
+        <p className="text-xs text-muted-foreground">
+          JSONPath-like: <code>$.items[*].url</code>, <code>items.url</code>, <code>$..href</code> for any depth, <code>['a key']</code>.
+          {records.length > 1 && ' The path is applied to each line.'}
+        </p>
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map((suggestion) => (
+              <button
+                key={suggestion.path}
+                type="button"
+                className={cn(badgeVariants({ variant: suggestion.path === path ? 'default' : 'outline' }), 'font-mono font-normal')}
+                onClick={() => setPath(suggestion.path)}
+              >
+                {suggestion.path} ({suggestion.count.toLocaleString()})
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox id="json-carry-fields" checked={carryFields} onCheckedChange={(checked) => setCarryFields(checked === true)} />
+        <Label htmlFor="json-carry-fields" className="font-normal">Carry the other fields of each record into results</Label>
+      </div>
+
+      <div className="max-h-48 overflow-auto rounded-md border p-2">
+        {selection.error ? (
+          <p className="p-2 text-sm text-destructive">{selection.error}</p>
+        ) : urlCount === 0 ? (
+          <p className="p-2 text-sm text-muted-foreground">The path selects no URLs.</p>
+        ) : (
+          <ul className="space-y-1">
+            {selection.result!.urls.slice(0, PREVIEW_URLS).map((url, index) => {
+              const metadata = selection.result!.metadata.get(url);
+              return (
+                <li key={index} className="text-xs">
+                  <p className="truncate font-mono">{url}</p>
+                  {metadata && (
+                    <p className="truncate text-muted-foreground">
+                      {Object.entries(metadata).map(([field, value]) => `${field}: ${value}`).join(' · ')}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {urlCount.toLocaleString()} URLs found
+        {(selection.result?.skipped ?? 0) > 0 && `; ${selection.result!.skipped.toLocaleString()} selected values are not URLs and will be skipped`}.
+        {errors.length > 0 && ` ${errors.length.toLocaleString()} lines are not valid JSON (${errors[0]}${errors.length > 1 ? ', …' : ''}).`}
+      </p>
+
+      <div className="flex justify-between gap-2">
+        <Button variant="ghost" onClick={onBack}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back
+        </Button>
+        <Button onClick={() => selection.result && onImport(selection.result)} disabled={urlCount === 0}>
+          <FileUp className="mr-2 h-4 w-4" /> Import {urlCount.toLocaleString()} URLs
+        </Button>
+      </div>
+    </div>
+  );
+}
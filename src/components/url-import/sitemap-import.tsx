@@ -0,0 +1,97 @@
+'use client';
+
+import { fetchSitemap, fetchSitemapsFromIndex } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { decodeSitemapBytes, parseSitemapXml, type SitemapImportResult } from '@/lib/url-import/sitemap';
+import { FileCode, Loader2, Map as MapIcon } from 'lucide-react';
+import React, { useState, useTransition } from 'react';
+
+type SitemapImportProps = {
+  onResult: (result: SitemapImportResult) => void;
+  onError: (message: string) => void;
+};
+
+/**
+ * The "From Sitemap" tab: a sitemap, robots.txt or site URL fetched on the
+ * server, or an uploaded `.xml`/`.xml.gz` file parsed here. An uploaded
+ * index has the sitemaps it lists fetched on the server.
+ */
+export function SitemapImport({ onResult, onError }: SitemapImportProps) {
+  const [sitemapUrl, setSitemapUrl] = useState('');
+  const [isLoading, startLoading] = useTransition();
+
+  const handleFetch = () => {
+    if (!sitemapUrl.trim()) {
+      onError('Enter a sitemap, robots.txt or site URL.');
+      return;
+    }
+    startLoading(async () => {
+      onResult(await fetchSitemap(sitemapUrl));
+    });
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    startLoading(async () => {
+      try {
+        const parsed = parseSitemapXml(await decodeSitemapBytes(new Uint8Array(await file.arrayBuffer())));
+        if (parsed.type === 'urlset') {
+          onResult({ urls: parsed.urls, sitemaps: [file.name], errors: [], truncated: false });
+        } else {
+          const result = await fetchSitemapsFromIndex(parsed.sitemaps);
+          onResult({ ...result, sitemaps: [file.name, ...result.sitemaps] });
+        }
+      } catch (error: any) {
+        onError(error.message);
+      }
+    });
+    event.target.value = '';
+  };
+
+  return (
+    <div className="grid gap-4 py-4">
+      <div className="grid items-center gap-1.5">
+        <Label htmlFor="sitemap-url">Sitemap, robots.txt or site URL</Label>
+        <div className="flex gap-2">
+          <Input
+            id="sitemap-url"
+            placeholder="https://example.com/sitemap.xml"
+            value={sitemapUrl}
+            onChange={(e) => setSitemapUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleFetch()}
+            disabled={isLoading}
+          />
+          <Button onClick={handleFetch} disabled={isLoading}>
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <MapIcon className="h-4 w-4" />}
+            <span className="sr-only">Import from sitemap</span>
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          For a site or robots.txt URL, the sitemaps listed in robots.txt are read. Sitemap indexes are followed.
+        </p>
+      </div>
+      <div className="grid w-full max-w-sm items-center gap-1.5">
+        <Label htmlFor="sitemap-file">Or upload a sitemap</Label>
+        <Input
+          id="sitemap-file"
+          type="file"
+          accept=".xml,.gz,application/xml,text/xml,application/gzip"
+          onChange={handleFileChange}
+          disabled={isLoading}
+        />
+        <p className="text-xs text-muted-foreground">
+          <FileCode className="mr-1 inline h-3 w-3" />
+          XML or gzipped XML (.xml.gz). &lt;lastmod&gt;, &lt;priority&gt; and &lt;changefreq&gt; are kept for filtering.
+        </p>
+      </div>
+      {isLoading && (
+        <div className="flex items-center text-sm text-muted-foreground">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />Reading sitemaps...
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  detectHeaderRow,
+  detectUrlColumn,
+  extractTableUrls,
+  firstNonEmptyRow,
+  getColumnNames,
+  type ImportSheet,
+  type TableImport,
+} from '@/lib/url-import/table';
+import { cn } from '@/lib/utils';
+import { ArrowLeft, FileUp } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+
+const PREVIEW_ROWS = 8;
+
+type TableImportPreviewProps = {
+  sourceName: string;
+  sheets: ImportSheet[];
+  onImport: (result: TableImport) => void;
+  onBack: () => void;
+};
+
+/**
+ * The preview step of a spreadsheet or CSV import: pick the worksheet, confirm
+ * the header row and the URL column, and tick the columns to carry along.
+ */
+export function TableImportPreview({ sourceName, sheets, onImport, onBack }: TableImportPreviewProps) {
+  const [sheetIndex, setSheetIndex] = useState(() => Math.max(sheets.findIndex((sheet) => sheet.rows.length > 0), 0));
+  const rows = sheets[sheetIndex]?.rows ?? [];
+  const rowNumbers = sheets[sheetIndex]?.rowNumbers;
+  const detectedHeaderRow = useMemo(() => detectHeaderRow(rows), [rows]);
+  const [hasHeader, setHasHeader] = useState(detectedHeaderRow !== null);
+  const [urlColumnChoice, setUrlColumnChoice] = useState('auto');
+  const [extraColumns, setExtraColumns] = useState<number[]>([]);
+
+  const headerRow = hasHeader ? detectedHeaderRow ?? Math.max(firstNonEmptyRow(rows), 0) : null;
+  const detectedUrlColumn = useMemo(() => detectUrlColumn(rows, headerRow), [rows, headerRow]);
+  const urlColumn = urlColumnChoice === 'auto' ? detectedUrlColumn : Number(urlColumnChoice);
+  const columnNames = useMemo(() => getColumnNames(rows, headerRow), [rows, headerRow]);
+  const result = useMemo(
+    () => extractTableUrls(rows, { headerRow, urlColumn, extraColumns: extraColumns.filter((column) => column !== urlColumn) }, rowNumbers),
+    [rows, rowNumbers, headerRow, urlColumn, extraColumns]
+  );
+  const previewRows = rows.slice(headerRow === null ? 0 : headerRow + 1).slice(0, PREVIEW_ROWS);
+
+  const selectSheet = (value: string) => {
+    const index = Number(value);
+    setSheetIndex(index);
+    setHasHeader(detectHeaderRow(sheets[index].rows) !== null);
+    setUrlColumnChoice('auto');
+    setExtraColumns([]);
+  };
+
+  const toggleExtraColumn = (column: number, checked: boolean) => {
+    setExtraColumns((prev) => (checked ? [...prev, column].sort((a, b) => a - b) : prev.filter((c) => c !== column)));
+  };
+
+  return (
+    <div className="grid gap-4 py-4">
+      <p className="truncate text-sm text-muted-foreground">{sourceName}</p>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {sheets.length > 1 && (
+          <div className="grid gap-1.5">
+            <Label>Worksheet</Label>
+            <Select value={String(sheetIndex)} onValueChange={selectSheet}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {sheets.map((sheet, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {sheet.name} ({sheet.rows.length} rows)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="grid gap-1.5">
+          <Label>URL column</Label>
+          <Select value={urlColumnChoice} onValueChange={setUrlColumnChoice}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Auto-detect ({columnNames[detectedUrlColumn] ?? 'none'})</SelectItem>
+              {columnNames.map((name, column) => (
+                <SelectItem key={column} value={String(column)}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox id="has-header" checked={hasHeader} onCheckedChange={(checked) => setHasHeader(checked === true)} />
+        <Label htmlFor="has-header" className="font-normal">
+          First row is a header{detectedHeaderRow !== null && ' (detected)'}
+        </Label>
+      </div>
+
+      {columnNames.length > 1 && (
+        <div className="grid gap-1.5">
+          <Label>Carry columns into results</Label>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {columnNames.map((name, column) => column !== urlColumn && (
+              <div key={column} className="flex items-center gap-2">
+                <Checkbox
+                  id={`extra-column-${column}`}
+                  checked={extraColumns.includes(column)}
+                  onCheckedChange={(checked) => toggleExtraColumn(column, checked === true)}
+                />
+                <Label htmlFor={`extra-column-${column}`} className="font-normal">{name}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="max-h-60 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {columnNames.map((name, column) => (
+                <TableHead key={column} className={cn('whitespace-nowrap', column === urlColumn && 'bg-primary/10 text-primary')}>
+                  {name}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {previewRows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {columnNames.map((_, column) => (
+                  <TableCell
+                    key={column}
+                    className={cn(
+                      'max-w-[200px] truncate py-2 text-xs',
+                      column === urlColumn ? 'bg-primary/5 font-mono' : !extraColumns.includes(column) && 'text-muted-foreground'
+                    )}
+                  >
+                    {row[column]}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {result.urls.length.toLocaleString()} URLs found
+        {result.skipped > 0 && `; ${result.skipped.toLocaleString()} cells in the URL column are not URLs and will be skipped`}.
+      </p>
+
+      <div className="flex justify-between gap-2">
+        <Button variant="ghost" onClick={onBack}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back
+        </Button>
+        <Button onClick={() => onImport(result)} disabled={result.urls.length === 0}>
+          <FileUp className="mr-2 h-4 w-4" /> Import {result.urls.length.toLocaleString()} URLs
+        </Button>
+      </div>
+    </div>
+  );
+}
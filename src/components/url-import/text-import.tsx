@@ -0,0 +1,154 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { EXTRACT_FORMATS, extractUrls, type ExtractFormat } from '@/lib/url-import/extract';
+import type { ImportSource } from '@/lib/url-import/provenance';
+import { FileUp } from 'lucide-react';
+import React, { useDeferredValue, useMemo, useState } from 'react';
+
+const PREVIEW_URLS = 200;
+
+type TextImportProps = {
+  onImport: (urls: string[], source: ImportSource) => void;
+  onError: (message: string) => void;
+};
+
+/**
+ * The "From Text" tab: URLs pulled out of pasted or uploaded prose, HTML or
+ * Markdown, previewed before they are imported.
+ */
+export function TextImport({ onImport, onError }: TextImportProps) {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [format, setFormat] = useState<ExtractFormat>('auto');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [uniqueOnly, setUniqueOnly] = useState(true);
+  const deferredText = useDeferredValue(text);
+
+  const extraction = useMemo(() => extractUrls(deferredText, { format, baseUrl }), [deferredText, format, baseUrl]);
+  const counts = useMemo(() => {
+    const map = new Map<string, number>();
+    for (const { url } of extraction.urls) map.set(url, (map.get(url) ?? 0) + 1);
+    return map;
+  }, [extraction]);
+  const entries = useMemo(() => {
+    if (!uniqueOnly) return extraction.urls;
+    const seen = new Set<string>();
+    return extraction.urls.filter(({ url }) => !seen.has(url) && !!seen.add(url));
+  }, [extraction, uniqueOnly]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setText(await file.text());
+      setFileName(file.name);
+      if (/\.html?$/i.test(file.name)) setFormat('html');
+      else if (/\.(md|markdown)$/i.test(file.name)) setFormat('markdown');
+    } catch {
+      onError('Could not read the file.');
+    }
+  };
+
+  const handleImport = () => {
+    const source: ImportSource = { name: fileName ?? 'pasted text', unit: 'line', rows: entries.map((entry) => entry.line) };
+    onImport(entries.map((entry) => entry.url), source);
+  };
+
+  return (
+    <div className="grid gap-4 py-4">
+      <div className="grid gap-1.5">
+        <Label htmlFor="extract-text">Text, HTML or Markdown</Label>
+        <Textarea
+          id="extract-text"
+          placeholder="Paste an email, a web page's source, a Markdown document or text copied from a PDF..."
+          className="h-32 font-mono text-xs"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            if (!e.target.value) setFileName(null);
+          }}
+        />
+        <Input
+          type="file"
+          accept=".txt,.html,.htm,.md,.markdown,.eml,text/plain,text/html,text/markdown"
+          onChange={handleFileChange}
+          aria-label="Open a text, HTML or Markdown file"
+          className="max-w-sm"
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="grid gap-1.5">
+          <Label>Format</Label>
+          <Select value={format} onValueChange={(value) => setFormat(value as ExtractFormat)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {EXTRACT_FORMATS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>
+                  {value === 'auto' && text ? `${label} (${EXTRACT_FORMATS.find((f) => f.value === extraction.format)?.label})` : label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="extract-base-url">Base URL for relative links</Label>
+          <Input
+            id="extract-base-url"
+            placeholder="https://example.com/page"
+            value={baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {text && (
+        <>
+          <div className="max-h-48 overflow-auto rounded-md border p-2">
+            {entries.length === 0 ? (
+              <p className="p-2 text-sm text-muted-foreground">No URLs found.</p>
+            ) : (
+              <ul className="space-y-1">
+                {entries.slice(0, PREVIEW_URLS).map((entry, index) => (
+                  <li key={index} className="flex items-center gap-2 text-xs">
+                    <Badge variant="outline" className="shrink-0 font-normal">{entry.source}</Badge>
+                    <span className="truncate font-mono" title={entry.url}>{entry.url}</span>
+                    <span className="ml-auto shrink-0 text-muted-foreground">
+                      line {entry.line}{uniqueOnly && counts.get(entry.url)! > 1 && ` · ×${counts.get(entry.url)}`}
+                    </span>
+                  </li>
+                ))}
+                {entries.length > PREVIEW_URLS && (
+                  <li className="text-xs text-muted-foreground">and {(entries.length - PREVIEW_URLS).toLocaleString()} more</li>
+                )}
+              </ul>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox id="extract-unique" checked={uniqueOnly} onCheckedChange={(checked) => setUniqueOnly(checked === true)} />
+            <Label htmlFor="extract-unique" className="font-normal">Only unique URLs</Label>
+          </div>
+          {extraction.skippedRelative > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {extraction.skippedRelative.toLocaleString()} relative links were left out; enter a base URL to include them.
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="flex justify-end">
+        <Button onClick={handleImport} disabled={entries.length === 0}>
+          <FileUp className="mr-2 h-4 w-4" /> Import {entries.length.toLocaleString()} URLs
+        </Button>
+      </div>
+    </div>
+  );
+}
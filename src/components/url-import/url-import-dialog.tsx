@@ -1,6 +1,6 @@
 'use client';
 
-import { fetchGoogleSheet } from '@/app/actions';
+import { fetchGoogleSheet, getGoogleSheetsAccess } from '@/app/actions';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -12,27 +12,192 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { SitemapImport } from '@/components/url-import/sitemap-import';
+import { JsonImportPreview } from '@/components/url-import/json-import-preview';
+import { TableImportPreview } from '@/components/url-import/table-import-preview';
+import { TextImport } from '@/components/url-import/text-import';
 import { useToast } from '@/hooks/use-toast';
-import { FileUp, Link as LinkIcon, Loader2 } from 'lucide-react';
-import React, { useState, useTransition } from 'react';
+import { GOOGLE_SHEET_ERROR_LABELS, type GoogleSheetsAuthMode } from '@/lib/url-import/google-sheets';
+import { STRUCTURED_FILE_TYPES, getFileType, importFile, readStructuredFile } from '@/lib/url-import/file-import';
+import type { ImportedUrlMetadata } from '@/lib/url-import/metadata';
+import type { ImportSource } from '@/lib/url-import/provenance';
+import { toSitemapMetadata, type SitemapImportResult, type SitemapUrl } from '@/lib/url-import/sitemap';
+import type { StructuredImport } from '@/lib/url-import/structured';
+import { readWorksheet, type ImportSheet, type TableImport } from '@/lib/url-import/table';
+import { Check, FileText, FileUp, Link as LinkIcon, Loader2, Map as MapIcon, X } from 'lucide-react';
+import React, { useEffect, useRef, useState, useTransition } from 'react';
 
 type UrlImportDialogProps = {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onImport: (urls: string) => void;
+  // Called once per import, or once per batch while a large file streams in.
+  // `metadata` carries per-URL fields some sources provide, e.g. a sitemap's <lastmod>;
+  // `source` names the file (or sheet, sitemap) and the row each URL came from.
+  onImport: (urls: string[], metadata: ImportedUrlMetadata | undefined, source: ImportSource) => void;
+  // Files dropped onto the page, imported as soon as the dialog opens with them.
+  droppedFiles?: File[] | null;
 };
 
-export function UrlImportDialog({ open, onOpenChange, onImport }: UrlImportDialogProps) {
+// CSV files above this size skip the column mapping preview, which reads the
+// whole file at once, and stream in with the URL column detected.
+const STREAMING_CSV_BYTES = 20 * 1024 * 1024;
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+type ImportPreview =
+  | { kind: 'table'; sourceName: string; sheets: ImportSheet[] }
+  | { kind: 'json'; sourceName: string; records: unknown[]; errors: string[]; lines?: number[] };
+
+// A file imported without a preview: one streamed in, or one of several
+// selected or dropped at once.
+type QueuedFile = {
+  file: File;
+  status: 'queued' | 'importing' | 'done' | 'failed';
+  bytesRead: number;
+  imported: number;
+  message?: string; // The notes of a finished import, or why it failed
+};
+
+const isQueueRunning = (queue: QueuedFile[] | null) => !!queue?.some((item) => item.status === 'queued' || item.status === 'importing');
+
+export function UrlImportDialog({ open, onOpenChange, onImport, droppedFiles }: UrlImportDialogProps) {
   const [sheetUrl, setSheetUrl] = useState('');
+  const [sheetTab, setSheetTab] = useState('');
+  const [sheetRange, setSheetRange] = useState('');
+  const [sheetsAccess, setSheetsAccess] = useState<{ mode: GoogleSheetsAuthMode; serviceAccountEmail?: string } | null>(null);
+  const [tab, setTab] = useState('file');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
   const [isFetching, startFetching] = useTransition();
   const [isParsing, startParsing] = useTransition();
+  const [queue, setQueue] = useState<QueuedFile[] | null>(null);
+  const importAbortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  useEffect(() => () => importAbortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (open && tab === 'g-sheet' && !sheetsAccess) getGoogleSheetsAccess().then(setSheetsAccess).catch(() => {});
+  }, [open, tab, sheetsAccess]);
+
+  // Imports files one after another without a preview. A single file closes
+  // the dialog when it is done; with several, failures stay listed.
+  const runImportQueue = async (files: File[]) => {
+    const controller = new AbortController();
+    importAbortRef.current = controller;
+    const items: QueuedFile[] = files.map((file) => ({ file, status: 'queued', bytesRead: 0, imported: 0 }));
+    const update = (index: number, change: Partial<QueuedFile>) => {
+      items[index] = { ...items[index], ...change };
+      if (!controller.signal.aborted) setQueue([...items]);
+    };
+    setQueue([...items]);
+
+    for (const [index, file] of files.entries()) {
+      update(index, { status: 'importing' });
+      try {
+        const result = await importFile(file, {
+          signal: controller.signal,
+          onImport: (urls, metadata, source) => {
+            onImport(urls, metadata, source);
+            update(index, { imported: items[index].imported + urls.length });
+          },
+          onProgress: (bytesRead) => update(index, { bytesRead }),
+        });
+        if (result.imported === 0) throw new Error('No URLs found in the file.');
+        update(index, { status: 'done', bytesRead: file.size, message: result.notes.join(' ') });
+      } catch (error: any) {
+        if (controller.signal.aborted) return;
+        update(index, { status: 'failed', message: error.message });
+      }
+    }
+    importAbortRef.current = null;
+
+    const imported = items.reduce((total, item) => total + item.imported, 0);
+    const failed = items.filter((item) => item.status === 'failed');
+    if (items.length === 1) {
+      setQueue(null);
+      const [item] = items;
+      if (item.status === 'failed') {
+        toast({ variant: 'destructive', title: 'Import Failed', description: item.message });
+        return;
+      }
+      onOpenChange(false);
+      toast({ title: 'Import Successful', description: [`${imported} URLs have been imported from ${item.file.name}.`, item.message].filter(Boolean).join(' ') });
+    } else if (failed.length === 0) {
+      setQueue(null);
+      onOpenChange(false);
+      toast({ title: 'Import Successful', description: `${imported} URLs have been imported from ${items.length} files.` });
+    } else {
+      toast({
+        variant: 'destructive',
+        title: failed.length === items.length ? 'Import Failed' : 'Import Incomplete',
+        description: `${failed.length} of ${items.length} files could not be imported.${imported > 0 ? ` ${imported} URLs were imported from the others.` : ''}`,
+      });
+    }
+  };
+
+  const handleCancelQueue = () => {
+    const imported = queue?.reduce((total, item) => total + item.imported, 0) ?? 0;
+    importAbortRef.current?.abort();
+    importAbortRef.current = null;
+    setQueue(null);
+    toast({
+      title: 'Import Cancelled',
+      description: imported > 0 ? `${imported} URLs imported before cancelling were kept.` : 'No URLs were imported.',
+    });
+  };
+
+  const handleStructuredImport = (result: StructuredImport, source: Omit<ImportSource, 'rows'>) => {
+    const skipped = result.skipped > 0 ? ` ${result.skipped} entries were not web URLs and were skipped.` : '';
+    if (result.urls.length === 0) {
+      toast({ variant: 'destructive', title: 'Import Failed', description: `No URLs found in ${source.name}.${skipped}` });
+      return;
+    }
+    onImport(result.urls, result.metadata, { ...source, rows: result.rows });
+    onOpenChange(false);
+    setPreview(null);
+    toast({ title: 'Import Successful', description: `${result.urls.length} URLs have been imported from ${source.name}.${skipped}` });
+  };
+
+  const handleStructuredFile = (file: File, fileType: string) => {
+    startParsing(async () => {
+      try {
+        // JSON opens a preview to pick the URL field; the rest import straight away.
+        const read = await readStructuredFile(file, fileType);
+        if (read.kind === 'urls') handleStructuredImport(read.result, { name: file.name, unit: read.unit });
+        else setPreview({ kind: 'json', sourceName: file.name, records: read.records, errors: read.errors, lines: read.lines });
+      } catch (error: any) {
+        toast({ variant: 'destructive', title: 'Import Failed', description: error.message });
+      }
+    });
+  };
+
+  // One file opens the preview its type has; several are imported straight
+  // away, each with its URL column or field detected.
+  const handleFiles = (files: File[]) => {
+    if (isQueueRunning(queue)) {
+      toast({ variant: 'destructive', title: 'Import in Progress', description: 'Wait for the current import to finish, or cancel it.' });
+      return;
+    }
+    setPreview(null);
+    setTab('file');
+    if (files.length > 1) {
+      runImportQueue(files);
+      return;
+    }
+    const [file] = files;
+    const { fileType, isGzip } = getFileType(file.name);
+    if (fileType === 'txt' || isGzip || (fileType === 'csv' && file.size > STREAMING_CSV_BYTES)) {
+      runImportQueue([file]);
+      return;
+    }
+    if (fileType && STRUCTURED_FILE_TYPES.has(fileType)) {
+      handleStructuredFile(file, fileType);
+      return;
+    }
 
+    // Spreadsheets and CSV files go through the column mapping preview.
     startParsing(() => {
       const reader = new FileReader();
       reader.onload = async (e) => {
@@ -41,41 +206,10 @@ export function UrlImportDialog({ open, onOpenChange, onImport }: UrlImportDialo
           const data = e.target?.result;
           if (!data) throw new Error('File is empty.');
 
-          let urls: string[] = [];
-          const fileType = file.name.split('.').pop()?.toLowerCase();
-
-          if (fileType === 'txt') {
-            const text = typeof data === 'string' ? data : new TextDecoder().decode(data as ArrayBuffer);
-            urls = text.split('\n').map(line => line.trim()).filter(Boolean);
-          } else { // Handle csv, xls, xlsx with xlsx library
-            const workbook = XLSX.read(data, { type: 'binary' });
-            const sheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[sheetName];
-            const json: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-            
-            // Find the first column with content and assume it's the URL column
-            let urlColumnIndex = -1;
-            if (json.length > 0 && json[0]) {
-              for (let i = 0; i < json[0].length; i++) {
-                if (json.some(row => row[i] && row[i].toString().trim())) {
-                  urlColumnIndex = i;
-                  break;
-                }
-              }
-            }
-
-            if (urlColumnIndex !== -1) {
-              urls = json.map(row => row[urlColumnIndex]?.toString().trim()).filter(Boolean);
-            }
-          }
-          
-          if (urls.length === 0) {
-            throw new Error('No URLs found in the file.');
-          }
-
-          onImport(urls.join('\n'));
-          onOpenChange(false);
-          toast({ title: 'Import Successful', description: `${urls.length} URLs have been imported.` });
+          const workbook = XLSX.read(data, { type: 'binary' });
+          const sheets = workbook.SheetNames.map((name) => readWorksheet(XLSX, name, workbook.Sheets[name]));
+          if (sheets.every((sheet) => sheet.rows.length === 0)) throw new Error('The file has no rows.');
+          setPreview({ kind: 'table', sourceName: file.name, sheets });
         } catch (error: any) {
           toast({ variant: 'destructive', title: 'Import Failed', description: error.message });
         }
@@ -87,8 +221,18 @@ export function UrlImportDialog({ open, onOpenChange, onImport }: UrlImportDialo
 
       reader.readAsBinaryString(file);
     });
+  };
+
+  useEffect(() => {
+    if (droppedFiles?.length) handleFiles(droppedFiles);
+    // Only a new drop starts an import; the handler changes every render.
+  }, [droppedFiles]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
     // Reset file input
-    if(event.target) event.target.value = '';
+    event.target.value = '';
+    if (files.length > 0) handleFiles(files);
   };
 
   const handleImportFromSheet = () => {
@@ -97,82 +241,231 @@ export function UrlImportDialog({ open, onOpenChange, onImport }: UrlImportDialo
       return;
     }
     startFetching(async () => {
-      try {
-        const XLSX = await import('xlsx');
-        const csvText = await fetchGoogleSheet(sheetUrl);
-        const workbook = XLSX.read(csvText, { type: 'string', raw: true });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const json: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        const urls = json.map(row => row[0]?.toString().trim()).filter(url => url && url.startsWith('http'));
-        
-        if (urls.length === 0) {
-          throw new Error('No valid URLs found in the Google Sheet.');
-        }
-        
-        onImport(urls.join('\n'));
-        onOpenChange(false);
-        setSheetUrl('');
-        toast({ title: 'Import Successful', description: `${urls.length} URLs have been imported from Google Sheet.` });
-      } catch (error: any) {
-        toast({ variant: 'destructive', title: 'Import Failed', description: error.message });
+      const result = await fetchGoogleSheet(sheetUrl, { tab: sheetTab, range: sheetRange });
+      if (!result.ok) {
+        toast({ variant: 'destructive', title: GOOGLE_SHEET_ERROR_LABELS[result.error.kind], description: result.error.message });
+        return;
       }
+      if (result.sheet.rows.length === 0) {
+        toast({ variant: 'destructive', title: 'Import Failed', description: `${sheetRange ? 'The range' : 'The tab'} is empty.` });
+        return;
+      }
+      const sourceName = ['Google Sheet', result.sheet.name, sheetRange.includes('!') ? sheetRange.split('!').pop() : sheetRange]
+        .filter(Boolean)
+        .join(' · ');
+      setPreview({ kind: 'table', sourceName, sheets: [result.sheet] });
+    });
+  };
+
+  const handleTableImport = (result: TableImport) => {
+    onImport(result.urls, result.metadata, { name: preview?.sourceName ?? 'the file', unit: 'row', rows: result.rows });
+    onOpenChange(false);
+    toast({
+      title: 'Import Successful',
+      description: `${result.urls.length} URLs have been imported from ${preview?.sourceName ?? 'the file'}.${result.skipped > 0 ? ` ${result.skipped} cells were not URLs and were skipped.` : ''}`,
+    });
+    setPreview(null);
+    setSheetUrl('');
+    setSheetTab('');
+    setSheetRange('');
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setPreview(null);
+      if (isQueueRunning(queue)) handleCancelQueue();
+      else setQueue(null);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const handleTextImport = (urls: string[], source: ImportSource) => {
+    onImport(urls, undefined, source);
+    onOpenChange(false);
+    toast({ title: 'Import Successful', description: `${urls.length} URLs have been imported from the text.` });
+  };
+
+  const handleSitemapResult = (result: SitemapImportResult) => {
+    const problems = [
+      ...(result.note ? [result.note] : []),
+      ...result.errors.slice(0, 3).map((error) => `${error.url}: ${error.message}`),
+      ...(result.errors.length > 3 ? [`${result.errors.length - 3} more sitemap(s) could not be read.`] : []),
+      ...(result.truncated ? ['The import limit was reached; some sitemaps were skipped.'] : []),
+    ];
+    if (result.urls.length === 0) {
+      toast({ variant: 'destructive', title: 'Import Failed', description: ['No URLs found in the sitemap.', ...problems].join(' ') });
+      return;
+    }
+
+    // Each URL is credited to the sitemap that listed it, not the index above it.
+    const bySitemap = new Map<string, SitemapUrl[]>();
+    for (const entry of result.urls) {
+      const name = entry.sitemap ?? result.sitemaps[0] ?? 'sitemap';
+      const entries = bySitemap.get(name);
+      if (entries) entries.push(entry);
+      else bySitemap.set(name, [entry]);
+    }
+    bySitemap.forEach((entries, name) => onImport(entries.map((entry) => entry.url), toSitemapMetadata(entries), { name }));
+    onOpenChange(false);
+    toast({
+      title: 'Import Successful',
+      description: [`${result.urls.length} URLs have been imported from ${result.sitemaps.length} sitemap(s).`, ...problems].join(' '),
     });
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[680px]">
         <DialogHeader>
           <DialogTitle>Import URLs</DialogTitle>
           <DialogDescription>
-            Import URLs from a file or a public Google Sheet. The first column will be used to extract URLs.
+            Import URLs from a file, a Google Sheet, a sitemap or pasted text. Spreadsheets, CSV and JSON files open a preview to choose the URL column or field.
           </DialogDescription>
         </DialogHeader>
-        <Tabs defaultValue="file">
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="file"><FileUp className="mr-2 h-4 w-4" />From File</TabsTrigger>
-            <TabsTrigger value="g-sheet"><LinkIcon className="mr-2 h-4 w-4" />From Google Sheet</TabsTrigger>
-          </TabsList>
-          <TabsContent value="file">
-            <div className="grid gap-4 py-4">
-              <div className="grid w-full max-w-sm items-center gap-1.5">
-                <Label htmlFor="url-file">File</Label>
-                <Input
-                  id="url-file"
-                  type="file"
-                  accept=".csv,.txt,.xlsx,.xls,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel"
-                  onChange={handleFileChange}
-                  disabled={isParsing}
-                />
-                <p className="text-xs text-muted-foreground">
-                  Supported formats: CSV, TXT, XLSX, XLS.
-                </p>
-              </div>
-               {isParsing && <div className="flex items-center text-sm text-muted-foreground"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Parsing file...</div>}
+        {queue ? (
+          <div className="grid gap-4 py-4">
+            <ul className="max-h-80 space-y-4 overflow-auto">
+              {queue.map((item, index) => (
+                <li key={index} className="grid gap-2">
+                  <p className="truncate text-sm text-muted-foreground">{item.file.name}</p>
+                  {item.status === 'importing' && (
+                    <>
+                      <Progress value={(item.bytesRead / Math.max(item.file.size, 1)) * 100} className="w-full" />
+                      <p className="flex items-center text-sm text-muted-foreground">
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        {item.imported.toLocaleString()} URLs imported · {formatMegabytes(item.bytesRead)} of {formatMegabytes(item.file.size)} read
+                      </p>
+                    </>
+                  )}
+                  {item.status === 'queued' && <p className="text-xs text-muted-foreground">Waiting…</p>}
+                  {item.status === 'done' && (
+                    <p className="flex items-center text-xs text-muted-foreground">
+                      <Check className="mr-1 h-3 w-3 shrink-0" />
+                      {item.imported.toLocaleString()} URLs imported. {item.message}
+                    </p>
+                  )}
+                  {item.status === 'failed' && <p className="text-xs text-destructive">{item.message}</p>}
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end">
+              {isQueueRunning(queue) ? (
+                <Button variant="outline" onClick={handleCancelQueue}>
+                  <X className="mr-2 h-4 w-4" /> Cancel
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={() => handleOpenChange(false)}>Close</Button>
+              )}
             </div>
-          </TabsContent>
-          <TabsContent value="g-sheet">
-            <div className="grid gap-4 py-4">
-              <div className="grid items-center gap-1.5">
-                <Label htmlFor="sheet-url">Public Google Sheet URL</Label>
-                <Input
-                  id="sheet-url"
-                  placeholder="https://docs.google.com/spreadsheets/d/..."
-                  value={sheetUrl}
-                  onChange={(e) => setSheetUrl(e.target.value)}
-                  disabled={isFetching}
-                />
+          </div>
+        ) : preview?.kind === 'table' ? (
+          <TableImportPreview
+            sourceName={preview.sourceName}
+            sheets={preview.sheets}
+            onImport={handleTableImport}
+            onBack={() => setPreview(null)}
+          />
+        ) : preview?.kind === 'json' ? (
+          <JsonImportPreview
+            sourceName={preview.sourceName}
+            records={preview.records}
+            errors={preview.errors}
+            lines={preview.lines}
+            onImport={(result) => handleStructuredImport(result, { name: preview.sourceName, unit: 'line' })}
+            onBack={() => setPreview(null)}
+          />
+        ) : (
+          <Tabs value={tab} onValueChange={setTab}>
+            <TabsList className="grid w-full grid-cols-4">
+              <TabsTrigger value="file"><FileUp className="mr-2 h-4 w-4" />From File</TabsTrigger>
+              <TabsTrigger value="g-sheet"><LinkIcon className="mr-2 h-4 w-4" />From Google Sheet</TabsTrigger>
+              <TabsTrigger value="sitemap"><MapIcon className="mr-2 h-4 w-4" />From Sitemap</TabsTrigger>
+              <TabsTrigger value="text"><FileText className="mr-2 h-4 w-4" />From Text</TabsTrigger>
+            </TabsList>
+            <TabsContent value="file">
+              <div className="grid gap-4 py-4">
+                <div className="grid w-full max-w-sm items-center gap-1.5">
+                  <Label htmlFor="url-file">File</Label>
+                  <Input
+                    id="url-file"
+                    type="file"
+                    accept=".csv,.txt,.gz,.xlsx,.xls,.json,.jsonl,.ndjson,.har,.html,.htm,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel"
+                    multiple
+                    onChange={handleFileChange}
+                    disabled={isParsing}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Supported formats: CSV, TXT, XLSX, XLS, JSON, JSON Lines, HAR and browser bookmark exports (HTML). Large text and CSV files, and gzipped ones (.txt.gz, .csv.gz), are streamed in. Several files selected or dropped onto the page at once are imported without a preview, each with its URL column detected.
+                  </p>
+                </div>
+                 {isParsing && <div className="flex items-center text-sm text-muted-foreground"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Parsing file...</div>}
               </div>
-            </div>
-            <DialogFooter>
-              <Button onClick={handleImportFromSheet} disabled={isFetching}>
-                {isFetching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LinkIcon className="mr-2 h-4 w-4" />}
-                Import from URL
-              </Button>
-            </DialogFooter>
-          </TabsContent>
-        </Tabs>
+            </TabsContent>
+            <TabsContent value="g-sheet">
+              <div className="grid gap-4 py-4">
+                <div className="grid items-center gap-1.5">
+                  <Label htmlFor="sheet-url">Google Sheet URL</Label>
+                  <Input
+                    id="sheet-url"
+                    placeholder="https://docs.google.com/spreadsheets/d/..."
+                    value={sheetUrl}
+                    onChange={(e) => setSheetUrl(e.target.value)}
+                    disabled={isFetching}
+                  />
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="grid items-center gap-1.5">
+                    <Label htmlFor="sheet-tab">Tab (optional)</Label>
+                    <Input
+                      id="sheet-tab"
+                      placeholder="The URL's tab, or the first"
+                      value={sheetTab}
+                      onChange={(e) => setSheetTab(e.target.value)}
+                      disabled={isFetching}
+                    />
+                  </div>
+                  <div className="grid items-center gap-1.5">
+                    <Label htmlFor="sheet-range">Range (optional)</Label>
+                    <Input
+                      id="sheet-range"
+                      placeholder="A1:C500"
+                      value={sheetRange}
+                      onChange={(e) => setSheetRange(e.target.value)}
+                      disabled={isFetching}
+                    />
+                  </div>
+                </div>
+                {sheetsAccess && (
+                  <p className="text-xs text-muted-foreground">
+                    {sheetsAccess.mode === 'public'
+                      ? 'The sheet must be shared as "Anyone with the link can view". An administrator can configure a service account to read private sheets.'
+                      : sheetsAccess.serviceAccountEmail
+                        ? `Private sheets can be read once they are shared with ${sheetsAccess.serviceAccountEmail}.`
+                        : 'Private sheets are read with the server\'s Google credentials.'}
+                  </p>
+                )}
+              </div>
+              <DialogFooter>
+                <Button onClick={handleImportFromSheet} disabled={isFetching}>
+                  {isFetching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LinkIcon className="mr-2 h-4 w-4" />}
+                  Import from URL
+                </Button>
+              </DialogFooter>
+            </TabsContent>
+            <TabsContent value="sitemap">
+              <SitemapImport
+                onResult={handleSitemapResult}
+                onError={(message) => toast({ variant: 'destructive', title: 'Import Failed', description: message })}
+              />
+            </TabsContent>
+            <TabsContent value="text">
+              <TextImport
+                onImport={handleTextImport}
+                onError={(message) => toast({ variant: 'destructive', title: 'Import Failed', description: message })}
+              />
+            </TabsContent>
+          </Tabs>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,73 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { StatusCheckOptions } from '@/lib/status-checker/options';
+
+type NumericOption = {
+  [K in keyof StatusCheckOptions]: StatusCheckOptions[K] extends number ? K : never;
+}[keyof StatusCheckOptions];
+
+type StatusCheckSettingsProps = {
+  value: StatusCheckOptions;
+  onChange: (value: StatusCheckOptions) => void;
+  disabled?: boolean;
+};
+
+const numericFields: { key: NumericOption; label: string; description: string; min: number; max: number; step?: number }[] = [
+  { key: 'concurrency', label: 'Max concurrent requests', description: 'Across all hosts.', min: 1, max: 50 },
+  { key: 'perHostConcurrency', label: 'Max requests per host', description: 'In flight to one host at a time.', min: 1, max: 20 },
+  { key: 'perHostDelayMs', label: 'Min delay per host (ms)', description: 'Between request starts on one host.', min: 0, max: 60000, step: 50 },
+  { key: 'maxRetryAfterMs', label: 'Max Retry-After wait (ms)', description: 'Longest pause honoured for one 429/503.', min: 0, max: 600000, step: 1000 },
+  { key: 'retryAttempts', label: 'Retries', description: 'After a timeout, reset or refused connection.', min: 0, max: 5 },
+  { key: 'retryBaseDelayMs', label: 'Initial backoff (ms)', description: 'Doubled for every further retry.', min: 0, max: 60000, step: 100 },
+  { key: 'retryMaxDelayMs', label: 'Max backoff (ms)', description: 'Upper bound on a single backoff.', min: 0, max: 300000, step: 1000 },
+  { key: 'retryJitter', label: 'Jitter (0-1)', description: 'Share of each backoff that is randomised.', min: 0, max: 1, step: 0.1 },
+];
+
+export function StatusCheckSettings({ value, onChange, disabled }: StatusCheckSettingsProps) {
+  return (
+    <div className="grid gap-4 rounded-md border p-4 sm:grid-cols-2 lg:grid-cols-4">
+      {numericFields.map(field => (
+        <div key={field.key} className="grid gap-1.5">
+          <Label htmlFor={`status-check-${field.key}`}>{field.label}</Label>
+          <Input
+            id={`status-check-${field.key}`}
+            type="number"
+            min={field.min}
+            max={field.max}
+            step={field.step ?? 1}
+            value={value[field.key]}
+            disabled={disabled}
+            onChange={e => {
+              const number = Number(e.target.value);
+              if (Number.isFinite(number)) onChange({ ...value, [field.key]: number });
+            }}
+          />
+          <p className="text-xs text-muted-foreground">{field.description}</p>
+        </div>
+      ))}
+      <div className="flex items-center gap-2 sm:col-span-2 lg:col-span-4">
+        <Switch
+          id="status-check-honorRetryAfter"
+          checked={value.honorRetryAfter}
+          disabled={disabled}
+          onCheckedChange={checked => onChange({ ...value, honorRetryAfter: checked })}
+        />
+        <Label htmlFor="status-check-honorRetryAfter">Pause and retry hosts that answer 429/503 (honour Retry-After)</Label>
+      </div>
+      <div className="flex items-center gap-2 sm:col-span-2 lg:col-span-4">
+        <Switch
+          id="status-check-detectSoft404"
+          checked={value.detectSoft404}
+          disabled={disabled}
+          onCheckedChange={checked => onChange({ ...value, detectSoft404: checked })}
+        />
+        <Label htmlFor="status-check-detectSoft404">
+          Detect soft 404s (GET each page and compare it with a random nonexistent path on the same host)
+        </Label>
+      </div>
+    </div>
+  );
+}
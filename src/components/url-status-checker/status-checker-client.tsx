@@ -5,8 +5,10 @@ import {
   ArrowUp,
   CheckCircle,
   ChevronDown,
+  ChevronRight,
   Copy,
   Download,
+  FileQuestion,
   FileText,
   FileUp,
   Globe,
@@ -15,43 +17,97 @@ import {
   Loader2,
   Network,
   Search,
+  Settings2,
+  Square,
   Timer,
   Trash2,
   XCircle,
 } from 'lucide-react';
-import React, { useCallback, useMemo, useState, useTransition } from 'react';
-import { checkUrlStatuses, type UrlStatusResult } from '@/app/status-checker/actions';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Textarea } from '@/components/ui/textarea';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { FileDropZone } from '@/components/url-import/file-drop-zone';
+import { ImportedUrlsSummary } from '@/components/url-import/imported-urls-summary';
 import { UrlImportDialog } from '@/components/url-import/url-import-dialog';
+import { StatusCheckSettings } from '@/components/url-status-checker/status-check-settings';
+import { useFrameBatch } from '@/hooks/use-frame-batch';
+import { useImportedOrigins } from '@/hooks/use-imported-origins';
 import { useToast } from '@/hooks/use-toast';
-import { cn } from '@/lib/utils';
+import { useVirtualTable } from '@/hooks/use-virtual-table';
+import { NETWORK_ERROR_LABELS } from '@/lib/status-checker/errors';
+import { formatRedirectChain, formatSoft404 } from '@/lib/status-checker/format';
+import { DEFAULT_STATUS_CHECK_OPTIONS, type StatusCheckOptions } from '@/lib/status-checker/options';
+import { streamUrlStatuses } from '@/lib/status-checker/stream-client';
+import type { StatusCheckProgress, UrlStatusResult } from '@/lib/status-checker/types';
+import { getMetadataFields, mergeImportedMetadata, type ImportedUrlMetadata } from '@/lib/url-import/metadata';
+import { describeUrlOrigins, formatUrlOrigin, type ImportSource } from '@/lib/url-import/provenance';
+import { cn, formatDuration } from '@/lib/utils';
+
+type SortKey = Exclude<keyof UrlStatusResult, 'redirectChain'> | 'statusGroup';
 
 type SortConfig = {
-    key: keyof UrlStatusResult | 'statusGroup';
+    key: SortKey;
     direction: 'asc' | 'desc';
 };
 
-type StatusFilter = 'all' | 'live' | 'redirect' | 'deleted' | 'error';
+type StatusFilter = 'all' | 'live' | 'soft-404' | 'redirect' | 'deleted' | 'error';
 
+const getStatusGroup = (result: UrlStatusResult): StatusFilter => {
+    if (result.error) return 'error';
+    if (result.soft404) return 'soft-404';
+    if (result.status >= 200 && result.status < 300) return 'live';
+    if (result.status >= 300 && result.status < 400) return 'redirect';
+    if (result.status >= 400 && result.status < 500) return 'deleted';
+    return 'error';
+};
+
+// Breaks the error group down: network failures by kind, HTTP failures by class.
+const getErrorCategory = (result: UrlStatusResult): string => {
+    if (result.errorKind) return NETWORK_ERROR_LABELS[result.errorKind];
+    if (result.status >= 500) return 'Server Error (5xx)';
+    return 'Other';
+};
+
+// The status an import recorded for a URL (a HAR capture's, or a `status`
+// column), when the fresh check answered differently.
+const getImportedStatusChange = (result: UrlStatusResult, metadata: ImportedUrlMetadata): string | null => {
+    const recorded = metadata.get(result.url)?.status;
+    if (!recorded || !/^\d+(, \d+)*$/.test(recorded)) return null;
+    return recorded.split(', ').includes(String(result.status)) ? null : recorded;
+};
 
 export default function StatusCheckerClient() {
     const [urlsInput, setUrlsInput] = useState('');
+    // Imported URLs are checked after the typed ones but kept out of the
+    // textarea; the count re-renders as batches are added.
+    const importedUrlsRef = useRef<string[]>([]);
+    const [importedCount, setImportedCount] = useState(0);
+    const [importedMetadata, setImportedMetadata] = useState<ImportedUrlMetadata>(new Map());
+    const { origins: importedOrigins, add: addImportedOrigins, clear: clearImportedOrigins } = useImportedOrigins();
     const [results, setResults] = useState<UrlStatusResult[]>([]);
-    const [isChecking, startChecking] = useTransition();
-    const [progress, setProgress] = useState(0);
+    const [isChecking, setIsChecking] = useState(false);
+    const [progress, setProgress] = useState<StatusCheckProgress | null>(null);
     const [searchTerm, setSearchTerm] = useState('');
     const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'url', direction: 'asc' });
     const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
     const [isImporting, setIsImporting] = useState(false);
+    const [droppedFiles, setDroppedFiles] = useState<File[] | null>(null);
+    const [expandedUrls, setExpandedUrls] = useState<Set<string>>(new Set());
+    const [checkOptions, setCheckOptions] = useState<StatusCheckOptions>(DEFAULT_STATUS_CHECK_OPTIONS);
     const { toast } = useToast();
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const resultBatch = useFrameBatch<UrlStatusResult>(batch => setResults(prev => prev.concat(batch)));
+
+    // Abort a running check if the page is left mid-run.
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
 
     const isValidUrl = (str: string) => {
         try {
@@ -63,7 +119,7 @@ export default function StatusCheckerClient() {
     };
 
     const handleCheckStatuses = useCallback(async () => {
-        const urls = urlsInput.split('\n').map(u => u.trim()).filter(Boolean);
+        const urls = urlsInput.split('\n').map(u => u.trim()).filter(Boolean).concat(importedUrlsRef.current);
         const validUrls = urls.filter(isValidUrl);
 
         if (validUrls.length === 0) {
@@ -79,33 +135,67 @@ export default function StatusCheckerClient() {
             });
         }
         
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setResults([]);
-        setProgress(0);
-        startChecking(async () => {
-            const batchSize = 10;
-            let allResults: UrlStatusResult[] = [];
-            for (let i = 0; i < validUrls.length; i += batchSize) {
-                const batch = validUrls.slice(i, i + batchSize);
-                const batchResults = await checkUrlStatuses(batch);
-                allResults = [...allResults, ...batchResults];
-                setResults(allResults);
-                setProgress(((i + batch.length) / validUrls.length) * 100);
+        setExpandedUrls(new Set());
+        setProgress({ completed: 0, total: validUrls.length, elapsedMs: 0, etaMs: null });
+        setIsChecking(true);
+
+        let received = 0;
+        try {
+            await streamUrlStatuses(validUrls, {
+                signal: controller.signal,
+                options: checkOptions,
+                onEvent: (event) => {
+                    if (event.type === 'result') {
+                        received++;
+                        resultBatch.push(event.result);
+                    } else if (event.type === 'progress') {
+                        setProgress(event);
+                    } else if (event.type === 'error') {
+                        toast({ variant: 'destructive', title: 'Status Check Failed', description: event.message });
+                    }
+                },
+            });
+        } catch (error: any) {
+            if (!controller.signal.aborted) {
+                toast({ variant: 'destructive', title: 'Status Check Failed', description: error.message });
             }
-        });
-    }, [urlsInput, toast]);
+        } finally {
+            resultBatch.flush();
+            setIsChecking(false);
+            setProgress(null);
+            abortControllerRef.current = null;
+        }
+
+        if (controller.signal.aborted) {
+            toast({ title: 'Status Check Cancelled', description: `${received} of ${validUrls.length} URLs were checked before cancelling.` });
+        }
+    }, [urlsInput, checkOptions, resultBatch, toast]);
+
+    const handleCancel = useCallback(() => {
+        abortControllerRef.current?.abort();
+    }, []);
 
     const stats = useMemo(() => {
         const total = results.length;
-        if (total === 0) return { total: 0, live: 0, deleted: 0, redirect: 0, error: 0, avgResponseTime: 0, successRate: 0 };
+        const errorBreakdown: Record<string, number> = {};
+        if (total === 0) return { total: 0, live: 0, soft404: 0, deleted: 0, redirect: 0, error: 0, errorBreakdown, avgResponseTime: 0, successRate: 0 };
         
-        let live = 0, deleted = 0, redirect = 0, error = 0, totalResponseTime = 0, successfulChecks = 0;
+        let live = 0, soft404 = 0, deleted = 0, redirect = 0, error = 0, totalResponseTime = 0, successfulChecks = 0;
 
         results.forEach(r => {
+            if (getStatusGroup(r) === 'error') {
+                const category = getErrorCategory(r);
+                errorBreakdown[category] = (errorBreakdown[category] ?? 0) + 1;
+            }
             if (r.error) error++;
             else {
                 successfulChecks++;
                 totalResponseTime += r.responseTime;
-                if (r.status >= 200 && r.status < 300) live++;
+                if (r.soft404) soft404++;
+                else if (r.status >= 200 && r.status < 300) live++;
                 else if (r.status >= 300 && r.status < 400) redirect++;
                 else if (r.status >= 400 && r.status < 500) deleted++;
                 else error++;
@@ -113,37 +203,68 @@ export default function StatusCheckerClient() {
         });
         
         return {
-            total, live, deleted, redirect, error,
+            total, live, soft404, deleted, redirect, error, errorBreakdown,
             avgResponseTime: successfulChecks > 0 ? Math.round(totalResponseTime / successfulChecks) : 0,
             successRate: total > 0 ? Math.round((live / total) * 100) : 0,
         };
     }, [results]);
 
-    const getStatusGroup = (result: UrlStatusResult): StatusFilter => {
-        if (result.error) return 'error';
-        if (result.status >= 200 && result.status < 300) return 'live';
-        if (result.status >= 300 && result.status < 400) return 'redirect';
-        if (result.status >= 400 && result.status < 500) return 'deleted';
-        return 'error';
-    };
-
     const filteredAndSortedResults = useMemo(() => {
-        return results
-            .filter(r => {
-                const searchLower = searchTerm.toLowerCase();
-                if (statusFilter !== 'all' && getStatusGroup(r) !== statusFilter) return false;
-                return r.url.toLowerCase().includes(searchLower) || r.finalUrl.toLowerCase().includes(searchLower);
+        const searchLower = searchTerm.toLowerCase();
+        const { key, direction } = sortConfig;
+        const order = direction === 'asc' ? 1 : -1;
+
+        // Sort keys are computed once per row rather than once per comparison, and
+        // ties fall back to the original order so re-sorting large lists is stable.
+        const rows = results
+            .map((result, index) => {
+                const group = getStatusGroup(result);
+                const sortValue = key === 'statusGroup' ? group : result[key] ?? '';
+                return { result, index, group, sortValue };
             })
-            .sort((a, b) => {
-                const aVal = sortConfig.key === 'statusGroup' ? getStatusGroup(a) : a[sortConfig.key];
-                const bVal = sortConfig.key === 'statusGroup' ? getStatusGroup(b) : b[sortConfig.key];
-                if (aVal < bVal) return sortConfig.direction === 'asc' ? -1 : 1;
-                if (aVal > bVal) return sortConfig.direction === 'asc' ? 1 : -1;
-                return 0;
+            .filter(({ result, group }) => {
+                if (statusFilter !== 'all' && group !== statusFilter) return false;
+                if (!searchLower) return true;
+                return result.url.toLowerCase().includes(searchLower) || result.finalUrl.toLowerCase().includes(searchLower);
             });
+
+        rows.sort((a, b) => {
+            if (a.sortValue < b.sortValue) return -order;
+            if (a.sortValue > b.sortValue) return order;
+            return a.index - b.index;
+        });
+        return rows.map(row => row.result);
     }, [results, searchTerm, statusFilter, sortConfig]);
 
-    const requestSort = (key: keyof UrlStatusResult | 'statusGroup') => {
+    const toggleExpanded = useCallback((url: string) => {
+        setExpandedUrls(prev => {
+            const next = new Set(prev);
+            if (next.has(url)) next.delete(url);
+            else next.add(url);
+            return next;
+        });
+    }, []);
+
+    const {
+        containerRef: tableContainerRef,
+        containerProps: tableContainerProps,
+        virtualizer,
+        virtualRows,
+        paddingTop,
+        paddingBottom,
+        activeIndex,
+        setActiveIndex,
+        getRowId,
+    } = useVirtualTable({
+        count: filteredAndSortedResults.length,
+        estimateRowHeight: 53,
+        onActivate: (index) => {
+            const result = filteredAndSortedResults[index];
+            if (result.redirectChain.length > 0) toggleExpanded(result.url);
+        },
+    });
+
+    const requestSort = (key: SortKey) => {
         let direction: 'asc' | 'desc' = 'asc';
         if (sortConfig.key === key && sortConfig.direction === 'asc') {
             direction = 'desc';
@@ -155,6 +276,7 @@ export default function StatusCheckerClient() {
         const group = getStatusGroup(result);
         const variants: Record<StatusFilter, { variant: "default" | "destructive" | "outline" | "secondary", className: string, text: string }> = {
             live: { variant: 'default', className: 'bg-green-600/20 text-green-400 border-green-500/30', text: 'Live' },
+            'soft-404': { variant: 'default', className: 'bg-purple-600/20 text-purple-400 border-purple-500/30', text: 'Soft 404' },
             redirect: { variant: 'default', className: 'bg-yellow-600/20 text-yellow-400 border-yellow-500/30', text: 'Redirect' },
             deleted: { variant: 'destructive', className: 'bg-red-600/20 text-red-400 border-red-500/30', text: 'Deleted/Client Error' },
             error: { variant: 'destructive', className: 'bg-orange-600/20 text-orange-400 border-orange-500/30', text: 'Error/Server Issue' },
@@ -178,36 +300,77 @@ export default function StatusCheckerClient() {
             return;
         }
         if (format === 'csv') {
-            const headers = 'Original URL,Final URL,Status,Status Text,Response Time (ms),Error\n';
-            const csvBody = data.map(r => `"${r.url}","${r.finalUrl}",${r.status},"${r.statusText}",${r.responseTime},"${r.error || ''}"`).join('\n');
+            // Imported fields (e.g. a HAR capture's method and status) follow the check's columns.
+            const metadataFields = getMetadataFields(data.map(r => importedMetadata.get(r.url) ?? {}));
+            const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+            const headers = `Original URL,Final URL,Status,Status Text,Response Time (ms),Error Type,Error,Attempts,Soft 404,Redirect Hops,Redirect Chain,Imported From${metadataFields.map(field => `,${quote(`Imported ${field}`)}`).join('')}\n`;
+            const csvBody = data.map(r => {
+                const metadata = importedMetadata.get(r.url);
+                const metadataColumns = metadataFields.map(field => `,${quote(metadata?.[field] ?? '')}`).join('');
+                const origins = (importedOrigins.get(r.url) ?? []).map(formatUrlOrigin).join('; ');
+                return `${quote(r.url)},${quote(r.finalUrl)},${r.status},${quote(r.statusText)},${r.responseTime},${quote(getStatusGroup(r) === 'error' ? getErrorCategory(r) : '')},${quote(r.error || '')},${r.attempts ?? ''},${quote(formatSoft404(r.soft404))},${r.redirectChain.length},${quote(formatRedirectChain(r.redirectChain))},${quote(origins)}${metadataColumns}`;
+            }).join('\n');
             downloadFile(headers + csvBody, 'url-status-results.csv', 'text/csv');
         } else {
             downloadFile(data.map(r => r.url).join('\n'), 'urls.txt', 'text/plain');
         }
     };
 
-    const handleImport = (urls: string) => {
-        setUrlsInput(prev => prev ? `${prev}\n${urls}` : urls);
+    const handleImport = (urls: string[], metadata: ImportedUrlMetadata | undefined, source: ImportSource) => {
+        // Pushed one by one: a batch can be too long to spread into arguments.
+        for (const url of urls) importedUrlsRef.current.push(url);
+        setImportedCount(importedUrlsRef.current.length);
+        if (metadata && metadata.size > 0) setImportedMetadata(prev => mergeImportedMetadata(prev, metadata));
+        addImportedOrigins(urls, source);
+    };
+
+    // Files dropped while a check runs are ignored, as the Import button is disabled then.
+    const handleDropFiles = (files: File[]) => {
+        if (isChecking) return;
+        setDroppedFiles(files);
+        setIsImporting(true);
+    };
+
+    const handleImportOpenChange = (open: boolean) => {
+        setIsImporting(open);
+        if (!open) setDroppedFiles(null);
+    };
+
+    const handleRemoveImported = () => {
+        importedUrlsRef.current = [];
+        setImportedCount(0);
+        setImportedMetadata(new Map());
+        clearImportedOrigins();
+    };
+
+    const handleClearInput = () => {
+        setUrlsInput('');
+        handleRemoveImported();
     };
     
-    const statCards = [
+    const statCards: { title: string, value: number | string, icon: React.ElementType, color?: string, details?: string[] }[] = [
         { title: "Total URLs Checked", value: stats.total, icon: Globe },
         { title: "Live URLs", value: stats.live, icon: CheckCircle, color: "text-green-400" },
+        { title: "Soft 404s", value: stats.soft404, icon: FileQuestion, color: "text-purple-400" },
         { title: "Redirects", value: stats.redirect, icon: History, color: "text-yellow-400" },
         { title: "Client Errors (4xx)", value: stats.deleted, icon: XCircle, color: "text-red-400" },
-        { title: "Server/Network Errors", value: stats.error, icon: AlertTriangle, color: "text-orange-400" },
+        {
+            title: "Server/Network Errors", value: stats.error, icon: AlertTriangle, color: "text-orange-400",
+            details: Object.entries(stats.errorBreakdown).sort(([, a], [, b]) => b - a).map(([category, count]) => `${category}: ${count}`),
+        },
         { title: "Avg. Response Time", value: `${stats.avgResponseTime}ms`, icon: Timer },
     ];
 
     const filterButtons: { label: string, value: StatusFilter, icon: React.ElementType }[] = [
         { label: 'All', value: 'all', icon: Network },
         { label: 'Live', value: 'live', icon: CheckCircle },
+        { label: 'Soft 404', value: 'soft-404', icon: FileQuestion },
         { label: 'Redirects', value: 'redirect', icon: History },
         { label: 'Deleted', value: 'deleted', icon: XCircle },
         { label: 'Errors', value: 'error', icon: AlertTriangle },
     ];
     
-    const tableHeaders: { key: keyof UrlStatusResult | 'statusGroup', label: string, className?: string }[] = [
+    const tableHeaders: { key: SortKey, label: string, className?: string }[] = [
         { key: 'statusGroup', label: 'Status', className: "w-[150px]" },
         { key: 'url', label: 'URL' },
         { key: 'status', label: 'Code', className: "w-[100px] text-right" },
@@ -217,7 +380,8 @@ export default function StatusCheckerClient() {
 
     return (
         <TooltipProvider>
-            <UrlImportDialog open={isImporting} onOpenChange={setIsImporting} onImport={handleImport} />
+            <UrlImportDialog open={isImporting} onOpenChange={handleImportOpenChange} onImport={handleImport} droppedFiles={droppedFiles} />
+            <FileDropZone onDrop={handleDropFiles} />
             <div className="space-y-8">
                 <Card>
                     <CardHeader>
@@ -231,28 +395,52 @@ export default function StatusCheckerClient() {
                             onChange={(e) => setUrlsInput(e.target.value)}
                             disabled={isChecking}
                         />
-                        <div className="flex flex-wrap gap-2">
-                            <Button onClick={() => setIsImporting(true)} variant="outline" disabled={isChecking}>
-                                <FileUp className="mr-2 h-4 w-4" /> Import URLs
-                            </Button>
-                             <Button onClick={() => setUrlsInput('')} variant="ghost" disabled={isChecking || !urlsInput}>
-                                <Trash2 className="mr-2 h-4 w-4" /> Clear
-                            </Button>
-                            <Button onClick={async () => setUrlsInput(await navigator.clipboard.readText())} variant="outline" disabled={isChecking}>
-                                <Copy className="mr-2 h-4 w-4" /> Paste from Clipboard
-                            </Button>
-                            <Button onClick={handleCheckStatuses} disabled={isChecking} className="font-bold">
-                                {isChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Network className="mr-2 h-4 w-4" />}
-                                Check Statuses
-                            </Button>
-                        </div>
-                        {isChecking && <Progress value={progress} className="w-full" />}
+                        <ImportedUrlsSummary count={importedCount} onRemove={handleRemoveImported} disabled={isChecking} />
+                        <Collapsible className="space-y-4">
+                            <div className="flex flex-wrap gap-2">
+                                <Button onClick={() => setIsImporting(true)} variant="outline" disabled={isChecking}>
+                                    <FileUp className="mr-2 h-4 w-4" /> Import URLs
+                                </Button>
+                                 <Button onClick={handleClearInput} variant="ghost" disabled={isChecking || (!urlsInput && importedCount === 0)}>
+                                    <Trash2 className="mr-2 h-4 w-4" /> Clear
+                                </Button>
+                                <Button onClick={async () => setUrlsInput(await navigator.clipboard.readText())} variant="outline" disabled={isChecking}>
+                                    <Copy className="mr-2 h-4 w-4" /> Paste from Clipboard
+                                </Button>
+                                <Button onClick={handleCheckStatuses} disabled={isChecking} className="font-bold">
+                                    {isChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Network className="mr-2 h-4 w-4" />}
+                                    Check Statuses
+                                </Button>
+                                {isChecking && (
+                                    <Button onClick={handleCancel} variant="destructive">
+                                        <Square className="mr-2 h-4 w-4" /> Stop
+                                    </Button>
+                                )}
+                                <CollapsibleTrigger asChild>
+                                    <Button variant="ghost" className="ml-auto">
+                                        <Settings2 className="mr-2 h-4 w-4" /> Request Settings
+                                    </Button>
+                                </CollapsibleTrigger>
+                            </div>
+                            <CollapsibleContent>
+                                <StatusCheckSettings value={checkOptions} onChange={setCheckOptions} disabled={isChecking} />
+                            </CollapsibleContent>
+                        </Collapsible>
+                        {isChecking && progress && (
+                            <div className="space-y-1">
+                                <Progress value={(progress.completed / Math.max(progress.total, 1)) * 100} className="w-full" />
+                                <p className="text-xs text-muted-foreground">
+                                    {progress.completed.toLocaleString()} of {progress.total.toLocaleString()} checked
+                                    {progress.etaMs !== null && progress.completed < progress.total && ` · about ${formatDuration(progress.etaMs)} remaining`}
+                                </p>
+                            </div>
+                        )}
                     </CardContent>
                 </Card>
 
                 {results.length > 0 && (
                     <>
-                        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                        <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-4">
                             {statCards.map(s => (
                                 <Card key={s.title}>
                                     <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -261,6 +449,9 @@ export default function StatusCheckerClient() {
                                     </CardHeader>
                                     <CardContent>
                                         <div className="text-2xl font-bold">{s.value}</div>
+                                        {s.details?.map(detail => (
+                                            <p key={detail} className="text-xs text-muted-foreground">{detail}</p>
+                                        ))}
                                     </CardContent>
                                 </Card>
                             ))}
@@ -286,14 +477,19 @@ export default function StatusCheckerClient() {
                                             <DropdownMenuItem onClick={() => handleExport('csv', filteredAndSortedResults)}><FileText className="mr-2 h-4 w-4" />Export Filtered as CSV</DropdownMenuItem>
                                             <DropdownMenuItem onClick={() => handleExport('csv', results)}><FileText className="mr-2 h-4 w-4" />Export All as CSV</DropdownMenuItem>
                                             <DropdownMenuItem onClick={() => handleExport('txt', results.filter(r => getStatusGroup(r) === 'live'))}><FileText className="mr-2 h-4 w-4" />Export Live URLs as TXT</DropdownMenuItem>
+                                            <DropdownMenuItem onClick={() => handleExport('txt', results.filter(r => getStatusGroup(r) === 'soft-404'))}><FileText className="mr-2 h-4 w-4" />Export Soft 404 URLs as TXT</DropdownMenuItem>
                                             <DropdownMenuItem onClick={() => handleExport('txt', results.filter(r => getStatusGroup(r) === 'deleted'))}><FileText className="mr-2 h-4 w-4" />Export Deleted URLs as TXT</DropdownMenuItem>
                                         </DropdownMenuContent>
                                     </DropdownMenu>
                                 </div>
                             </CardHeader>
                             <CardContent>
-                                <Table>
-                                    <TableHeader>
+                                <Table
+                                    containerRef={tableContainerRef}
+                                    containerClassName="max-h-[70vh] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                                    containerProps={tableContainerProps}
+                                >
+                                    <TableHeader className="sticky top-0 z-10 bg-card">
                                         <TableRow>
                                             {tableHeaders.map(h => (
                                                 <TableHead key={h.key} className={h.className}>
@@ -305,25 +501,91 @@ export default function StatusCheckerClient() {
                                             ))}
                                         </TableRow>
                                     </TableHeader>
-                                    <TableBody>
-                                        {filteredAndSortedResults.map(r => (
-                                            <TableRow key={r.url}>
-                                                <TableCell>{getStatusBadge(r)}</TableCell>
-                                                <TableCell className="font-mono text-sm max-w-[300px] truncate">
-                                                    <Tooltip>
-                                                        <TooltipTrigger><p>{r.url}</p></TooltipTrigger>
-                                                        <TooltipContent className="max-w-xl" side="bottom" align="start">
-                                                            <p><b>Original:</b> {r.url}</p>
-                                                            {r.url !== r.finalUrl && <p><b>Final:</b> {r.finalUrl}</p>}
-                                                            {r.error && <p className="text-red-400"><b>Error:</b> {r.error}</p>}
-                                                        </TooltipContent>
-                                                    </Tooltip>
-                                                </TableCell>
-                                                <TableCell className="text-right">{r.error ? 'N/A' : r.status}</TableCell>
-                                                <TableCell className="text-right">{r.responseTime} ms</TableCell>
-                                            </TableRow>
-                                        ))}
-                                    </TableBody>
+                                    {paddingTop > 0 && <tbody aria-hidden><tr style={{ height: paddingTop }} /></tbody>}
+                                    {virtualRows.map(virtualRow => {
+                                        const r = filteredAndSortedResults[virtualRow.index];
+                                        const hasChain = r.redirectChain.length > 0;
+                                        const isExpanded = hasChain && expandedUrls.has(r.url);
+                                        const metadata = importedMetadata.get(r.url);
+                                        const statusChange = getImportedStatusChange(r, importedMetadata);
+                                        const origins = describeUrlOrigins(importedOrigins, [r.url]);
+                                        // Each row gets its own body so the virtualizer measures the
+                                        // row and its expanded redirect chain as one item.
+                                        return (
+                                            <TableBody
+                                                key={virtualRow.key}
+                                                data-index={virtualRow.index}
+                                                ref={virtualizer.measureElement}
+                                                className="[&_tr:last-child]:border-b"
+                                            >
+                                                <TableRow
+                                                    id={getRowId(virtualRow.index)}
+                                                    data-state={virtualRow.index === activeIndex ? 'selected' : undefined}
+                                                    onClick={() => setActiveIndex(virtualRow.index)}
+                                                >
+                                                    <TableCell>{getStatusBadge(r)}</TableCell>
+                                                    <TableCell className="font-mono text-sm max-w-[300px] truncate">
+                                                        <div className="flex items-center gap-1">
+                                                            {hasChain && (
+                                                                <Button
+                                                                    variant="ghost"
+                                                                    size="icon"
+                                                                    className="h-6 w-6 shrink-0"
+                                                                    aria-expanded={isExpanded}
+                                                                    onClick={() => toggleExpanded(r.url)}
+                                                                >
+                                                                    {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                                                    <span className="sr-only">Toggle redirect chain</span>
+                                                                </Button>
+                                                            )}
+                                                            <Tooltip>
+                                                                <TooltipTrigger className="truncate"><p className="truncate">{r.url}</p></TooltipTrigger>
+                                                                <TooltipContent className="max-w-xl" side="bottom" align="start">
+                                                                    <p><b>Original:</b> {r.url}</p>
+                                                                    {r.url !== r.finalUrl && <p><b>Final:</b> {r.finalUrl}</p>}
+                                                                    {hasChain && <p><b>Redirects:</b> {r.redirectChain.length} hop(s)</p>}
+                                                                    {r.error && <p className="text-red-400"><b>{getErrorCategory(r)}:</b> {r.error}</p>}
+                                                                    {(r.attempts ?? 0) > 1 && <p><b>Attempts:</b> {r.attempts}</p>}
+                                                                    {r.pageTitle && <p><b>Title:</b> {r.pageTitle}</p>}
+                                                                    {origins.length > 0 && <p><b>Imported</b> {origins.join(', ')}</p>}
+                                                                    {metadata && <p><b>Imported:</b> {Object.entries(metadata).map(([field, value]) => `${field}: ${value}`).join(' · ')}</p>}
+                                                                    {r.soft404 && <p className="text-purple-400"><b>Soft 404:</b> {r.soft404.reason === 'title' ? 'title looks like a "not found" page' : `content matches a random-path probe (${Math.round((r.soft404.similarity ?? 0) * 100)}% similar)`}</p>}
+                                                                </TooltipContent>
+                                                            </Tooltip>
+                                                        </div>
+                                                    </TableCell>
+                                                    <TableCell className="text-right">
+                                                        {r.error ? <span className="text-xs text-orange-400">{getErrorCategory(r)}</span> : r.status}
+                                                        {hasChain && <span className="ml-1 text-xs text-muted-foreground">({r.redirectChain.length} hop{r.redirectChain.length === 1 ? '' : 's'})</span>}
+                                                        {statusChange && <span className="ml-1 text-xs text-yellow-400" title="Status recorded by the import">(was {statusChange})</span>}
+                                                    </TableCell>
+                                                    <TableCell className="text-right">{r.responseTime} ms</TableCell>
+                                                </TableRow>
+                                                {isExpanded && (
+                                                    <TableRow className="bg-muted/30 hover:bg-muted/30">
+                                                        <TableCell colSpan={tableHeaders.length} className="py-2">
+                                                            <ol className="space-y-1 font-mono text-xs">
+                                                                {r.redirectChain.map((hop, i) => (
+                                                                    <li key={i} className="flex items-center gap-2">
+                                                                        <Badge variant="outline" className="shrink-0">{hop.status}</Badge>
+                                                                        <span className="truncate">{hop.url}</span>
+                                                                        <span className="shrink-0 text-muted-foreground">→ {hop.location}</span>
+                                                                        <span className="ml-auto shrink-0 text-muted-foreground">{hop.responseTime} ms</span>
+                                                                    </li>
+                                                                ))}
+                                                                <li className="flex items-center gap-2">
+                                                                    <Badge variant="outline" className="shrink-0">{r.status}</Badge>
+                                                                    <span className="truncate">{r.finalUrl}</span>
+                                                                    {r.error && <span className="shrink-0 text-red-400">{r.statusText}</span>}
+                                                                </li>
+                                                            </ol>
+                                                        </TableCell>
+                                                    </TableRow>
+                                                )}
+                                            </TableBody>
+                                        );
+                                    })}
+                                    {paddingBottom > 0 && <tbody aria-hidden><tr style={{ height: paddingBottom }} /></tbody>}
                                 </Table>
                                 {filteredAndSortedResults.length === 0 && <p className="text-center text-muted-foreground p-8">No results to display.</p>}
                             </CardContent>
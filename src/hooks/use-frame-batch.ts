@@ -0,0 +1,39 @@
+'use client';
+
+import * as React from 'react';
+
+/**
+ * Buffers items that can arrive faster than React should re-render, such as
+ * results read off a stream, and hands them to `onFlush` in one batch at most
+ * once per animation frame. `flush` hands over what is buffered straight
+ * away, as when the stream ends.
+ */
+export function useFrameBatch<T>(onFlush: (batch: T[]) => void): { push: (item: T) => void; flush: () => void } {
+  // Kept in a ref so `push` and `flush` stay stable, yet call the latest handler.
+  const onFlushRef = React.useRef(onFlush);
+  onFlushRef.current = onFlush;
+  const bufferRef = React.useRef<T[]>([]);
+  const frameRef = React.useRef<number | null>(null);
+
+  const flush = React.useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    const batch = bufferRef.current;
+    if (batch.length === 0) return;
+    bufferRef.current = [];
+    onFlushRef.current(batch);
+  }, []);
+
+  const push = React.useCallback((item: T) => {
+    bufferRef.current.push(item);
+    frameRef.current ??= requestAnimationFrame(flush);
+  }, [flush]);
+
+  React.useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  return React.useMemo(() => ({ push, flush }), [push, flush]);
+}
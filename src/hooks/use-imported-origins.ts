@@ -0,0 +1,27 @@
+'use client';
+
+import * as React from 'react';
+
+import { addUrlOrigins, type ImportSource, type ImportedUrlOrigins } from '@/lib/url-import/provenance';
+
+/**
+ * Where a tool's imported URLs came from. The map is added to in place as
+ * import batches arrive (see `addUrlOrigins`), so each change bumps a version
+ * to re-render the tool; `clear` starts a new map.
+ */
+export function useImportedOrigins() {
+  const originsRef = React.useRef<ImportedUrlOrigins>(new Map());
+  const [, setVersion] = React.useState(0);
+
+  const add = React.useCallback((urls: string[], source: ImportSource) => {
+    addUrlOrigins(originsRef.current, urls, source);
+    setVersion((version) => version + 1);
+  }, []);
+
+  const clear = React.useCallback(() => {
+    originsRef.current = new Map();
+    setVersion((version) => version + 1);
+  }, []);
+
+  return { origins: originsRef.current, add, clear };
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import * as React from 'react';
+
+const STORAGE_KEY = 'url-tools:model';
+const CHANGE_EVENT = 'url-tools:model-change';
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('storage', onChange);
+  window.addEventListener(CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('storage', onChange);
+    window.removeEventListener(CHANGE_EVENT, onChange);
+  };
+}
+
+/**
+ * The model (`<provider>/<model>`) chosen on the settings screen, kept in
+ * localStorage and shared by every tab. Undefined means the server default.
+ */
+export function useModelPreference(): [string | undefined, (model: string | undefined) => void] {
+  const model = React.useSyncExternalStore(
+    subscribe,
+    () => window.localStorage.getItem(STORAGE_KEY) ?? undefined,
+    () => undefined
+  );
+
+  const setModel = React.useCallback((next: string | undefined) => {
+    if (next) window.localStorage.setItem(STORAGE_KEY, next);
+    else window.localStorage.removeItem(STORAGE_KEY);
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  return [model, setModel];
+}
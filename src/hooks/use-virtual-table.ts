@@ -0,0 +1,117 @@
+'use client';
+
+import { useVirtualizer } from '@tanstack/react-virtual';
+import * as React from 'react';
+
+type UseVirtualTableOptions = {
+  count: number;
+  estimateRowHeight: number;
+  overscan?: number;
+  onActivate?: (index: number) => void;
+};
+
+/**
+ * Windowed rendering for a `<Table>` whose container scrolls. Only the visible
+ * rows are rendered; spacer rows of `paddingTop`/`paddingBottom` keep the
+ * scrollbar and the sticky header in place. Arrow keys, Page Up/Down and
+ * Home/End move the active row, and Enter calls `onActivate` for it.
+ */
+export function useVirtualTable({
+  count,
+  estimateRowHeight,
+  overscan = 10,
+  onActivate,
+}: UseVirtualTableOptions) {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const rowIdPrefix = React.useId();
+  const [activeIndex, setActiveIndex] = React.useState(-1);
+
+  const virtualizer = useVirtualizer({
+    count,
+    getScrollElement: () => containerRef.current,
+    estimateSize: () => estimateRowHeight,
+    overscan,
+  });
+
+  // Keep the active row inside the list when filtering shrinks it.
+  React.useEffect(() => {
+    setActiveIndex((index) => Math.min(index, count - 1));
+  }, [count]);
+
+  const moveTo = React.useCallback(
+    (index: number) => {
+      if (count === 0) return;
+      const next = Math.max(0, Math.min(count - 1, index));
+      setActiveIndex(next);
+      virtualizer.scrollToIndex(next, { align: 'auto' });
+    },
+    [count, virtualizer]
+  );
+
+  const onKeyDown = React.useCallback(
+    (event: React.KeyboardEvent<HTMLElement>) => {
+      const pageSize = Math.max(
+        1,
+        Math.floor((containerRef.current?.clientHeight ?? 0) / estimateRowHeight)
+      );
+      switch (event.key) {
+        case 'ArrowDown':
+          moveTo(activeIndex + 1);
+          break;
+        case 'ArrowUp':
+          moveTo(activeIndex - 1);
+          break;
+        case 'PageDown':
+          moveTo(activeIndex + pageSize);
+          break;
+        case 'PageUp':
+          moveTo(activeIndex - pageSize);
+          break;
+        case 'Home':
+          moveTo(0);
+          break;
+        case 'End':
+          moveTo(count - 1);
+          break;
+        case 'Enter':
+          if (activeIndex < 0 || !onActivate) return;
+          onActivate(activeIndex);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    },
+    [activeIndex, count, estimateRowHeight, moveTo, onActivate]
+  );
+
+  const getRowId = React.useCallback(
+    (index: number) => `${rowIdPrefix}-row-${index}`,
+    [rowIdPrefix]
+  );
+
+  const virtualRows = virtualizer.getVirtualItems();
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+  const paddingBottom =
+    virtualRows.length > 0
+      ? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end
+      : 0;
+
+  const containerProps: React.HTMLAttributes<HTMLDivElement> = {
+    tabIndex: 0,
+    'aria-activedescendant': activeIndex >= 0 ? getRowId(activeIndex) : undefined,
+    onKeyDown,
+  };
+
+  return {
+    containerRef,
+    containerProps,
+    virtualizer,
+    virtualRows,
+    paddingTop,
+    paddingBottom,
+    activeIndex,
+    setActiveIndex,
+    getRowId,
+  };
+}
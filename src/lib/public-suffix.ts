@@ -0,0 +1,75 @@
+/**
+ * eTLD+1 lookup against a bundled copy of the Public Suffix List
+ * (https://publicsuffix.org/list/, MPL 2.0). Rules are stored in ASCII
+ * (punycode) form so they match hostnames produced by the URL parser.
+ */
+import rules from './public-suffix-list.json';
+
+type SuffixRules = {
+  exact: Set<string>;
+  wildcard: Set<string>;
+  exception: Set<string>;
+};
+
+let cachedRules: SuffixRules | null = null;
+
+function loadRules(): SuffixRules {
+  if (cachedRules) return cachedRules;
+  const exact = new Set<string>();
+  const wildcard = new Set<string>();
+  const exception = new Set<string>();
+  for (const rule of rules as string[]) {
+    if (rule.startsWith('!')) exception.add(rule.slice(1));
+    else if (rule.startsWith('*.')) wildcard.add(rule.slice(2));
+    else exact.add(rule);
+  }
+  cachedRules = { exact, wildcard, exception };
+  return cachedRules;
+}
+
+/**
+ * Returns the public suffix of a hostname, e.g. `co.uk` for `shop.example.co.uk`.
+ * Unknown TLDs fall back to the last label, per the list's implicit `*` rule.
+ */
+export function getPublicSuffix(hostname: string): string {
+  const { exact, wildcard, exception } = loadRules();
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.');
+
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (exception.has(candidate)) {
+      return labels.slice(i + 1).join('.');
+    }
+    if (i > 0 && wildcard.has(candidate)) {
+      return labels.slice(i - 1).join('.');
+    }
+    if (exact.has(candidate)) {
+      return candidate;
+    }
+  }
+  return labels[labels.length - 1];
+}
+
+/**
+ * Returns the registrable domain (eTLD+1) of a hostname, or null for IP
+ * literals and hostnames that are themselves a public suffix.
+ */
+export function getRegistrableDomain(hostname: string): string | null {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (!host || host.startsWith('[') || /^\d+(\.\d+){3}$/.test(host)) return null;
+
+  const suffix = getPublicSuffix(host);
+  if (host === suffix) return null;
+
+  const rest = host.slice(0, host.length - suffix.length - 1).split('.');
+  return `${rest[rest.length - 1]}.${suffix}`;
+}
+
+/**
+ * Whether the last label of a hostname is a top-level domain on the list.
+ * Used to tell host names in free text (`example.org`) from other dotted words.
+ */
+export function hasKnownTld(hostname: string): boolean {
+  const tld = hostname.toLowerCase().replace(/\.$/, '').split('.').pop() ?? '';
+  return loadRules().exact.has(tld);
+}
@@ -0,0 +1,119 @@
+/**
+ * Encodes one server-sent event. The `event:` field mirrors the payload's
+ * `type` so streams can also be read with `EventSource` listeners.
+ */
+export function encodeServerSentEvent(event: { type: string }): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Reads a `text/event-stream` response body and calls `onEvent` with the
+ * parsed JSON `data` of every message. Resolves when the stream ends.
+ */
+export async function readServerSentEvents<T>(body: ReadableStream<Uint8Array>, onEvent: (event: T) => void): Promise<void> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // SSE messages are separated by a blank line; keep any partial message.
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop() ?? '';
+    for (const message of messages) {
+      const data = message
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (data) onEvent(JSON.parse(data) as T);
+    }
+  }
+}
+
+type SseErrorEvent = { type: 'error'; message: string };
+
+/**
+ * Serves a POST of `{ urls: string[], options?: unknown }` as a stream of
+ * server-sent events. `run` does the work, sending events as it goes; its
+ * signal is aborted when the client disconnects. A bad body is answered with
+ * a 400, and an error thrown by `run` is logged under `name` and sent as an
+ * `error` event saying what failed (`activity`, e.g. "scanning URLs").
+ */
+export async function streamUrlJob<E extends { type: string }>(
+  request: Request,
+  run: (job: { urls: string[]; options: unknown; signal: AbortSignal; send: (event: E) => void }) => Promise<void>,
+  { name, activity }: { name: string; activity: string }
+): Promise<Response> {
+  let urls: unknown;
+  let options: unknown;
+  try {
+    ({ urls, options } = await request.json());
+  } catch {
+    return Response.json({ error: 'Request body must be JSON.' }, { status: 400 });
+  }
+  if (!Array.isArray(urls) || !urls.every((url) => typeof url === 'string')) {
+    return Response.json({ error: 'Expected "urls" to be an array of strings.' }, { status: 400 });
+  }
+  const urlList: string[] = urls;
+
+  const controller = new AbortController();
+  request.signal.addEventListener('abort', () => controller.abort());
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send = (event: E | SseErrorEvent) => {
+        if (controller.signal.aborted) return;
+        streamController.enqueue(encoder.encode(encodeServerSentEvent(event)));
+      };
+
+      try {
+        await run({ urls: urlList, options, signal: controller.signal, send });
+      } catch (error: any) {
+        console.error(`${name} stream error:`, error);
+        send({ type: 'error', message: error.message || `An unknown error occurred while ${activity}.` });
+      } finally {
+        if (!controller.signal.aborted) streamController.close();
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Posts `body` to a `streamUrlJob` route and calls `onEvent` for every
+ * server-sent event. Resolves when the stream ends; rejects with an AbortError
+ * when `signal` is aborted, and with the route's error, or `failure` and the
+ * status, when the stream cannot start.
+ */
+export async function fetchServerSentEvents<T>(
+  path: string,
+  body: unknown,
+  { signal, onEvent, failure }: { signal?: AbortSignal; onEvent: (event: T) => void; failure: string }
+): Promise<void> {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `${failure} Status: ${response.statusText}`);
+  }
+
+  await readServerSentEvents<T>(response.body, onEvent);
+}
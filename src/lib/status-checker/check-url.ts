@@ -0,0 +1,320 @@
+import {
+  NETWORK_ERROR_LABELS,
+  RETRYABLE_ERROR_KINDS,
+  StatusCheckError,
+  classifyFetchError,
+} from '@/lib/status-checker/errors';
+import { getRetryDelay, type RetryPolicy } from '@/lib/status-checker/options';
+import { fetchWithRedirects, type RedirectFetchResult } from '@/lib/status-checker/redirects';
+import { Soft404Detector, readBodyPrefix, samplePage, type PageSample } from '@/lib/status-checker/soft-404';
+import type { RedirectHop, UrlStatusResult } from '@/lib/status-checker/types';
+import { sleep } from '@/lib/utils';
+
+// Aborts when either the per-request timeout fires or the whole job is cancelled.
+function withCancellation(timeoutSignal: AbortSignal, signal?: AbortSignal): AbortSignal {
+  return signal ? AbortSignal.any([timeoutSignal, signal]) : timeoutSignal;
+}
+
+const REDIRECT_ERRORS: Record<NonNullable<RedirectFetchResult['error']>, { statusText: string; error: string }> = {
+  loop: { statusText: 'Redirect Loop', error: 'The redirect chain points back to a URL it already visited.' },
+  'too-many-redirects': { statusText: 'Too Many Redirects', error: 'The redirect chain exceeded the maximum number of hops.' },
+};
+
+export const RATE_LIMIT_STATUSES = new Set([429, 503]);
+
+// Retry-After is either a number of seconds or an HTTP date.
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function toStatusResult(
+  url: string,
+  { response, finalUrl, chain, error }: RedirectFetchResult,
+  startTime: number,
+  method: string
+): UrlStatusResult {
+  return {
+    url,
+    finalUrl,
+    status: response.status,
+    statusText: error ? REDIRECT_ERRORS[error].statusText : response.statusText,
+    responseTime: Date.now() - startTime,
+    ...(error && { error: REDIRECT_ERRORS[error].error, errorKind: 'redirect-loop' as const }),
+    method,
+    redirectChain: chain,
+    ...(RATE_LIMIT_STATUSES.has(response.status) && {
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    }),
+  };
+}
+
+// Strategy 1: HEAD request (fastest)
+async function tryHeadRequest(url: string, timeout: number, signal?: AbortSignal): Promise<UrlStatusResult | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const startTime = Date.now();
+  
+  try {
+    const fetched = await fetchWithRedirects(url, {
+      signal: withCancellation(controller.signal, signal),
+      method: 'HEAD',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'Accept': '*/*',
+      },
+    });
+    
+    clearTimeout(timeoutId);
+    
+    return toStatusResult(url, fetched, startTime, 'HEAD');
+  } catch (error) {
+    clearTimeout(timeoutId);
+    throw classifyFetchError(error, controller.signal.aborted); // Try next method
+  }
+}
+
+const GET_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+  'Cache-Control': 'no-cache',
+};
+
+// Strategy 2: GET request (more reliable). With a soft-404 detector, 2xx
+// responses also have the start of their body inspected.
+async function tryGetRequest(url: string, timeout: number, signal?: AbortSignal, soft404?: Soft404Detector): Promise<UrlStatusResult | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const startTime = Date.now();
+  
+  try {
+    const fetched = await fetchWithRedirects(url, {
+      signal: withCancellation(controller.signal, signal),
+      method: 'GET',
+      headers: GET_HEADERS,
+    });
+    const result = toStatusResult(url, fetched, startTime, 'GET');
+    const page = soft404 && fetched.response.ok ? await samplePage(url, fetched) : null;
+    
+    clearTimeout(timeoutId);
+    
+    if (!soft404 || !page) return result;
+    return { ...result, pageTitle: page.title, soft404: await soft404.detect(page, signal) };
+  } catch (error) {
+    clearTimeout(timeoutId);
+    throw classifyFetchError(error, controller.signal.aborted);
+  }
+}
+
+// Variant URLs built by the strategies below (e.g. `www.` + an IP address) can
+// be invalid; that says nothing about the original URL, so the strategy is skipped.
+function toValidUrl(candidate: string): string | null {
+  try {
+    return new URL(candidate).toString();
+  } catch {
+    return null;
+  }
+}
+
+// Strategy 3: Try with www prefix
+async function tryWithWww(url: string, timeout: number, signal?: AbortSignal, soft404?: Soft404Detector): Promise<UrlStatusResult | null> {
+  const urlObj = new URL(url);
+  if (!urlObj.hostname.startsWith('www.')) {
+    const wwwUrl = toValidUrl(`${urlObj.protocol}//www.${urlObj.hostname}${urlObj.pathname}${urlObj.search}`);
+    return wwwUrl ? await tryGetRequest(wwwUrl, timeout, signal, soft404) : null;
+  }
+  return null;
+}
+
+// Strategy 4: Try without www prefix
+async function tryWithoutWww(url: string, timeout: number, signal?: AbortSignal, soft404?: Soft404Detector): Promise<UrlStatusResult | null> {
+  const urlObj = new URL(url);
+  if (urlObj.hostname.startsWith('www.')) {
+    const nonWwwUrl = toValidUrl(`${urlObj.protocol}//${urlObj.hostname.replace('www.', '')}${urlObj.pathname}${urlObj.search}`);
+    return nonWwwUrl ? await tryGetRequest(nonWwwUrl, timeout, signal, soft404) : null;
+  }
+  return null;
+}
+
+// Strategy 5: Try switching protocol (https to http or vice versa)
+async function trySwitchProtocol(url: string, timeout: number, signal?: AbortSignal, soft404?: Soft404Detector): Promise<UrlStatusResult | null> {
+  const urlObj = new URL(url);
+  const newProtocol = urlObj.protocol === 'https:' ? 'http:' : 'https:';
+  const newUrl = `${newProtocol}//${urlObj.hostname}${urlObj.pathname}${urlObj.search}`;
+  return await tryGetRequest(newUrl, timeout, signal, soft404);
+}
+
+// Fetches the random-path probe a soft-404 detector compares pages against.
+async function fetchPageSample(url: string, signal?: AbortSignal): Promise<PageSample> {
+  const fetched = await fetchWithRedirects(url, {
+    signal: withCancellation(AbortSignal.timeout(8000), signal),
+    method: 'GET',
+    headers: GET_HEADERS,
+  });
+  return samplePage(url, fetched);
+}
+
+export type FetchedPage = {
+  url: string; // URL that was requested
+  finalUrl: string;
+  status: number;
+  chain: RedirectHop[];
+  contentType: string;
+  html: string; // Start of the body; empty for non-HTML responses
+};
+
+// Login forms and script tags can sit well below the fold of a large page.
+const PAGE_HTML_MAX_BYTES = 512 * 1024;
+
+/**
+ * Fetches a page the way the GET strategy does (browser headers, redirects
+ * followed hop by hop) and returns the start of its HTML, for analysis of the
+ * page content. Network failures are thrown as a classified `StatusCheckError`.
+ */
+export async function fetchPageHtml(
+  url: string,
+  { signal, timeout = 10000, maxBytes = PAGE_HTML_MAX_BYTES }: { signal?: AbortSignal; timeout?: number; maxBytes?: number } = {}
+): Promise<FetchedPage> {
+  const timeoutSignal = AbortSignal.timeout(timeout);
+  try {
+    const fetched = await fetchWithRedirects(url, {
+      signal: withCancellation(timeoutSignal, signal),
+      method: 'GET',
+      headers: GET_HEADERS,
+    });
+    const contentType = fetched.response.headers.get('content-type') ?? '';
+    const isHtml = !contentType || /html|xml/i.test(contentType);
+    const html = isHtml ? await readBodyPrefix(fetched.response, maxBytes) : '';
+    if (!isHtml) await fetched.response.body?.cancel().catch(() => {});
+    return { url, finalUrl: fetched.finalUrl, status: fetched.response.status, chain: fetched.chain, contentType, html };
+  } catch (error) {
+    throw classifyFetchError(error, timeoutSignal.aborted);
+  }
+}
+
+/**
+ * A detector for one status check job; it probes each origin once and reuses
+ * the probe for every URL on it.
+ */
+export function createSoft404Detector(): Soft404Detector {
+  return new Soft404Detector(fetchPageSample);
+}
+
+// Strategy failures, most specific first: a DNS or TLS error on the original
+// URL explains more than the timeout of a later www/protocol variant.
+const ERROR_SPECIFICITY = ['invalid-url', 'dns', 'tls', 'connection-refused', 'reset', 'timeout', 'unknown'];
+
+// One pass over every strategy. Resolves to the first success, else the first
+// HTTP error response, else throws the most specific network failure.
+async function checkOnce(url: string, urlToCheck: string, signal?: AbortSignal, soft404?: Soft404Detector): Promise<UrlStatusResult> {
+  // Try strategies in order of speed and reliability. HEAD has no body to
+  // inspect, so content inspection starts with GET.
+  const strategies = [
+    ...(soft404 ? [] : [{ name: 'HEAD request', fn: () => tryHeadRequest(urlToCheck, 8000, signal) }]),
+    { name: 'GET request', fn: () => tryGetRequest(urlToCheck, 8000, signal, soft404) },
+    { name: 'with www', fn: () => tryWithWww(urlToCheck, 8000, signal, soft404) },
+    { name: 'without www', fn: () => tryWithoutWww(urlToCheck, 8000, signal, soft404) },
+    { name: 'switch protocol', fn: () => trySwitchProtocol(urlToCheck, 8000, signal, soft404) },
+  ];
+
+  let fallback: UrlStatusResult | null = null;
+  const failures: StatusCheckError[] = [];
+
+  for (const strategy of strategies) {
+    if (signal?.aborted) break;
+    try {
+      const result = await strategy.fn();
+      if (result && result.status >= 200 && result.status < 400) {
+        // Success! Return immediately
+        return { ...result, url };
+      }
+      // Rate limited: trying other strategies would only hit the host harder,
+      // so hand the response back to the scheduler to honour Retry-After.
+      if (result && RATE_LIMIT_STATUSES.has(result.status)) {
+        return { ...result, url };
+      }
+      // If we got a response but it's an error code, save it as backup
+      if (result && result.status >= 400) {
+        // Continue trying other strategies, but keep this as fallback
+        fallback ??= { ...result, url };
+        continue;
+      }
+    } catch (error) {
+      // Strategy failed, try next
+      failures.push(error instanceof StatusCheckError ? error : classifyFetchError(error, false));
+      continue;
+    }
+  }
+
+  if (fallback) return fallback;
+  failures.sort((a, b) => ERROR_SPECIFICITY.indexOf(a.kind) - ERROR_SPECIFICITY.indexOf(b.kind));
+  throw failures[0] ?? new StatusCheckError('unknown', 'All connection attempts failed.');
+}
+
+// Main intelligent checker. Retries a whole pass with exponential backoff when
+// it fails for a transient reason (timeout, reset, refused connection). Pass a
+// `soft404` detector to inspect the content of 2xx pages.
+export async function checkSingleUrl(
+  url: string,
+  { signal, retry, soft404 }: { signal?: AbortSignal; retry?: RetryPolicy; soft404?: Soft404Detector } = {}
+): Promise<UrlStatusResult> {
+  const startTime = Date.now();
+  
+  // Normalize URL
+  let urlToCheck = url.trim();
+  if (!urlToCheck.startsWith('http://') && !urlToCheck.startsWith('https://')) {
+    urlToCheck = `https://${urlToCheck}`;
+  }
+  
+  // Validate URL format
+  try {
+    new URL(urlToCheck);
+  } catch (error) {
+    return {
+      url,
+      finalUrl: url,
+      status: 400,
+      statusText: 'Invalid URL',
+      responseTime: Date.now() - startTime,
+      error: 'Invalid URL format',
+      errorKind: 'invalid-url',
+      method: 'validation',
+      attempts: 0,
+      redirectChain: [],
+    };
+  }
+
+  const maxAttempts = 1 + (retry?.retryAttempts ?? 0);
+  let failure: StatusCheckError | null = null;
+  let attempts = 0;
+  while (attempts < maxAttempts && !signal?.aborted) {
+    if (attempts > 0 && retry) await sleep(getRetryDelay(retry, attempts), signal);
+    attempts++;
+    try {
+      const result = await checkOnce(url, urlToCheck, signal, soft404);
+      return { ...result, attempts };
+    } catch (error) {
+      failure = error as StatusCheckError;
+      if (!RETRYABLE_ERROR_KINDS.has(failure.kind)) break;
+    }
+  }
+
+  // All strategies failed - return detailed error
+  const kind = failure?.kind ?? 'unknown';
+  return {
+    url,
+    finalUrl: urlToCheck,
+    status: 0,
+    statusText: NETWORK_ERROR_LABELS[kind],
+    responseTime: Date.now() - startTime,
+    error: failure?.message || 'All connection attempts failed. Site may be down, blocking server requests, or behind Cloudflare/firewall.',
+    errorKind: kind,
+    method: 'failed',
+    attempts,
+    redirectChain: [],
+  };
+}
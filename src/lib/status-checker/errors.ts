@@ -0,0 +1,60 @@
+import type { NetworkErrorKind } from '@/lib/status-checker/types';
+
+export const NETWORK_ERROR_LABELS: Record<NetworkErrorKind, string> = {
+  dns: 'DNS Failure',
+  'connection-refused': 'Connection Refused',
+  tls: 'TLS Error',
+  timeout: 'Timeout',
+  reset: 'Connection Reset',
+  'invalid-url': 'Invalid URL',
+  'redirect-loop': 'Redirect Loop',
+  unknown: 'Network Error',
+};
+
+// Failures worth another attempt; the rest will fail the same way again.
+export const RETRYABLE_ERROR_KINDS = new Set<NetworkErrorKind>(['timeout', 'reset', 'connection-refused', 'unknown']);
+
+const DNS_CODES = new Set(['ENOTFOUND', 'EAI_AGAIN', 'EAI_NONAME', 'EAI_NODATA', 'EAI_FAIL']);
+const RESET_CODES = new Set(['ECONNRESET', 'EPIPE', 'ECONNABORTED', 'UND_ERR_SOCKET', 'UND_ERR_CLOSED']);
+const TIMEOUT_CODES = new Set(['ETIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT']);
+const TLS_CODE_PATTERN = /^(ERR_TLS|ERR_SSL|CERT_|EPROTO$)|SELF_SIGNED|UNABLE_TO_(VERIFY|GET_ISSUER)|ALTNAME/;
+
+/**
+ * A strategy failure with its classified cause. Thrown by the fetch strategies
+ * so `checkSingleUrl` can report the most specific reason a URL was unreachable.
+ */
+export class StatusCheckError extends Error {
+  constructor(readonly kind: NetworkErrorKind, message: string) {
+    super(message);
+    this.name = 'StatusCheckError';
+  }
+}
+
+// undici wraps socket errors as `TypeError: fetch failed` with the real error
+// (and its code) somewhere down the `cause` chain.
+function errorChain(error: unknown): { code?: string; name?: string; message?: string }[] {
+  const chain = [];
+  let current: any = error;
+  while (current && typeof current === 'object' && chain.length < 5) {
+    chain.push(current);
+    current = current.cause;
+  }
+  return chain;
+}
+
+export function classifyFetchError(error: unknown, timedOut: boolean): StatusCheckError {
+  const chain = errorChain(error);
+  const root = chain[chain.length - 1];
+  const message = root?.message || 'Request failed.';
+
+  if (timedOut) return new StatusCheckError('timeout', 'The request timed out.');
+  for (const { code, name, message: text } of chain) {
+    if (code && DNS_CODES.has(code)) return new StatusCheckError('dns', message);
+    if (code === 'ECONNREFUSED') return new StatusCheckError('connection-refused', message);
+    if (code && RESET_CODES.has(code)) return new StatusCheckError('reset', message);
+    if ((code && TIMEOUT_CODES.has(code)) || name === 'TimeoutError') return new StatusCheckError('timeout', message);
+    if (code && TLS_CODE_PATTERN.test(code)) return new StatusCheckError('tls', message);
+    if (code === 'ERR_INVALID_URL' || /invalid url/i.test(text ?? '')) return new StatusCheckError('invalid-url', message);
+  }
+  return new StatusCheckError('unknown', message);
+}
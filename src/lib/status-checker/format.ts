@@ -0,0 +1,21 @@
+import type { RedirectHop, Soft404Signal } from '@/lib/status-checker/types';
+
+/**
+ * Flattens a redirect chain into one line for CSV cells, e.g.
+ * `301 http://a.com/ -> https://a.com/ (120ms) | 302 https://a.com/ -> /home (80ms)`.
+ */
+export function formatRedirectChain(chain: RedirectHop[]): string {
+  return chain
+    .map(hop => `${hop.status} ${hop.url} -> ${hop.location} (${hop.responseTime}ms)`)
+    .join(' | ');
+}
+
+/**
+ * One-line reason a page was flagged as a soft 404, e.g. `title: Page Not Found`
+ * or `matches https://a.com/0b6e... (0.97)`. Empty when it was not flagged.
+ */
+export function formatSoft404(signal?: Soft404Signal): string {
+  if (!signal) return '';
+  if (signal.reason === 'title') return `title: ${signal.title ?? ''}`;
+  return `matches ${signal.probeUrl ?? 'probe'} (${signal.similarity ?? ''})`;
+}
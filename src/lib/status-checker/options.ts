@@ -0,0 +1,77 @@
+import { clampOption } from '@/lib/utils';
+
+/**
+ * Politeness and retry settings for a status check job. Shared by the Status Checker UI
+ * and the streaming route.
+ */
+export type StatusCheckOptions = {
+  concurrency: number; // Requests in flight across all hosts
+  perHostConcurrency: number; // Requests in flight to any single host
+  perHostDelayMs: number; // Minimum gap between request starts on the same host
+  honorRetryAfter: boolean; // Pause a host and retry on 429/503
+  maxRetryAfterMs: number; // Upper bound on a single Retry-After pause
+  retryAttempts: number; // Extra attempts after a retryable network failure
+  retryBaseDelayMs: number; // Backoff before the first retry, doubled for each one after
+  retryMaxDelayMs: number; // Upper bound on a single backoff
+  retryJitter: number; // Fraction (0-1) of each backoff that is randomised
+  detectSoft404: boolean; // GET and inspect page content to flag "not found" pages served with 2xx
+};
+
+export type RetryPolicy = Pick<
+  StatusCheckOptions,
+  'retryAttempts' | 'retryBaseDelayMs' | 'retryMaxDelayMs' | 'retryJitter'
+>;
+
+export const DEFAULT_STATUS_CHECK_OPTIONS: StatusCheckOptions = {
+  concurrency: 10,
+  perHostConcurrency: 2,
+  perHostDelayMs: 250,
+  honorRetryAfter: true,
+  maxRetryAfterMs: 60_000,
+  retryAttempts: 2,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 10_000,
+  retryJitter: 0.5,
+  detectSoft404: false,
+};
+
+const LIMITS: Record<Exclude<keyof StatusCheckOptions, 'honorRetryAfter' | 'detectSoft404'>, [number, number]> = {
+  concurrency: [1, 50],
+  perHostConcurrency: [1, 20],
+  perHostDelayMs: [0, 60_000],
+  maxRetryAfterMs: [0, 600_000],
+  retryAttempts: [0, 5],
+  retryBaseDelayMs: [0, 60_000],
+  retryMaxDelayMs: [0, 300_000],
+  retryJitter: [0, 1],
+};
+
+/**
+ * Fills in defaults and clamps untrusted options (e.g. from a request body) to
+ * sane bounds.
+ */
+export function resolveStatusCheckOptions(input: unknown): StatusCheckOptions {
+  const raw = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof StatusCheckOptions, unknown>>;
+  const defaults = DEFAULT_STATUS_CHECK_OPTIONS;
+  return {
+    concurrency: clampOption(raw.concurrency, LIMITS.concurrency, defaults.concurrency),
+    perHostConcurrency: clampOption(raw.perHostConcurrency, LIMITS.perHostConcurrency, defaults.perHostConcurrency),
+    perHostDelayMs: clampOption(raw.perHostDelayMs, LIMITS.perHostDelayMs, defaults.perHostDelayMs),
+    honorRetryAfter: typeof raw.honorRetryAfter === 'boolean' ? raw.honorRetryAfter : defaults.honorRetryAfter,
+    maxRetryAfterMs: clampOption(raw.maxRetryAfterMs, LIMITS.maxRetryAfterMs, defaults.maxRetryAfterMs),
+    retryAttempts: clampOption(raw.retryAttempts, LIMITS.retryAttempts, defaults.retryAttempts),
+    retryBaseDelayMs: clampOption(raw.retryBaseDelayMs, LIMITS.retryBaseDelayMs, defaults.retryBaseDelayMs),
+    retryMaxDelayMs: clampOption(raw.retryMaxDelayMs, LIMITS.retryMaxDelayMs, defaults.retryMaxDelayMs),
+    retryJitter: clampOption(raw.retryJitter, LIMITS.retryJitter, defaults.retryJitter, false),
+    detectSoft404: typeof raw.detectSoft404 === 'boolean' ? raw.detectSoft404 : defaults.detectSoft404,
+  };
+}
+
+/**
+ * Exponential backoff before retry number `retry` (1-based), with up to
+ * `retryJitter` of it randomised so retries from one batch do not line up.
+ */
+export function getRetryDelay(policy: RetryPolicy, retry: number): number {
+  const delay = Math.min(policy.retryMaxDelayMs, policy.retryBaseDelayMs * 2 ** (retry - 1));
+  return Math.round(delay * (1 - policy.retryJitter * Math.random()));
+}
@@ -0,0 +1,57 @@
+import type { RedirectHop } from '@/lib/status-checker/types';
+
+export const MAX_REDIRECT_HOPS = 10;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+export type RedirectFetchResult = {
+  response: Response;
+  finalUrl: string;
+  chain: RedirectHop[];
+  error?: 'loop' | 'too-many-redirects';
+};
+
+/**
+ * Fetches a URL following redirects by hand so every hop is recorded. Stops at
+ * the first non-redirect response, at a URL already visited (a loop) or after
+ * `maxHops` redirects; in the last two cases the final redirect response is
+ * returned along with an `error`.
+ */
+export async function fetchWithRedirects(
+  url: string,
+  init: Omit<RequestInit, 'redirect'>,
+  maxHops = MAX_REDIRECT_HOPS
+): Promise<RedirectFetchResult> {
+  const chain: RedirectHop[] = [];
+  const visited = new Set<string>();
+  let currentUrl = url;
+
+  while (true) {
+    visited.add(currentUrl);
+    const hopStartTime = Date.now();
+    const response = await fetch(currentUrl, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      return { response, finalUrl: currentUrl, chain };
+    }
+
+    chain.push({
+      url: currentUrl,
+      status: response.status,
+      location,
+      responseTime: Date.now() - hopStartTime,
+    });
+    // The redirect body is never read, so release the connection.
+    await response.body?.cancel().catch(() => {});
+
+    const nextUrl = new URL(location, currentUrl).toString();
+    if (visited.has(nextUrl)) {
+      return { response, finalUrl: nextUrl, chain, error: 'loop' };
+    }
+    if (chain.length >= maxHops) {
+      return { response, finalUrl: nextUrl, chain, error: 'too-many-redirects' };
+    }
+    currentUrl = nextUrl;
+  }
+}
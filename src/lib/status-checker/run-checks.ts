@@ -0,0 +1,156 @@
+import { RATE_LIMIT_STATUSES, checkSingleUrl, createSoft404Detector } from '@/lib/status-checker/check-url';
+import { NETWORK_ERROR_LABELS } from '@/lib/status-checker/errors';
+import { DEFAULT_STATUS_CHECK_OPTIONS, type StatusCheckOptions } from '@/lib/status-checker/options';
+import type { StatusCheckProgress, UrlStatusResult } from '@/lib/status-checker/types';
+
+export type RunStatusChecksOptions = {
+  signal?: AbortSignal;
+  options?: StatusCheckOptions;
+  onResult?: (result: UrlStatusResult, index: number) => void;
+  onProgress?: (progress: StatusCheckProgress) => void;
+};
+
+// How often a rate-limited URL is re-queued before its 429/503 is reported.
+const MAX_RATE_LIMIT_RETRIES = 3;
+// Pause used when a 429/503 carries no usable Retry-After header.
+const DEFAULT_RATE_LIMIT_PAUSE_MS = 5_000;
+
+type Task = { index: number; attempt: number };
+
+type HostState = {
+  queue: Task[];
+  active: number;
+  nextAllowedAt: number;
+};
+
+function hostKey(url: string): string {
+  try {
+    const withScheme = /^https?:\/\//.test(url.trim()) ? url.trim() : `https://${url.trim()}`;
+    return new URL(withScheme).hostname;
+  } catch {
+    return '';
+  }
+}
+
+// Politeness-aware scheduler: at most `concurrency` requests in flight overall
+// and `perHostConcurrency` per host, request starts on a host spaced at least
+// `perHostDelayMs` apart, and hosts answering 429/503 paused for their
+// Retry-After. Results are reported through `onResult` as soon as each URL finishes.
+export async function runStatusChecks(
+  urls: string[],
+  { signal, options = DEFAULT_STATUS_CHECK_OPTIONS, onResult, onProgress }: RunStatusChecksOptions = {}
+): Promise<UrlStatusResult[]> {
+  const results: UrlStatusResult[] = [];
+  const totalUrls = urls.length;
+  const startTime = Date.now();
+  let completed = 0;
+  let active = 0;
+  const soft404 = options.detectSoft404 ? createSoft404Detector() : undefined;
+
+  const hosts = new Map<string, HostState>();
+  urls.forEach((url, index) => {
+    const key = hostKey(url);
+    let host = hosts.get(key);
+    if (!host) {
+      host = { queue: [], active: 0, nextAllowedAt: 0 };
+      hosts.set(key, host);
+    }
+    host.queue.push({ index, attempt: 0 });
+  });
+
+  const record = (result: UrlStatusResult, index: number) => {
+    results[index] = result;
+    completed++;
+    onResult?.(result, index);
+
+    const elapsedMs = Date.now() - startTime;
+    const remaining = totalUrls - completed;
+    onProgress?.({
+      completed,
+      total: totalUrls,
+      elapsedMs,
+      etaMs: remaining > 0 ? Math.round((elapsedMs / completed) * remaining) : 0,
+    });
+  };
+
+  await new Promise<void>(resolve => {
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const pump = () => {
+      if (wakeTimer) {
+        clearTimeout(wakeTimer);
+        wakeTimer = null;
+      }
+
+      const now = Date.now();
+      let nextWakeAt = Infinity;
+      let queued = 0;
+      for (const host of hosts.values()) {
+        if (signal?.aborted) host.queue.length = 0;
+        queued += host.queue.length;
+        while (
+          host.queue.length > 0 &&
+          active < options.concurrency &&
+          host.active < options.perHostConcurrency
+        ) {
+          if (host.nextAllowedAt > now) {
+            nextWakeAt = Math.min(nextWakeAt, host.nextAllowedAt);
+            break;
+          }
+          start(host, host.queue.shift()!);
+        }
+      }
+
+      if (queued === 0 && active === 0) {
+        resolve();
+      } else if (nextWakeAt !== Infinity) {
+        wakeTimer = setTimeout(pump, nextWakeAt - now);
+      }
+    };
+
+    const start = (host: HostState, task: Task) => {
+      active++;
+      host.active++;
+      host.nextAllowedAt = Date.now() + options.perHostDelayMs;
+
+      checkSingleUrl(urls[task.index], { signal, retry: options, soft404 })
+        // A check that throws (say, in the soft-404 detector) still frees its
+        // slot and is reported, or the run would never finish.
+        .catch((error): UrlStatusResult => ({
+          url: urls[task.index],
+          finalUrl: urls[task.index],
+          status: 0,
+          statusText: NETWORK_ERROR_LABELS.unknown,
+          responseTime: 0,
+          error: error instanceof Error ? error.message : String(error),
+          errorKind: 'unknown',
+          method: 'failed',
+          redirectChain: [],
+        }))
+        .then(result => {
+          active--;
+          host.active--;
+          if (signal?.aborted) return pump();
+
+          if (
+            options.honorRetryAfter &&
+            RATE_LIMIT_STATUSES.has(result.status) &&
+            task.attempt < MAX_RATE_LIMIT_RETRIES
+          ) {
+            const pauseMs = Math.min(result.retryAfterMs ?? DEFAULT_RATE_LIMIT_PAUSE_MS, options.maxRetryAfterMs);
+            host.nextAllowedAt = Math.max(host.nextAllowedAt, Date.now() + pauseMs);
+            host.queue.unshift({ index: task.index, attempt: task.attempt + 1 });
+          } else {
+            record(result, task.index);
+          }
+          pump();
+        });
+    };
+
+    signal?.addEventListener('abort', pump, { once: true });
+    pump();
+  });
+
+  // Drop the holes left by URLs that were still queued when cancelled.
+  return results.filter(Boolean);
+}
@@ -0,0 +1,193 @@
+import type { RedirectFetchResult } from '@/lib/status-checker/redirects';
+import type { Soft404Signal } from '@/lib/status-checker/types';
+
+// Enough for the <title> and the main template of almost any page.
+export const SOFT_404_MAX_BODY_BYTES = 64 * 1024;
+
+// Pages at least this similar to the host's "not found" probe are flagged.
+const PROBE_SIMILARITY_THRESHOLD = 0.85;
+
+const NOT_FOUND_TITLE_PATTERNS = [
+  /\b404\b/,
+  /not\s+found/i,
+  /page\s+(?:does\s*n[o']t|doesn't|no\s+longer)\s+exists?/i,
+  /page\s+(?:could\s*n[o']t|couldn't|can\s*n[o']t|can't|cannot)\s+be\s+found/i,
+  /page\s+(?:is\s+)?(?:missing|unavailable)/i,
+];
+
+export type PageSample = {
+  url: string; // URL that was requested
+  finalUrl: string;
+  status: number;
+  redirected: boolean;
+  title?: string;
+  text: string; // Visible text of the body prefix, lowercased and whitespace-collapsed
+};
+
+// Reads at most `maxBytes` of the body and drops the rest of the stream.
+export async function readBodyPrefix(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+  try {
+    while (bytes < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, maxBytes - bytes);
+      bytes += chunk.length;
+      text += decoder.decode(chunk, { stream: true });
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+  return text + decoder.decode();
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#0*39;|&apos;/gi, "'")
+    .replace(/&rsquo;/gi, "'");
+
+export function extractTitle(html: string): string | undefined {
+  const match = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = match ? decodeEntities(match[1]).replace(/\s+/g, ' ').trim() : '';
+  return title || undefined;
+}
+
+export function extractText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript|svg)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<!--[\s\S]*?-->/g, ' ')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// "Not found" templates often echo the requested path; masking it keeps two
+// misses on the same host from differing only by their URLs.
+function maskRequestedPath(text: string, url: string): string {
+  const { pathname } = new URL(url);
+  const lastSegment = pathname.split('/').filter(Boolean).pop();
+  let masked = text;
+  for (const part of [pathname, lastSegment]) {
+    if (!part || part === '/') continue;
+    const lower = part.toLowerCase();
+    masked = masked.split(lower).join(' ');
+    try {
+      masked = masked.split(decodeURIComponent(lower)).join(' ');
+    } catch {
+      // Malformed escapes: the raw form was masked above.
+    }
+  }
+  return masked.replace(/\s+/g, ' ').trim();
+}
+
+export function isNotFoundTitle(title: string): boolean {
+  return NOT_FOUND_TITLE_PATTERNS.some(pattern => pattern.test(title));
+}
+
+/**
+ * Samples the body of a fetched page for soft-404 detection. Non-HTML bodies
+ * (images, PDFs, ...) are not read and come back with empty text.
+ */
+export async function samplePage(
+  url: string,
+  { response, finalUrl, chain }: RedirectFetchResult,
+  maxBytes = SOFT_404_MAX_BODY_BYTES
+): Promise<PageSample> {
+  const contentType = response.headers.get('content-type') ?? '';
+  const isHtml = !contentType || /html|xml|text\/plain/i.test(contentType);
+  const html = isHtml ? await readBodyPrefix(response, maxBytes) : '';
+  if (!isHtml) await response.body?.cancel().catch(() => {});
+  return {
+    url,
+    finalUrl,
+    status: response.status,
+    redirected: chain.length > 0,
+    title: extractTitle(html),
+    text: extractText(html),
+  };
+}
+
+function shingles(text: string, size = 3): Set<string> {
+  const words = text.split(' ').filter(Boolean);
+  const result = new Set<string>();
+  if (words.length < size) {
+    if (words.length > 0) result.add(words.join(' '));
+    return result;
+  }
+  for (let i = 0; i + size <= words.length; i++) {
+    result.add(words.slice(i, i + size).join(' '));
+  }
+  return result;
+}
+
+/**
+ * Jaccard similarity (0-1) of the word 3-shingles of two page texts. Pages
+ * rendered from the same template with a different URL echoed in them stay
+ * close to 1.
+ */
+export function contentSimilarity(a: string, b: string): number {
+  const left = shingles(a);
+  const right = shingles(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  for (const shingle of left) if (right.has(shingle)) shared++;
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Flags 2xx pages that are really "not found" templates. A page counts as a
+ * soft 404 when its title reads like one, or when its content matches what the
+ * same host serves for a random path that cannot exist. Probes are made once
+ * per origin and shared by every URL of a job.
+ */
+export class Soft404Detector {
+  private readonly probes = new Map<string, Promise<PageSample | null>>();
+
+  constructor(
+    private readonly fetchSample: (url: string, signal?: AbortSignal) => Promise<PageSample>
+  ) {}
+
+  async detect(page: PageSample, signal?: AbortSignal): Promise<Soft404Signal | undefined> {
+    if (page.status < 200 || page.status >= 300) return undefined;
+    if (page.title && isNotFoundTitle(page.title)) {
+      return { reason: 'title', title: page.title };
+    }
+    if (!page.text) return undefined;
+
+    const probe = await this.probe(page.url, signal);
+    if (!probe || probe.status < 200 || probe.status >= 300 || !probe.text) return undefined;
+    // The host redirects unknown paths here (typically the home page), so
+    // requesting this page directly is not a miss.
+    if (probe.redirected && !page.redirected && probe.finalUrl === page.finalUrl) return undefined;
+
+    const similarity = contentSimilarity(
+      maskRequestedPath(page.text, page.url),
+      maskRequestedPath(probe.text, probe.url)
+    );
+    if (similarity < PROBE_SIMILARITY_THRESHOLD) return undefined;
+    return { reason: 'probe', title: page.title, similarity: Math.round(similarity * 100) / 100, probeUrl: probe.url };
+  }
+
+  private probe(url: string, signal?: AbortSignal): Promise<PageSample | null> {
+    const { origin } = new URL(url);
+    let probe = this.probes.get(origin);
+    if (!probe) {
+      const probeUrl = `${origin}/${crypto.randomUUID()}`;
+      probe = this.fetchSample(probeUrl, signal).catch(() => null);
+      this.probes.set(origin, probe);
+    }
+    return probe;
+  }
+}
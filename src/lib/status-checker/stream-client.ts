@@ -0,0 +1,19 @@
+import { fetchServerSentEvents } from '@/lib/sse';
+import type { StatusCheckOptions } from '@/lib/status-checker/options';
+import type { StatusCheckEvent } from '@/lib/status-checker/types';
+
+type StreamUrlStatusesOptions = {
+  signal?: AbortSignal;
+  options?: StatusCheckOptions;
+  onEvent: (event: StatusCheckEvent) => void;
+};
+
+/**
+ * Runs a job on the `/api/status-check` stream; see `fetchServerSentEvents`.
+ */
+export async function streamUrlStatuses(
+  urls: string[],
+  { signal, options, onEvent }: StreamUrlStatusesOptions
+): Promise<void> {
+  await fetchServerSentEvents<StatusCheckEvent>('/api/status-check', { urls, options }, { signal, onEvent, failure: 'Status check failed.' });
+}
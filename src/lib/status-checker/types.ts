@@ -0,0 +1,57 @@
+export type RedirectHop = {
+  url: string;
+  status: number;
+  location: string;
+  responseTime: number;
+};
+
+export type NetworkErrorKind =
+  | 'dns'
+  | 'connection-refused'
+  | 'tls'
+  | 'timeout'
+  | 'reset'
+  | 'invalid-url'
+  | 'redirect-loop'
+  | 'unknown';
+
+// Why a 2xx page was judged to be a "not found" page.
+export type Soft404Signal = {
+  reason: 'title' | 'probe'; // Title reads like a 404, or content matches a random-path probe
+  title?: string;
+  similarity?: number; // 0-1 similarity to the probe, for `probe`
+  probeUrl?: string;
+};
+
+export type UrlStatusResult = {
+  url: string;
+  finalUrl: string;
+  status: number;
+  statusText: string;
+  responseTime: number;
+  error?: string;
+  errorKind?: NetworkErrorKind; // Set whenever `error` is
+  method?: string; // Which method worked
+  attempts?: number; // Tries made, including retries
+  redirectChain: RedirectHop[]; // Every redirect followed to reach finalUrl, in order
+  retryAfterMs?: number; // Parsed Retry-After header of a 429/503 response
+  pageTitle?: string; // Only when content inspection is on
+  soft404?: Soft404Signal; // Set when a 2xx page looks like a "not found" page
+};
+
+export type StatusCheckProgress = {
+  completed: number;
+  total: number;
+  elapsedMs: number;
+  etaMs: number | null;
+};
+
+/**
+ * Events emitted by the `/api/status-check` stream, one per SSE message. The
+ * SSE `event:` field always matches `type`.
+ */
+export type StatusCheckEvent =
+  | { type: 'result'; index: number; result: UrlStatusResult }
+  | ({ type: 'progress' } & StatusCheckProgress)
+  | { type: 'done'; completed: number; total: number; elapsedMs: number }
+  | { type: 'error'; message: string };
@@ -0,0 +1,131 @@
+import { batchMaliciousURLFlagging } from '@/ai/flows/batch-malicious-url-flagging';
+import {
+  intelligentMaliciousURLFlagging,
+  type IntelligentMaliciousURLFlaggingOutput,
+} from '@/ai/flows/intelligent-malicious-url-flagging';
+import { checkLocally, failedAnalysisVerdict, recordModelVerdict } from '@/lib/threat/check-url';
+import type { HeuristicScan } from '@/lib/threat/heuristics';
+import { classifyModelError, getRetryDelayMs, isRateLimitError, toModelUrl, withModelTimeout } from '@/lib/threat/model-errors';
+import type { ThreatScanProgress } from '@/lib/threat/scan-events';
+import { DEFAULT_THREAT_SCAN_OPTIONS, type ThreatScanOptions } from '@/lib/threat/scan-options';
+import type { ThreatVerdict } from '@/lib/threat/verdict';
+import { sleep } from '@/lib/utils';
+
+export type RunThreatScanOptions = {
+  signal?: AbortSignal;
+  options?: ThreatScanOptions;
+  onVerdict?: (verdict: ThreatVerdict, index: number) => void;
+  onProgress?: (progress: ThreatScanProgress) => void;
+  onRateLimited?: (retryInMs: number) => void;
+};
+
+// How often one batch is retried after a rate-limit or quota error.
+const MAX_RATE_LIMIT_RETRIES = 4;
+// Pause when the error gives no retry delay; doubled for each further retry.
+const DEFAULT_RATE_LIMIT_PAUSE_MS = 10_000;
+const MAX_RATE_LIMIT_PAUSE_MS = 120_000;
+
+type PendingUrl = { index: number; url: string; scan: HeuristicScan };
+
+// One verdict per URL, in order; undefined where a batch answer left a URL out.
+async function askModel(urls: string[], model?: string): Promise<(IntelligentMaliciousURLFlaggingOutput | undefined)[]> {
+  if (urls.length === 1) return [await withModelTimeout(intelligentMaliciousURLFlagging({ url: toModelUrl(urls[0]), model }))];
+  const { verdicts } = await withModelTimeout(batchMaliciousURLFlagging({ urls, model }));
+  const byIndex = new Map(verdicts.map(({ index, ...verdict }) => [index, verdict]));
+  return urls.map((_, index) => byIndex.get(index));
+}
+
+/**
+ * Scans URLs for threats. Feeds, local rules and the verdict cache settle what
+ * they can straight away; the rest is packed into prompts of `batchSize` URLs
+ * with at most `concurrency` model calls in flight. A rate-limit or quota
+ * error pauses every worker for the provider's retry delay. Verdicts are
+ * reported through `onVerdict` as soon as each URL is settled.
+ */
+export async function runThreatScan(
+  urls: string[],
+  { signal, options = DEFAULT_THREAT_SCAN_OPTIONS, onVerdict, onProgress, onRateLimited }: RunThreatScanOptions = {}
+): Promise<{ completed: number; modelCalls: number }> {
+  const startTime = Date.now();
+  let completed = 0;
+  let modelCalls = 0;
+  let pausedUntil = 0;
+
+  const record = (verdict: ThreatVerdict, index: number) => {
+    completed++;
+    onVerdict?.(verdict, index);
+
+    const elapsedMs = Date.now() - startTime;
+    const remaining = urls.length - completed;
+    onProgress?.({
+      completed,
+      total: urls.length,
+      elapsedMs,
+      etaMs: remaining > 0 ? Math.round((elapsedMs / completed) * remaining) : 0,
+      modelCalls,
+    });
+  };
+
+  const pending: PendingUrl[] = [];
+  for (const [index, url] of urls.entries()) {
+    if (signal?.aborted) break;
+    const { scan, verdict } = await checkLocally(url, { forceRescan: options.forceRescan, model: options.model });
+    if (verdict) record(verdict, index);
+    else pending.push({ index, url, scan });
+  }
+
+  const queue: PendingUrl[][] = [];
+  for (let i = 0; i < pending.length; i += options.batchSize) {
+    queue.push(pending.slice(i, i + options.batchSize));
+  }
+
+  const classify = async (batch: PendingUrl[]): Promise<void> => {
+    for (let attempt = 0; ; attempt++) {
+      const waitMs = pausedUntil - Date.now();
+      if (waitMs > 0) await sleep(waitMs, signal);
+      if (signal?.aborted) return;
+
+      let answers: (IntelligentMaliciousURLFlaggingOutput | undefined)[];
+      try {
+        modelCalls++;
+        answers = await askModel(batch.map((item) => item.url), options.model);
+      } catch (error) {
+        if (isRateLimitError(error) && attempt < MAX_RATE_LIMIT_RETRIES) {
+          const pauseMs = Math.min(getRetryDelayMs(error) ?? DEFAULT_RATE_LIMIT_PAUSE_MS * 2 ** attempt, MAX_RATE_LIMIT_PAUSE_MS);
+          pausedUntil = Math.max(pausedUntil, Date.now() + pauseMs);
+          onRateLimited?.(pauseMs);
+          continue;
+        }
+        // A long batch answer that does not fit the schema is often one bad
+        // entry; asking about each URL alone salvages the rest.
+        if (batch.length > 1 && classifyModelError(error).kind === 'schema') {
+          for (const item of batch) await classify([item]);
+          return;
+        }
+        console.error(`Threat scan of ${batch.length} URL(s) failed:`, error);
+        batch.forEach((item) => record(failedAnalysisVerdict(item.scan, error), item.index));
+        return;
+      }
+      if (signal?.aborted) return;
+
+      const missing: PendingUrl[] = [];
+      for (const [i, item] of batch.entries()) {
+        const answer = answers[i];
+        if (answer) record(await recordModelVerdict(item.url, item.scan, answer, options.model), item.index);
+        else missing.push(item);
+      }
+      // URLs a batch answer skipped are asked about one at a time.
+      for (const item of missing) await classify([item]);
+      return;
+    }
+  };
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      await classify(queue.shift()!);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, queue.length) }, worker));
+
+  return { completed, modelCalls };
+}
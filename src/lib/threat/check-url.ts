@@ -0,0 +1,73 @@
+import type { IntelligentMaliciousURLFlaggingOutput } from '@/ai/flows/intelligent-malicious-url-flagging';
+import { getDefaultModel } from '@/ai/model-config';
+import { toFeedVerdict } from '@/lib/threat/feed-index';
+import { getFeedIndex } from '@/lib/threat/feed-store';
+import {
+  isDecisive,
+  mergeWithModelVerdict,
+  scanUrlHeuristics,
+  toHeuristicVerdict,
+  type HeuristicScan,
+} from '@/lib/threat/heuristics';
+import { classifyModelError } from '@/lib/threat/model-errors';
+import { ANALYSIS_ERROR_LABELS, type ThreatVerdict } from '@/lib/threat/verdict';
+import { getVerdictCache } from '@/lib/threat/verdict-cache';
+
+export type LocalCheck = {
+  scan: HeuristicScan;
+  verdict: ThreatVerdict | null; // Null when only the model can settle the URL
+};
+
+// Cached verdicts are kept per model; no model means the configured default.
+const cacheModel = (model?: string) => model || getDefaultModel();
+
+/**
+ * Everything short of the model: imported feeds first, then the local rules,
+ * then the verdict cache (skipped with `forceRescan`). Only verdicts `model`
+ * gave are taken from the cache.
+ */
+export async function checkLocally(
+  url: string,
+  { forceRescan = false, model }: { forceRescan?: boolean; model?: string } = {}
+): Promise<LocalCheck> {
+  const scan = scanUrlHeuristics(url);
+  const feedIndex = await getFeedIndex();
+  const feedVerdict = toFeedVerdict(feedIndex.lookup(url), scan);
+  if (feedVerdict) return { scan, verdict: feedVerdict };
+  if (isDecisive(scan)) return { scan, verdict: toHeuristicVerdict(scan) };
+
+  if (!forceRescan) {
+    const cached = await getVerdictCache().get(url, cacheModel(model));
+    if (cached) return { scan, verdict: { ...cached.verdict, cachedAt: cached.cachedAt } };
+  }
+  return { scan, verdict: null };
+}
+
+/**
+ * Merges the local signals into the verdict of `model` and caches the result
+ * under that model.
+ */
+export async function recordModelVerdict(
+  url: string,
+  scan: HeuristicScan,
+  answer: IntelligentMaliciousURLFlaggingOutput,
+  model?: string
+): Promise<ThreatVerdict> {
+  const verdict = mergeWithModelVerdict(scan, answer);
+  await getVerdictCache().set(url, cacheModel(model), verdict);
+  return verdict;
+}
+
+/**
+ * Used when the model could not produce a verdict. The local rules still score
+ * the URL, but the verdict carries the classified error so the UI reports a
+ * failed analysis instead of a clean result. Never cached.
+ */
+export function failedAnalysisVerdict(scan: HeuristicScan, error: unknown): ThreatVerdict {
+  const analysisError = classifyModelError(error);
+  const verdict = toHeuristicVerdict(
+    scan,
+    `Model analysis failed (${ANALYSIS_ERROR_LABELS[analysisError.kind]}).${scan.evidence.length > 0 ? ' This verdict is from local rules only.' : ''}`
+  );
+  return { ...verdict, category: verdict.evidence.length > 0 ? verdict.category : 'unknown', confidence: 'low', error: analysisError };
+}
@@ -0,0 +1,271 @@
+import { splitCsvLine } from '@/lib/threat/feed-parsers';
+import { THREAT_CATEGORY_LABELS, isThreat, type ThreatCategory, type ThreatVerdict } from '@/lib/threat/verdict';
+
+// What a dataset may label a URL as; `unknown` is an answer, not a label.
+export type ExpectedCategory = Exclude<ThreatCategory, 'unknown'>;
+
+export const EXPECTED_CATEGORIES: ExpectedCategory[] = ['phishing', 'malware', 'scam', 'spam', 'adult', 'benign'];
+
+export type LabeledUrl = {
+  url: string;
+  expected: ExpectedCategory;
+  note?: string;
+};
+
+// What the classifier answered for one URL, reduced to a label. A verdict that
+// is not a threat counts as `benign` whatever its category; `error` means the
+// model gave no answer.
+export type PredictedCategory = ThreatCategory | 'error';
+
+export type EvaluationSample = LabeledUrl & {
+  predicted: PredictedCategory;
+  verdict: ThreatVerdict;
+};
+
+export type BinaryMetrics = {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  accuracy: number;
+};
+
+export type CategoryMetrics = {
+  category: ExpectedCategory;
+  support: number; // URLs labeled with the category
+  detected: number; // Of those, flagged as a threat of any category
+  precision: number;
+  recall: number;
+  f1: number;
+};
+
+export type EvaluationReport = {
+  total: number;
+  errors: number;
+  binary: BinaryMetrics;
+  categories: CategoryMetrics[];
+  // confusion[expected][predicted] = count
+  confusion: Record<ExpectedCategory, Record<PredictedCategory, number>>;
+  mistakes: EvaluationSample[];
+};
+
+const PREDICTED_CATEGORIES: PredictedCategory[] = [...EXPECTED_CATEGORIES, 'unknown', 'error'];
+
+const isExpectedCategory = (value: string): value is ExpectedCategory =>
+  (EXPECTED_CATEGORIES as string[]).includes(value);
+
+// Labels such as "malicious" or "safe" say whether a URL is a threat but not
+// which kind, so they are rejected rather than guessed at.
+function parseLabel(raw: string, where: string): ExpectedCategory {
+  const label = raw.trim().toLowerCase();
+  if (!isExpectedCategory(label)) {
+    throw new Error(`${where}: unknown label "${raw}"; expected one of ${EXPECTED_CATEGORIES.join(', ')}.`);
+  }
+  return label;
+}
+
+function parseUrl(raw: unknown, where: string): string {
+  if (typeof raw !== 'string' || !URL.canParse(raw.trim())) throw new Error(`${where}: missing or invalid URL.`);
+  return raw.trim();
+}
+
+function parseJsonLines(text: string, fileName: string): LabeledUrl[] {
+  const samples: LabeledUrl[] = [];
+  for (const [index, line] of text.split(/\r?\n/).entries()) {
+    if (!line.trim() || line.trimStart().startsWith('//')) continue;
+    const where = `${fileName}:${index + 1}`;
+    let row: { url?: unknown; expected?: unknown; note?: unknown };
+    try {
+      row = JSON.parse(line);
+    } catch {
+      throw new Error(`${where}: not valid JSON.`);
+    }
+    samples.push({
+      url: parseUrl(row.url, where),
+      expected: parseLabel(String(row.expected ?? ''), where),
+      ...(typeof row.note === 'string' && row.note ? { note: row.note } : {}),
+    });
+  }
+  return samples;
+}
+
+// CSV datasets need a header row with `url` and `expected` (or `label`) columns.
+function parseCsvDataset(text: string, fileName: string): LabeledUrl[] {
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() && !line.startsWith('#'));
+  const header = splitCsvLine(lines[headerIndex] ?? '').map((cell) => cell.toLowerCase());
+  const urlColumn = header.indexOf('url');
+  const labelColumn = header.findIndex((cell) => cell === 'expected' || cell === 'label');
+  const noteColumn = header.indexOf('note');
+  if (urlColumn === -1 || labelColumn === -1) {
+    throw new Error(`${fileName}: the header row needs "url" and "expected" columns.`);
+  }
+
+  const samples: LabeledUrl[] = [];
+  for (let index = headerIndex + 1; index < lines.length; index++) {
+    const line = lines[index];
+    if (!line.trim() || line.startsWith('#')) continue;
+    const cells = splitCsvLine(line);
+    const where = `${fileName}:${index + 1}`;
+    samples.push({
+      url: parseUrl(cells[urlColumn], where),
+      expected: parseLabel(cells[labelColumn] ?? '', where),
+      ...(noteColumn !== -1 && cells[noteColumn] ? { note: cells[noteColumn] } : {}),
+    });
+  }
+  return samples;
+}
+
+/**
+ * Parses a labeled dataset: JSON Lines (`{"url": ..., "expected": "phishing"}`)
+ * or, for `.csv` files, CSV with `url` and `expected` columns. Throws on the
+ * first malformed row, naming the file and line.
+ */
+export function parseEvaluationDataset(fileName: string, text: string): LabeledUrl[] {
+  const samples = fileName.toLowerCase().endsWith('.csv') ? parseCsvDataset(text, fileName) : parseJsonLines(text, fileName);
+  if (samples.length === 0) throw new Error(`${fileName}: no labeled URLs.`);
+  return samples;
+}
+
+/**
+ * Reduces a verdict to the label it is scored as.
+ */
+export function toPredictedCategory(verdict: ThreatVerdict): PredictedCategory {
+  if (verdict.error) return 'error';
+  return isThreat(verdict) ? verdict.category : 'benign';
+}
+
+const ratio = (numerator: number, denominator: number) => (denominator === 0 ? 0 : numerator / denominator);
+const f1Score = (precision: number, recall: number) => ratio(2 * precision * recall, precision + recall);
+
+/**
+ * Scores classifier answers against their labels. The binary metrics treat
+ * every non-benign label as positive and ask only whether the URL was flagged;
+ * the per-category metrics also require the right category. Failed analyses
+ * are counted separately and left out of both.
+ */
+export function computeEvaluationReport(samples: EvaluationSample[]): EvaluationReport {
+  const confusion = Object.fromEntries(
+    EXPECTED_CATEGORIES.map((expected) => [expected, Object.fromEntries(PREDICTED_CATEGORIES.map((predicted) => [predicted, 0]))])
+  ) as EvaluationReport['confusion'];
+  samples.forEach((sample) => confusion[sample.expected][sample.predicted]++);
+
+  const answered = samples.filter((sample) => sample.predicted !== 'error');
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let trueNegatives = 0;
+  for (const sample of answered) {
+    const actual = sample.expected !== 'benign';
+    const flagged = sample.predicted !== 'benign';
+    if (actual && flagged) truePositives++;
+    else if (flagged) falsePositives++;
+    else if (actual) falseNegatives++;
+    else trueNegatives++;
+  }
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+
+  const categories = EXPECTED_CATEGORIES.map((category): CategoryMetrics => {
+    const labeled = answered.filter((sample) => sample.expected === category);
+    const correct = labeled.filter((sample) => sample.predicted === category).length;
+    const predicted = answered.filter((sample) => sample.predicted === category).length;
+    const categoryPrecision = ratio(correct, predicted);
+    const categoryRecall = ratio(correct, labeled.length);
+    return {
+      category,
+      support: labeled.length,
+      detected: labeled.filter((sample) => sample.predicted !== 'benign').length,
+      precision: categoryPrecision,
+      recall: categoryRecall,
+      f1: f1Score(categoryPrecision, categoryRecall),
+    };
+  });
+
+  return {
+    total: samples.length,
+    errors: samples.length - answered.length,
+    binary: {
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      trueNegatives,
+      precision,
+      recall,
+      f1: f1Score(precision, recall),
+      accuracy: ratio(truePositives + trueNegatives, answered.length),
+    },
+    categories,
+    confusion,
+    mistakes: samples.filter((sample) => sample.predicted !== sample.expected),
+  };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function table(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows.map((row) => row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join('  ')).join('\n');
+}
+
+/**
+ * Renders a report as plain text for the terminal, listing at most
+ * `maxMistakes` misclassified URLs.
+ */
+export function formatEvaluationReport(report: EvaluationReport, { maxMistakes = 20 }: { maxMistakes?: number } = {}): string {
+  const { binary } = report;
+  const predictedColumns = PREDICTED_CATEGORIES.filter(
+    // `Unknown` and `Error` columns only when something landed in them.
+    (predicted) => (predicted !== 'unknown' && predicted !== 'error') || EXPECTED_CATEGORIES.some((expected) => report.confusion[expected][predicted] > 0)
+  );
+  const columnLabel = (predicted: PredictedCategory) => (predicted === 'error' ? 'Error' : THREAT_CATEGORY_LABELS[predicted]);
+
+  const sections = [
+    `URLs: ${report.total}${report.errors > 0 ? ` (${report.errors} failed analyses, not scored)` : ''}`,
+    [
+      'Threat vs. benign',
+      `  Precision ${percent(binary.precision)}   Recall ${percent(binary.recall)}   F1 ${percent(binary.f1)}   Accuracy ${percent(binary.accuracy)}`,
+      `  TP ${binary.truePositives}   FP ${binary.falsePositives}   FN ${binary.falseNegatives}   TN ${binary.trueNegatives}`,
+    ].join('\n'),
+    [
+      'Per category',
+      table([
+        ['Category', 'Support', 'Detected', 'Precision', 'Recall', 'F1'],
+        ...report.categories
+          .filter((metrics) => metrics.support > 0)
+          .map((metrics) => [
+            THREAT_CATEGORY_LABELS[metrics.category],
+            String(metrics.support),
+            metrics.category === 'benign' ? '-' : percent(ratio(metrics.detected, metrics.support)),
+            percent(metrics.precision),
+            percent(metrics.recall),
+            percent(metrics.f1),
+          ]),
+      ]).replace(/^/gm, '  '),
+    ].join('\n'),
+    [
+      'Confusion matrix (rows: expected, columns: predicted)',
+      table([
+        ['', ...predictedColumns.map(columnLabel)],
+        ...EXPECTED_CATEGORIES.filter((expected) => Object.values(report.confusion[expected]).some(Boolean)).map((expected) => [
+          THREAT_CATEGORY_LABELS[expected],
+          ...predictedColumns.map((predicted) => String(report.confusion[expected][predicted])),
+        ]),
+      ]).replace(/^/gm, '  '),
+    ].join('\n'),
+  ];
+
+  if (report.mistakes.length > 0) {
+    sections.push([
+      `Misclassified (${report.mistakes.length})`,
+      ...report.mistakes.slice(0, maxMistakes).map((sample) =>
+        `  ${sample.url}\n    expected ${sample.expected}, got ${sample.predicted} (risk ${sample.verdict.riskScore})${sample.verdict.error ? `: ${sample.verdict.error.message}` : ''}`
+      ),
+      ...(report.mistakes.length > maxMistakes ? [`  ... and ${report.mistakes.length - maxMistakes} more`] : []),
+    ].join('\n'));
+  }
+  return sections.join('\n\n');
+}
@@ -0,0 +1,145 @@
+import type { FeedEntry, FeedFormat, ParsedFeed } from '@/lib/threat/feed-parsers';
+import type { HeuristicScan } from '@/lib/threat/heuristics';
+import type { ThreatCategory, ThreatEvidence, ThreatVerdict } from '@/lib/threat/verdict';
+import { canonicalizeUrl, parseUrlLoose } from '@/lib/url-canonicalize';
+
+export type FeedKind = 'block' | 'allow';
+
+export type ThreatFeed = {
+  name: string; // File name, shown as evidence
+  kind: FeedKind;
+  format: FeedFormat;
+  category: ThreatCategory; // Category reported for blocklist hits
+  entries: number;
+  skipped: number;
+};
+
+export type FeedMatch = {
+  feed: ThreatFeed;
+  kind: FeedKind; // May differ from `feed.kind` for Adblock exception rules
+  entry: string; // The feed entry that matched
+};
+
+export type FeedLookup = {
+  allow: FeedMatch[];
+  block: FeedMatch[];
+};
+
+type IndexedEntry = { feed: ThreatFeed; kind: FeedKind; entry: string };
+
+// Blocklist file name keyword -> category reported for its hits.
+const CATEGORY_KEYWORDS: [RegExp, ThreatCategory][] = [
+  [/phish/i, 'phishing'],
+  [/urlhaus|malware|ransom|botnet/i, 'malware'],
+  [/scam|fraud/i, 'scam'],
+  [/spam/i, 'spam'],
+  [/adult|porn|nsfw/i, 'adult'],
+];
+
+export function categoryForFeed(name: string): ThreatCategory {
+  return CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(name))?.[1] ?? 'unknown';
+}
+
+/**
+ * In-memory lookup over every imported feed. Domains are matched on the host
+ * and each of its parent domains, URLs on their canonical form, so a lookup
+ * costs a handful of map reads however large the feeds are.
+ */
+export class FeedIndex {
+  readonly feeds: ThreatFeed[] = [];
+  private readonly domains = new Map<string, IndexedEntry[]>();
+  private readonly urls = new Map<string, IndexedEntry[]>();
+  private readonly prefixes = new Map<string, { prefix: string; match: IndexedEntry }[]>();
+
+  add(name: string, kind: FeedKind, parsed: ParsedFeed): ThreatFeed {
+    const feed: ThreatFeed = {
+      name,
+      kind,
+      format: parsed.format,
+      category: kind === 'block' ? categoryForFeed(name) : 'benign',
+      entries: parsed.entries.length,
+      skipped: parsed.skipped,
+    };
+    this.feeds.push(feed);
+    for (const entry of parsed.entries) this.addEntry(feed, entry);
+    return feed;
+  }
+
+  private addEntry(feed: ThreatFeed, { type, value, exception }: FeedEntry) {
+    const indexed: IndexedEntry = { feed, kind: exception ? 'allow' : feed.kind, entry: value };
+    if (type === 'url-prefix') {
+      const host = value.split(/[/?#]/)[0];
+      const list = this.prefixes.get(host) ?? [];
+      list.push({ prefix: value, match: indexed });
+      this.prefixes.set(host, list);
+      return;
+    }
+    const map = type === 'domain' ? this.domains : this.urls;
+    const list = map.get(value) ?? [];
+    list.push(indexed);
+    map.set(value, list);
+  }
+
+  get size(): number {
+    return this.feeds.reduce((total, feed) => total + feed.entries, 0);
+  }
+
+  lookup(raw: string): FeedLookup {
+    const result: FeedLookup = { allow: [], block: [] };
+    const url = parseUrlLoose(raw);
+    if (!url) return result;
+
+    const matches: IndexedEntry[] = [];
+    const labels = url.hostname.split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+      matches.push(...(this.domains.get(labels.slice(i).join('.')) ?? []));
+    }
+
+    const key = canonicalizeUrl(raw);
+    matches.push(...(this.urls.get(key) ?? []));
+    const host = key.split(/[/?#]/)[0];
+    for (const { prefix, match } of this.prefixes.get(host) ?? []) {
+      if (key.startsWith(prefix)) matches.push(match);
+    }
+
+    for (const { feed, kind, entry } of matches) {
+      result[kind].push({ feed, kind, entry });
+    }
+    return result;
+  }
+}
+
+const toEvidence = ({ feed, kind, entry }: FeedMatch): ThreatEvidence => ({
+  signal: kind === 'allow' ? 'Allowlisted' : 'Listed in threat feed',
+  detail: `${feed.name} lists ${entry}`,
+  source: 'feed',
+});
+
+/**
+ * The verdict for a URL that a feed settles, or null when no feed lists it.
+ * Allowlists win over blocklists (and, since the model is never asked, over
+ * the model); local rule signals are kept as evidence on blocklist hits.
+ */
+export function toFeedVerdict(lookup: FeedLookup, scan: HeuristicScan): ThreatVerdict | null {
+  if (lookup.allow.length > 0) {
+    return {
+      riskScore: 0,
+      category: 'benign',
+      confidence: 'high',
+      evidence: lookup.allow.map(toEvidence),
+      summary: `Allowlisted by ${lookup.allow[0].feed.name}.`,
+      source: 'feed',
+    };
+  }
+  if (lookup.block.length === 0) return null;
+
+  const feedNames = Array.from(new Set(lookup.block.map((match) => match.feed.name)));
+  return {
+    riskScore: 100,
+    category: lookup.block.find((match) => match.feed.category !== 'unknown')?.feed.category ?? scan.category,
+    confidence: 'high',
+    evidence: [...lookup.block.map(toEvidence), ...scan.evidence],
+    summary: `Listed in ${feedNames.join(', ')}.`,
+    source: 'feed',
+  };
+}
@@ -0,0 +1,192 @@
+import { canonicalizeUrl, parseUrlLoose } from '@/lib/url-canonicalize';
+
+export type FeedFormat = 'domains' | 'hosts' | 'urls' | 'csv' | 'adblock';
+
+/**
+ * One indexed feed line. `domain` entries also cover every subdomain; `url`
+ * entries match a canonical URL exactly and `url-prefix` entries any canonical
+ * URL that starts with them. `exception` marks Adblock `@@` rules, which
+ * allow what the rest of the feed blocks.
+ */
+export type FeedEntry = {
+  type: 'domain' | 'url' | 'url-prefix';
+  value: string;
+  exception?: boolean;
+};
+
+export type ParsedFeed = {
+  format: FeedFormat;
+  entries: FeedEntry[];
+  skipped: number; // Non-comment lines that could not be parsed
+};
+
+const HOSTS_LINE_RE = /^(?:0\.0\.0\.0|127\.0\.0\.1|::1?|::)\s+\S/;
+const DOMAIN_RE = /^(?:\*\.)?(?:[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9_])?\.)+[a-z0-9-]{2,63}\.?$/i;
+const HOSTS_LOCAL_NAMES = new Set(['localhost', 'localhost.localdomain', 'local', 'broadcasthost', 'ip6-localhost', 'ip6-loopback', '0.0.0.0']);
+
+const isComment = (line: string) => line.startsWith('#') || line.startsWith('!') || line.startsWith('//');
+
+function normalizeDomain(raw: string): string | null {
+  const domain = raw.trim().toLowerCase().replace(/^\*\./, '').replace(/\.$/, '');
+  if (!DOMAIN_RE.test(domain)) return null;
+  // Punycode, matching hostnames from the URL parser.
+  return parseUrlLoose(domain)?.hostname ?? null;
+}
+
+const canonical = (raw: string) => canonicalizeUrl(raw);
+
+/**
+ * Guesses the format of a feed from its file name and first meaningful lines.
+ */
+export function detectFeedFormat(fileName: string, text: string): FeedFormat {
+  const lowerName = fileName.toLowerCase();
+  const sample = text
+    .split(/\r?\n/, 200)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  if (sample.some((line) => /^\[adblock/i.test(line) || line.startsWith('||') || line.startsWith('@@'))) return 'adblock';
+  const lines = sample.filter((line) => !isComment(line));
+  if (lowerName.endsWith('.csv') || lines.some((line) => /^"[^"]*"\s*,/.test(line))) return 'csv';
+  if (lines.length > 0 && lines.filter((line) => HOSTS_LINE_RE.test(line)).length >= lines.length / 2) return 'hosts';
+  if (lines.some((line) => /^[a-z][a-z0-9+.-]*:\/\//i.test(line))) return 'urls';
+  return 'domains';
+}
+
+function parseLines(
+  text: string,
+  parseLine: (line: string) => FeedEntry | null | 'ignore'
+): { entries: FeedEntry[]; skipped: number } {
+  const entries: FeedEntry[] = [];
+  let skipped = 0;
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || isComment(line)) continue;
+    const entry = parseLine(line);
+    if (entry === 'ignore') continue;
+    if (entry) entries.push(entry);
+    else skipped++;
+  }
+  return { entries, skipped };
+}
+
+function parseDomainLine(line: string): FeedEntry | null {
+  const domain = normalizeDomain(line.split(/\s+/)[0]);
+  return domain ? { type: 'domain', value: domain } : null;
+}
+
+function parseHostsLine(line: string): FeedEntry | null | 'ignore' {
+  const [address, host] = line.replace(/#.*/, '').trim().split(/\s+/);
+  if (!address || !host) return null;
+  if (HOSTS_LOCAL_NAMES.has(host.toLowerCase())) return 'ignore';
+  const domain = normalizeDomain(host);
+  return domain ? { type: 'domain', value: domain } : null;
+}
+
+function parseUrlLine(line: string): FeedEntry | null {
+  const value = line.split(/\s+/)[0];
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) return parseDomainLine(line);
+  const url = parseUrlLoose(value);
+  if (!url) return null;
+  // A bare host ("http://evil.com/") blocks the whole host.
+  if (url.pathname === '/' && !url.search) return { type: 'domain', value: url.hostname };
+  return { type: 'url', value: canonical(value) };
+}
+
+// Basic rules only: `||host^`, `||host/path`, `|https://host/path|` and their
+// `@@` exceptions. Cosmetic (`##`) rules and patterns with wildcards are skipped.
+function parseAdblockLine(line: string): FeedEntry | null | 'ignore' {
+  if (line.startsWith('[') || line.includes('##') || line.includes('#@#') || line.includes('#?#')) return 'ignore';
+  const exception = line.startsWith('@@');
+  let rule = (exception ? line.slice(2) : line).replace(/\$.*$/, '');
+  if (rule.includes('*')) return null;
+
+  const entry = (e: FeedEntry): FeedEntry => (exception ? { ...e, exception } : e);
+  if (rule.startsWith('||')) {
+    rule = rule.slice(2).replace(/\^\|?$/, '').replace(/\|$/, '');
+    const slash = rule.search(/[/^?]/);
+    if (slash === -1) {
+      const domain = normalizeDomain(rule);
+      return domain ? entry({ type: 'domain', value: domain }) : null;
+    }
+    const domain = normalizeDomain(rule.slice(0, slash));
+    return domain ? entry({ type: 'url-prefix', value: canonical(`http://${domain}${rule.slice(slash).replace(/\^/g, '')}`) }) : null;
+  }
+  if (rule.startsWith('|')) {
+    const exact = rule.endsWith('|');
+    const url = rule.slice(1, exact ? -1 : undefined);
+    if (!parseUrlLoose(url)) return null;
+    return entry({ type: exact ? 'url' : 'url-prefix', value: canonical(url) });
+  }
+  const domain = normalizeDomain(rule.replace(/\^$/, ''));
+  return domain ? entry({ type: 'domain', value: domain }) : null;
+}
+
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+}
+
+// URLhaus and OpenPhish exports put the header in a comment (`# id,dateadded,url,...`)
+// or the first row; without a `url` column the first URL-looking cell is used.
+function parseCsv(text: string): { entries: FeedEntry[]; skipped: number } {
+  let urlColumn = -1;
+  for (const rawLine of text.split(/\r?\n/, 50)) {
+    const header = splitCsvLine(rawLine.replace(/^#\s*/, '').toLowerCase());
+    const index = header.findIndex((cell) => cell === 'url' || cell === 'phish_url' || cell === 'domain');
+    if (index !== -1) {
+      urlColumn = index;
+      break;
+    }
+  }
+
+  return parseLines(text, (line) => {
+    const cells = splitCsvLine(line);
+    if (urlColumn !== -1 && ['url', 'phish_url', 'domain'].includes(cells[urlColumn]?.toLowerCase())) return 'ignore';
+    const value = urlColumn !== -1
+      ? cells[urlColumn]
+      : cells.find((cell) => /^[a-z][a-z0-9+.-]*:\/\//i.test(cell) || DOMAIN_RE.test(cell));
+    return value ? parseUrlLine(value) : null;
+  });
+}
+
+/**
+ * Parses a feed file into lookup entries. The format is detected when not given.
+ */
+export function parseFeed(fileName: string, text: string, format = detectFeedFormat(fileName, text)): ParsedFeed {
+  switch (format) {
+    case 'hosts':
+      return { format, ...parseLines(text, parseHostsLine) };
+    case 'adblock':
+      return { format, ...parseLines(text, parseAdblockLine) };
+    case 'csv':
+      return { format, ...parseCsv(text) };
+    case 'urls':
+      return { format, ...parseLines(text, parseUrlLine) };
+    case 'domains':
+      return { format, ...parseLines(text, parseDomainLine) };
+  }
+}
@@ -0,0 +1,75 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+import { FeedIndex, type FeedKind } from '@/lib/threat/feed-index';
+import { parseFeed } from '@/lib/threat/feed-parsers';
+
+/**
+ * Feed files live under `THREAT_FEEDS_DIR` (default `./threat-feeds`):
+ * blocklists in `block/`, team allowlists in `allow/`. Any file there is
+ * imported; its format is detected from the name and content.
+ */
+export const THREAT_FEEDS_DIR = process.env.THREAT_FEEDS_DIR || path.join(process.cwd(), 'threat-feeds');
+
+const FEED_KINDS: FeedKind[] = ['block', 'allow'];
+
+// How often the feed directory is checked for added, changed or removed files.
+const RELOAD_CHECK_INTERVAL_MS = 10_000;
+
+type FeedFile = { kind: FeedKind; name: string; filePath: string; signature: string };
+
+let cached: { index: FeedIndex; signature: string } | null = null;
+let loading: Promise<FeedIndex> | null = null;
+let lastCheckedAt = 0;
+
+async function listFeedFiles(): Promise<FeedFile[]> {
+  const files: FeedFile[] = [];
+  for (const kind of FEED_KINDS) {
+    const dir = path.join(THREAT_FEEDS_DIR, kind);
+    const names = await readdir(dir).catch(() => [] as string[]);
+    for (const name of names.sort()) {
+      if (name.startsWith('.')) continue;
+      const filePath = path.join(dir, name);
+      const info = await stat(filePath).catch(() => null);
+      if (!info?.isFile()) continue;
+      files.push({ kind, name, filePath, signature: `${kind}/${name}:${info.size}:${info.mtimeMs}` });
+    }
+  }
+  return files;
+}
+
+async function buildIndex(files: FeedFile[]): Promise<FeedIndex> {
+  const index = new FeedIndex();
+  for (const file of files) {
+    try {
+      const text = await readFile(file.filePath, 'utf8');
+      const feed = index.add(file.name, file.kind, parseFeed(file.name, text));
+      console.log(`Threat feed ${file.kind}/${feed.name}: ${feed.entries} entries (${feed.format}, ${feed.skipped} skipped)`);
+    } catch (error) {
+      console.error(`Failed to import threat feed ${file.filePath}:`, error);
+    }
+  }
+  return index;
+}
+
+/**
+ * The index of every feed file, imported on first use and re-imported when
+ * the files change.
+ */
+export async function getFeedIndex(): Promise<FeedIndex> {
+  if (loading) return loading;
+  if (cached && Date.now() - lastCheckedAt < RELOAD_CHECK_INTERVAL_MS) return cached.index;
+
+  loading = (async () => {
+    lastCheckedAt = Date.now();
+    const files = await listFeedFiles();
+    const signature = files.map((file) => file.signature).join('|');
+    if (cached?.signature !== signature) {
+      cached = { index: await buildIndex(files), signature };
+    }
+    return cached.index;
+  })().finally(() => {
+    loading = null;
+  });
+  return loading;
+}
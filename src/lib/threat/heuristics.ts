@@ -0,0 +1,313 @@
+import { domainToUnicode } from 'node:url';
+
+import type { IntelligentMaliciousURLFlaggingOutput } from '@/ai/flows/intelligent-malicious-url-flagging';
+import { getPublicSuffix, getRegistrableDomain } from '@/lib/public-suffix';
+import type { ThreatCategory, ThreatEvidence, ThreatVerdict } from '@/lib/threat/verdict';
+import { parseUrlLoose } from '@/lib/url-canonicalize';
+
+/**
+ * Deterministic rules run on every URL before the model is asked. They can
+ * only make a URL look worse: a URL no rule matches is not thereby safe, so
+ * anything short of `HEURISTIC_DECISIVE_SCORE` still goes to the model.
+ */
+export const HEURISTIC_DECISIVE_SCORE = 70;
+
+export type HeuristicScan = {
+  riskScore: number;
+  category: ThreatCategory;
+  evidence: ThreatEvidence[];
+};
+
+type ScanTarget = {
+  url: URL;
+  raw: string;
+  unicodeHost: string;
+  registrableDomain: string | null;
+  subdomainLabels: string[];
+};
+
+type HeuristicRule = {
+  signal: string;
+  weight: number; // 0-1; weights of matching rules combine as independent odds
+  category?: ThreatCategory;
+  test: (target: ScanTarget) => string | null; // Evidence detail when the rule matches
+};
+
+const SUSPICIOUS_TLDS = new Set([
+  'zip', 'mov', 'xyz', 'top', 'tk', 'ml', 'ga', 'cf', 'gq', 'click', 'country', 'kim', 'work',
+  'support', 'rest', 'cam', 'icu', 'buzz', 'monster', 'loan', 'men', 'gdn', 'cfd', 'sbs', 'quest',
+]);
+
+const URL_SHORTENERS = new Set([
+  'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly', 'rebrand.ly', 'cutt.ly',
+  'shorturl.at', 'rb.gy', 'tiny.cc', 's.id', 't.ly', 'bl.ink', 'v.gd', 'shorte.st', 'adf.ly',
+]);
+
+// Brand keyword -> registrable domains that legitimately carry it.
+const BRAND_DOMAINS: Record<string, string[]> = {
+  paypal: ['paypal.com', 'paypal.me'],
+  apple: ['apple.com', 'icloud.com'],
+  icloud: ['icloud.com', 'apple.com'],
+  microsoft: ['microsoft.com', 'live.com', 'office.com', 'microsoftonline.com'],
+  office365: ['office.com', 'microsoft.com', 'office365.com'],
+  outlook: ['outlook.com', 'live.com', 'office.com'],
+  google: ['google.com', 'youtube.com', 'gmail.com'],
+  gmail: ['gmail.com', 'google.com'],
+  amazon: ['amazon.com', 'amazon.co.uk', 'amazon.de', 'amazon.fr', 'amazon.in', 'amazon.co.jp', 'amazonaws.com'],
+  netflix: ['netflix.com'],
+  facebook: ['facebook.com', 'fb.com'],
+  instagram: ['instagram.com'],
+  whatsapp: ['whatsapp.com', 'whatsapp.net'],
+  chase: ['chase.com'],
+  wellsfargo: ['wellsfargo.com'],
+  bankofamerica: ['bankofamerica.com'],
+  dhl: ['dhl.com', 'dhl.de'],
+  fedex: ['fedex.com'],
+  usps: ['usps.com'],
+  coinbase: ['coinbase.com'],
+  binance: ['binance.com'],
+  metamask: ['metamask.io'],
+};
+
+// Brand keywords at least this long also match inside longer words
+// ("paypalsecure"); shorter ones must be a whole token so "groups" is not "ups".
+const MIN_SUBSTRING_BRAND_LENGTH = 6;
+
+// Look-alike characters from other scripts, folded to the Latin letter they imitate.
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j',
+  'ԁ': 'd', 'ӏ': 'l', 'һ': 'h', 'ѕ': 's', 'ԛ': 'q', 'ԝ': 'w', 'к': 'k', 'м': 'm', 'т': 't', 'в': 'b', 'н': 'h',
+  'α': 'a', 'ο': 'o', 'ν': 'v', 'ρ': 'p', 'ι': 'i', 'κ': 'k', 'τ': 't', 'υ': 'u', 'ε': 'e',
+  'ɡ': 'g', 'ı': 'i', 'ℓ': 'l',
+};
+
+const IPV4_RE = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+const LATIN_RE = /[a-z]/i;
+const NON_LATIN_LETTER_RE = /[\u0370-\u03FF\u0400-\u052F]/; // Greek and Cyrillic
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+const tokenize = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+function skeleton(text: string): string {
+  return Array.from(text.toLowerCase(), (char) => CONFUSABLES[char] ?? char).join('');
+}
+
+/**
+ * Every well-known brand named in `text`, in the order of the brand list.
+ */
+export function findBrands(text: string): string[] {
+  const tokens = tokenize(text);
+  return Object.keys(BRAND_DOMAINS).filter((brand) =>
+    brand.length >= MIN_SUBSTRING_BRAND_LENGTH
+      ? tokens.some((token) => token.includes(brand))
+      : tokens.includes(brand)
+  );
+}
+
+function findBrand(text: string): string | null {
+  return findBrands(text)[0] ?? null;
+}
+
+export const isBrandDomain = (brand: string, registrableDomain: string | null) =>
+  registrableDomain !== null && BRAND_DOMAINS[brand].includes(registrableDomain);
+
+// Shannon entropy in bits per character.
+function entropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+const RULES: HeuristicRule[] = [
+  {
+    signal: 'IP address host',
+    weight: 0.5,
+    category: 'malware',
+    test: ({ url, raw }) => {
+      const host = url.hostname;
+      if (!IPV4_RE.test(host) && !host.startsWith('[')) return null;
+      // The URL parser turns decimal/hex/octal hosts into dotted quads.
+      const written = raw.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').split(/[/?#]/)[0].replace(/^.*@/, '').replace(/:\d*$/, '');
+      return written.toLowerCase() === host ? `Host is the IP address ${host}` : `Host ${written} is an obfuscated form of ${host}`;
+    },
+  },
+  {
+    signal: 'Credentials in authority',
+    weight: 0.6,
+    category: 'phishing',
+    test: ({ url }) =>
+      url.username || url.password
+        ? `"${safeDecode(url.username)}@" precedes the real host ${url.hostname}`
+        : null,
+  },
+  {
+    signal: 'Homoglyph domain',
+    weight: 0.6,
+    category: 'phishing',
+    test: ({ unicodeHost, registrableDomain }) => {
+      const mixed = unicodeHost.split('.').find((label) => LATIN_RE.test(label) && NON_LATIN_LETTER_RE.test(label));
+      if (mixed) return `"${mixed}" mixes Latin with look-alike letters from another script`;
+      if (!NON_LATIN_LETTER_RE.test(unicodeHost)) return null;
+      const brand = findBrand(skeleton(unicodeHost));
+      return brand && !isBrandDomain(brand, registrableDomain) ? `${unicodeHost} imitates "${brand}"` : null;
+    },
+  },
+  {
+    signal: 'Punycode domain',
+    weight: 0.3,
+    category: 'phishing',
+    test: ({ url, unicodeHost }) => (/(^|\.)xn--/i.test(url.hostname) ? `${url.hostname} displays as ${unicodeHost}` : null),
+  },
+  {
+    signal: 'Brand impersonation',
+    weight: 0.5,
+    category: 'phishing',
+    test: ({ url, registrableDomain, subdomainLabels }) => {
+      const hostBrand = findBrand(url.hostname);
+      if (hostBrand && !isBrandDomain(hostBrand, registrableDomain)) {
+        const where = subdomainLabels.some((label) => findBrand(label) === hostBrand) ? 'a subdomain of' : 'the domain';
+        return `"${hostBrand}" appears in ${where} ${registrableDomain ?? url.hostname}`;
+      }
+      return null;
+    },
+  },
+  {
+    signal: 'Brand keyword in path',
+    weight: 0.3,
+    category: 'phishing',
+    test: ({ url, registrableDomain }) => {
+      const brand = findBrand(safeDecode(url.pathname + url.search));
+      return brand && !isBrandDomain(brand, registrableDomain) && !findBrand(url.hostname)
+        ? `"${brand}" appears in the path of ${registrableDomain ?? url.hostname}`
+        : null;
+    },
+  },
+  {
+    signal: 'Excessive subdomains',
+    weight: 0.25,
+    test: ({ subdomainLabels }) =>
+      subdomainLabels.length >= 4 ? `${subdomainLabels.length} subdomain levels` : null,
+  },
+  {
+    signal: 'Suspicious TLD',
+    weight: 0.25,
+    category: 'spam',
+    test: ({ url }) => {
+      const suffix = getPublicSuffix(url.hostname);
+      return suffix && SUSPICIOUS_TLDS.has(suffix.split('.').pop()!) ? `.${suffix} is widely abused` : null;
+    },
+  },
+  {
+    signal: 'URL shortener',
+    weight: 0.2,
+    test: ({ registrableDomain }) =>
+      registrableDomain && URL_SHORTENERS.has(registrableDomain) ? `${registrableDomain} hides the destination` : null,
+  },
+  {
+    signal: 'Very long URL',
+    weight: 0.15,
+    test: ({ url }) => {
+      const length = url.pathname.length + url.search.length;
+      return length > 200 ? `Path and query are ${length} characters long` : null;
+    },
+  },
+  {
+    signal: 'High-entropy path',
+    weight: 0.2,
+    test: ({ url }) => {
+      const tokens = `${url.pathname}${url.search}`.split(/[/?&=]/).filter((token) => token.length >= 30);
+      const random = tokens.find((token) => entropy(token) >= 4.3);
+      return random ? `Random-looking token "${random.length > 40 ? `${random.slice(0, 40)}…` : random}"` : null;
+    },
+  },
+];
+
+/**
+ * Runs every rule against a URL. The risk score combines matching rule weights
+ * as independent probabilities; the category is that of the heaviest match.
+ */
+export function scanUrlHeuristics(raw: string): HeuristicScan {
+  const url = parseUrlLoose(raw);
+  if (!url) return { riskScore: 0, category: 'unknown', evidence: [] };
+
+  const registrableDomain = getRegistrableDomain(url.hostname);
+  const subdomainLabels = registrableDomain && url.hostname !== registrableDomain
+    ? url.hostname.slice(0, -registrableDomain.length - 1).split('.').filter((label) => label !== 'www')
+    : [];
+  const target: ScanTarget = {
+    url,
+    raw: raw.trim(),
+    // Empty when a punycode label does not decode; the host is then kept as is.
+    unicodeHost: domainToUnicode(url.hostname) || url.hostname,
+    registrableDomain,
+    subdomainLabels,
+  };
+
+  const matches = RULES.flatMap((rule) => {
+    const detail = rule.test(target);
+    return detail ? [{ rule, detail }] : [];
+  }).sort((a, b) => b.rule.weight - a.rule.weight);
+
+  const safeOdds = matches.reduce((odds, { rule }) => odds * (1 - rule.weight), 1);
+  return {
+    riskScore: Math.round((1 - safeOdds) * 100),
+    category: matches.find(({ rule }) => rule.category)?.rule.category ?? 'unknown',
+    evidence: matches.map(({ rule, detail }) => ({ signal: rule.signal, detail, source: 'heuristic' as const })),
+  };
+}
+
+export function isDecisive(scan: HeuristicScan): boolean {
+  return scan.riskScore >= HEURISTIC_DECISIVE_SCORE;
+}
+
+/**
+ * A verdict from the local rules alone: for decisive scans, and as the
+ * fallback when the model cannot be reached.
+ */
+export function toHeuristicVerdict(scan: HeuristicScan, summary?: string): ThreatVerdict {
+  return {
+    riskScore: scan.riskScore,
+    category: scan.category,
+    confidence: scan.riskScore >= 90 ? 'high' : isDecisive(scan) ? 'medium' : 'low',
+    evidence: scan.evidence,
+    summary: summary ?? (scan.evidence.length > 0
+      ? `Flagged by local rules: ${scan.evidence.map((item) => item.signal.toLowerCase()).join(', ')}.`
+      : 'No local rule matched.'),
+    source: 'heuristics',
+  };
+}
+
+/**
+ * Folds the local signals into the model's verdict. The higher risk score
+ * wins; a model that saw nothing wrong does not erase a category the rules
+ * are reasonably sure of.
+ */
+export function mergeWithModelVerdict(
+  scan: HeuristicScan,
+  model: IntelligentMaliciousURLFlaggingOutput
+): ThreatVerdict {
+  const ruleCategoryWins =
+    (model.category === 'benign' || model.category === 'unknown') && scan.riskScore >= 40 && scan.category !== 'unknown';
+  return {
+    ...model,
+    riskScore: Math.max(model.riskScore, scan.riskScore),
+    category: ruleCategoryWins ? scan.category : model.category,
+    evidence: [
+      ...scan.evidence,
+      ...model.evidence.map((item) => ({ ...item, source: 'model' as const })),
+    ],
+    source: 'model',
+  };
+}
@@ -0,0 +1,95 @@
+import type { AnalysisError } from '@/lib/threat/verdict';
+import { withDefaultScheme } from '@/lib/url-canonicalize';
+
+// Gemini reports rate limits and exhausted quotas as HTTP 429 /
+// RESOURCE_EXHAUSTED; the Google AI plugin only passes them on in the message.
+const RATE_LIMIT_PATTERN = /\b429\b|RESOURCE_EXHAUSTED|too many requests|rate.?limit|quota/i;
+const RETRY_DELAY_PATTERNS = [/retry in ([\d.]+)\s*s/i, /"retryDelay"\s*:\s*"([\d.]+)s"/i];
+// The plugin's missing-key error, the API's answer to a revoked or mistyped key,
+// and a 401 from an OpenAI-compatible server.
+const API_KEY_PATTERN = /pass in the API key|API key not valid|API_KEY_INVALID|\bapiKey\b|\b401 Unauthorized\b/i;
+// Genkit rejects model output that does not match the flow's output schema.
+// Input is checked before the call (`toModelUrl`), so a match here is always
+// about the model's answer.
+const SCHEMA_PATTERN = /Schema validation failed|Parse Errors|returned no output/i;
+const TIMEOUT_PATTERN = /DEADLINE_EXCEEDED|timed out|\btimeout\b|ETIMEDOUT/i;
+
+// A model call slower than this is abandoned and reported as a timeout.
+export const MODEL_CALL_TIMEOUT_MS = 90_000;
+
+/**
+ * Thrown when a model call outlives `MODEL_CALL_TIMEOUT_MS`.
+ */
+export class ModelTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`The model did not answer within ${Math.round(timeoutMs / 1000)}s.`);
+    this.name = 'ModelTimeoutError';
+  }
+}
+
+/**
+ * Thrown before a model call whose input the flow would reject, so that bad
+ * input is not reported as bad model output.
+ */
+export class ModelInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelInputError';
+  }
+}
+
+/**
+ * A URL as the single-URL flow takes it: absolute, with `http://` added to
+ * scheme-less input such as `example.com/a`.
+ */
+export function toModelUrl(url: string): string {
+  const absolute = withDefaultScheme(url);
+  if (!URL.canParse(absolute)) throw new ModelInputError(`"${url}" is not a URL the model can be asked about.`);
+  return absolute;
+}
+
+const errorText = (error: unknown) =>
+  error instanceof Error ? `${(error as { status?: string }).status ?? ''} ${error.message}` : String(error);
+
+export function isRateLimitError(error: unknown): boolean {
+  return RATE_LIMIT_PATTERN.test(errorText(error));
+}
+
+/**
+ * The wait the provider asked for, when the error carries one.
+ */
+export function getRetryDelayMs(error: unknown): number | undefined {
+  const text = errorText(error);
+  for (const pattern of RETRY_DELAY_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return Math.ceil(Number(match[1]) * 1000);
+  }
+  return undefined;
+}
+
+/**
+ * Sorts a failed model call into the causes the UI reports separately.
+ */
+export function classifyModelError(error: unknown): AnalysisError {
+  const text = errorText(error);
+  const message = (error instanceof Error ? error.message : String(error)).split('\n')[0] || 'The model call failed.';
+
+  if (error instanceof ModelInputError) return { kind: 'input', message };
+  if (error instanceof ModelTimeoutError || TIMEOUT_PATTERN.test(text)) return { kind: 'timeout', message };
+  if (API_KEY_PATTERN.test(text)) return { kind: 'missing-api-key', message };
+  if (RATE_LIMIT_PATTERN.test(text)) return { kind: 'quota', message };
+  if (SCHEMA_PATTERN.test(text)) return { kind: 'schema', message };
+  return { kind: 'unknown', message };
+}
+
+/**
+ * Rejects with a `ModelTimeoutError` when `promise` takes longer than
+ * `timeoutMs`. The call itself keeps running; only its answer is dropped.
+ */
+export function withModelTimeout<T>(promise: Promise<T>, timeoutMs = MODEL_CALL_TIMEOUT_MS): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ModelTimeoutError(timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
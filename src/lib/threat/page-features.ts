@@ -0,0 +1,130 @@
+import type { PageFeatures, PageForm } from '@/ai/schemas/page-phishing';
+import { getRegistrableDomain } from '@/lib/public-suffix';
+import type { FetchedPage } from '@/lib/status-checker/check-url';
+import { extractText, extractTitle } from '@/lib/status-checker/soft-404';
+import { findBrands, isBrandDomain } from '@/lib/threat/heuristics';
+
+// Enough of the visible text to show the model what the page is about.
+const TEXT_EXCERPT_LENGTH = 600;
+// Brand names are looked for in this much visible text, where a login page puts them.
+const BRAND_TEXT_LENGTH = 5000;
+const MAX_SCRIPT_HOSTS = 20;
+const MAX_FORMS = 10;
+
+// Inputs that carry no user data.
+const IGNORED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'image', 'reset']);
+
+const TAG_RE = /<(\/?)(form|input|script|link|base)\b([^>]*)>/gi;
+const ATTRIBUTE_RE = /([^\s"'=<>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const [, name, doubleQuoted, singleQuoted, bare] of source.matchAll(ATTRIBUTE_RE)) {
+    attributes.set(name.toLowerCase(), (doubleQuoted ?? singleQuoted ?? bare ?? '').trim());
+  }
+  return attributes;
+}
+
+function resolveUrl(value: string, base: string): URL | null {
+  try {
+    return new URL(value, base);
+  } catch {
+    return null;
+  }
+}
+
+// Sites are compared by registrable domain, so `login.example.com` posting to
+// `api.example.com` is not cross-origin in the sense that matters here.
+const siteOf = (url: URL) => getRegistrableDomain(url.hostname) ?? url.hostname;
+
+// Text inputs are described by their name, which says more than "text".
+function describeInput(attributes: Map<string, string>): string | null {
+  const type = (attributes.get('type') || 'text').toLowerCase();
+  if (IGNORED_INPUT_TYPES.has(type)) return null;
+  if (type !== 'text') return type;
+  return attributes.get('autocomplete') || attributes.get('name') || attributes.get('id') || 'text';
+}
+
+/**
+ * Extracts the phishing-relevant features of a fetched page: its forms (and
+ * where they submit), password inputs, third-party script hosts, favicon and
+ * the brands it names. A regular-expression scan rather than a DOM parse, so
+ * it copes with the truncated HTML the fetch returns.
+ */
+export function extractPageFeatures(page: FetchedPage): PageFeatures {
+  const html = page.html;
+  let baseUrl = page.finalUrl;
+  const pageSite = siteOf(new URL(page.finalUrl));
+
+  const forms: PageForm[] = [];
+  let currentForm: PageForm | null = null;
+  let passwordInputs = 0;
+  const scriptHosts = new Set<string>();
+  let favicon: PageFeatures['favicon'];
+
+  for (const [, closing, rawTag, attributeSource] of html.matchAll(TAG_RE)) {
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      if (tag === 'form') currentForm = null;
+      continue;
+    }
+    const attributes = parseAttributes(attributeSource);
+
+    if (tag === 'base') {
+      const href = attributes.get('href');
+      const resolved = href ? resolveUrl(href, page.finalUrl) : null;
+      if (resolved) baseUrl = resolved.toString();
+    } else if (tag === 'form') {
+      const rawAction = attributes.get('action') ?? '';
+      const action = rawAction && !/^javascript:/i.test(rawAction) ? resolveUrl(rawAction, baseUrl) : new URL(page.finalUrl);
+      currentForm = {
+        action: action?.toString() ?? rawAction,
+        method: (attributes.get('method') || 'GET').toUpperCase(),
+        crossOrigin: action !== null && /^https?:$/.test(action.protocol) && siteOf(action) !== pageSite,
+        hasPassword: false,
+        inputs: [],
+      };
+      if (forms.length < MAX_FORMS) forms.push(currentForm);
+    } else if (tag === 'input') {
+      const input = describeInput(attributes);
+      if (input === 'password') passwordInputs++;
+      if (currentForm && input) {
+        currentForm.inputs.push(input);
+        if (input === 'password') currentForm.hasPassword = true;
+      }
+    } else if (tag === 'script') {
+      const src = attributes.get('src');
+      const resolved = src ? resolveUrl(src, baseUrl) : null;
+      if (resolved && /^https?:$/.test(resolved.protocol) && siteOf(resolved) !== pageSite && scriptHosts.size < MAX_SCRIPT_HOSTS) {
+        scriptHosts.add(resolved.hostname);
+      }
+    } else if (tag === 'link' && !favicon) {
+      const rel = (attributes.get('rel') ?? '').toLowerCase().split(/\s+/);
+      const href = attributes.get('href');
+      const resolved = href && rel.includes('icon') ? resolveUrl(href, baseUrl) : null;
+      if (resolved) favicon = { url: resolved.toString(), crossOrigin: /^https?:$/.test(resolved.protocol) && siteOf(resolved) !== pageSite };
+    }
+  }
+
+  const title = extractTitle(html);
+  const text = extractText(html);
+  const registrableDomain = getRegistrableDomain(new URL(page.finalUrl).hostname);
+  const brands = findBrands(`${title ?? ''} ${text.slice(0, BRAND_TEXT_LENGTH)} ${favicon?.url ?? ''}`).map((brand) => ({
+    brand,
+    onBrandDomain: isBrandDomain(brand, registrableDomain),
+  }));
+
+  return {
+    url: page.url,
+    finalUrl: page.finalUrl,
+    status: page.status,
+    redirects: page.chain.length,
+    title,
+    forms,
+    passwordInputs,
+    externalScriptHosts: Array.from(scriptHosts),
+    favicon,
+    brands,
+    textExcerpt: text.slice(0, TEXT_EXCERPT_LENGTH),
+  };
+}
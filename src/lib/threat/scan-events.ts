@@ -0,0 +1,20 @@
+import type { ThreatVerdict } from '@/lib/threat/verdict';
+
+export type ThreatScanProgress = {
+  completed: number;
+  total: number;
+  elapsedMs: number;
+  etaMs: number | null;
+  modelCalls: number; // Prompts sent so far; fewer than URLs when batching
+};
+
+/**
+ * Events emitted by the `/api/threat-scan` stream, one per SSE message. The
+ * SSE `event:` field always matches `type`.
+ */
+export type ThreatScanEvent =
+  | { type: 'verdict'; index: number; url: string; verdict: ThreatVerdict }
+  | ({ type: 'progress' } & ThreatScanProgress)
+  | { type: 'rate-limited'; retryInMs: number }
+  | { type: 'done'; completed: number; total: number; elapsedMs: number; modelCalls: number }
+  | { type: 'error'; message: string };
@@ -0,0 +1,39 @@
+import { isValidModelName } from '@/ai/model-config';
+import { clampOption } from '@/lib/utils';
+
+/**
+ * Settings for a batch threat scan. Shared by the URL Detective UI and the
+ * `/api/threat-scan` route.
+ */
+export type ThreatScanOptions = {
+  concurrency: number; // Model calls in flight at once
+  batchSize: number; // URLs packed into one model prompt
+  forceRescan: boolean; // Ignore cached verdicts
+  model?: string; // `<provider>/<model>`; the server default when unset
+};
+
+export const DEFAULT_THREAT_SCAN_OPTIONS: ThreatScanOptions = {
+  concurrency: 4,
+  batchSize: 10,
+  forceRescan: false,
+};
+
+const LIMITS: Record<Exclude<keyof ThreatScanOptions, 'forceRescan' | 'model'>, [number, number]> = {
+  concurrency: [1, 20],
+  batchSize: [1, 50],
+};
+
+/**
+ * Fills in defaults and clamps untrusted options (e.g. from a request body) to
+ * sane bounds.
+ */
+export function resolveThreatScanOptions(input: unknown): ThreatScanOptions {
+  const raw = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof ThreatScanOptions, unknown>>;
+  const defaults = DEFAULT_THREAT_SCAN_OPTIONS;
+  return {
+    concurrency: clampOption(raw.concurrency, LIMITS.concurrency, defaults.concurrency),
+    batchSize: clampOption(raw.batchSize, LIMITS.batchSize, defaults.batchSize),
+    forceRescan: typeof raw.forceRescan === 'boolean' ? raw.forceRescan : defaults.forceRescan,
+    model: isValidModelName(raw.model) ? raw.model : undefined,
+  };
+}
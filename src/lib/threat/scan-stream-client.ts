@@ -0,0 +1,19 @@
+import { fetchServerSentEvents } from '@/lib/sse';
+import type { ThreatScanEvent } from '@/lib/threat/scan-events';
+import type { ThreatScanOptions } from '@/lib/threat/scan-options';
+
+type StreamThreatScanOptions = {
+  signal?: AbortSignal;
+  options?: Partial<ThreatScanOptions>;
+  onEvent: (event: ThreatScanEvent) => void;
+};
+
+/**
+ * Runs a job on the `/api/threat-scan` stream; see `fetchServerSentEvents`.
+ */
+export async function streamThreatScan(
+  urls: string[],
+  { signal, options, onEvent }: StreamThreatScanOptions
+): Promise<void> {
+  await fetchServerSentEvents<ThreatScanEvent>('/api/threat-scan', { urls, options }, { signal, onEvent, failure: 'Threat scan failed.' });
+}
@@ -0,0 +1,157 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { ThreatVerdict } from '@/lib/threat/verdict';
+import { canonicalizeUrl } from '@/lib/url-canonicalize';
+
+export type CachedVerdict = {
+  verdict: ThreatVerdict;
+  cachedAt: number;
+  expiresAt: number;
+};
+
+/**
+ * Storage behind the verdict cache. Stores only keep entries; expiry is
+ * checked by `VerdictCache`.
+ */
+export interface VerdictCacheStore {
+  get(key: string): Promise<CachedVerdict | undefined>;
+  set(key: string, entry: CachedVerdict): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Oldest entries are evicted past this many, so a long-running server stays bounded.
+const MAX_MEMORY_ENTRIES = 50_000;
+
+export class MemoryVerdictStore implements VerdictCacheStore {
+  protected readonly entries = new Map<string, CachedVerdict>();
+
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CachedVerdict) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > MAX_MEMORY_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+// Writes are batched so a scan of many URLs rewrites the file once.
+const FILE_WRITE_DELAY_MS = 1_000;
+
+/**
+ * Keeps entries in memory and persists them to a JSON file, so verdicts
+ * survive restarts. Expired entries are dropped when the file is loaded.
+ */
+export class FileVerdictStore extends MemoryVerdictStore {
+  private loaded: Promise<void> | null = null;
+  private writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  private load() {
+    this.loaded ??= readFile(this.filePath, 'utf8')
+      .then((text) => {
+        const now = Date.now();
+        for (const [key, entry] of Object.entries(JSON.parse(text) as Record<string, CachedVerdict>)) {
+          if (entry.expiresAt > now) this.entries.set(key, entry);
+        }
+      })
+      .catch((error) => {
+        if (error.code !== 'ENOENT') console.error(`Failed to load verdict cache ${this.filePath}:`, error);
+      });
+    return this.loaded;
+  }
+
+  private scheduleWrite() {
+    if (this.writeTimer) return;
+    this.writeTimer = setTimeout(async () => {
+      this.writeTimer = null;
+      try {
+        await mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        await writeFile(tempPath, JSON.stringify(Object.fromEntries(this.entries)));
+        await rename(tempPath, this.filePath);
+      } catch (error) {
+        console.error(`Failed to write verdict cache ${this.filePath}:`, error);
+      }
+    }, FILE_WRITE_DELAY_MS);
+  }
+
+  async get(key: string) {
+    await this.load();
+    return super.get(key);
+  }
+
+  async set(key: string, entry: CachedVerdict) {
+    await this.load();
+    await super.set(key, entry);
+    this.scheduleWrite();
+  }
+
+  async delete(key: string) {
+    await this.load();
+    await super.delete(key);
+    this.scheduleWrite();
+  }
+}
+
+/**
+ * Verdicts keyed on the model that gave them and the canonical URL, so
+ * `http://www.a.com/x/` and `https://a.com/x` share one entry, but a verdict
+ * from one model is never served to a scan that asked another.
+ */
+export class VerdictCache {
+  constructor(
+    private readonly store: VerdictCacheStore,
+    private readonly ttlMs: number
+  ) {}
+
+  private key(url: string, model: string) {
+    return `${model} ${canonicalizeUrl(url)}`;
+  }
+
+  async get(url: string, model: string): Promise<CachedVerdict | undefined> {
+    const key = this.key(url, model);
+    const entry = await this.store.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      await this.store.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set(url: string, model: string, verdict: ThreatVerdict): Promise<void> {
+    const cachedAt = Date.now();
+    await this.store.set(this.key(url, model), { verdict, cachedAt, expiresAt: cachedAt + this.ttlMs });
+  }
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+let verdictCache: VerdictCache | null = null;
+
+/**
+ * The server-wide cache. Configured with `VERDICT_CACHE_STORE` (`memory`, the
+ * default, or `file`), `VERDICT_CACHE_FILE` (default `.cache/verdicts.json`)
+ * and `VERDICT_CACHE_TTL_MS` (default 24 hours).
+ */
+export function getVerdictCache(): VerdictCache {
+  if (!verdictCache) {
+    const ttl = Number(process.env.VERDICT_CACHE_TTL_MS);
+    const store = process.env.VERDICT_CACHE_STORE === 'file'
+      ? new FileVerdictStore(process.env.VERDICT_CACHE_FILE || path.join(process.cwd(), '.cache', 'verdicts.json'))
+      : new MemoryVerdictStore();
+    verdictCache = new VerdictCache(store, Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_MS);
+  }
+  return verdictCache;
+}
@@ -0,0 +1,84 @@
+import type { IntelligentMaliciousURLFlaggingOutput } from '@/ai/flows/intelligent-malicious-url-flagging';
+
+type ModelVerdict = IntelligentMaliciousURLFlaggingOutput;
+
+export type ThreatCategory = ModelVerdict['category'];
+export type ThreatConfidence = ModelVerdict['confidence'];
+
+// Where a piece of evidence came from: an imported feed, the local rules or the model.
+export type EvidenceSource = 'feed' | 'heuristic' | 'model';
+
+export type ThreatEvidence = ModelVerdict['evidence'][number] & {
+  source: EvidenceSource;
+};
+
+// Why the model produced no verdict for a URL.
+export type AnalysisErrorKind = 'input' | 'missing-api-key' | 'quota' | 'schema' | 'timeout' | 'unknown';
+
+export type AnalysisError = {
+  kind: AnalysisErrorKind;
+  message: string;
+};
+
+/**
+ * Structured threat verdict for one URL. `source` says what settled it: a
+ * feed listing, the local rules on their own, or the model. A verdict with
+ * `error` was never analyzed by the model; its score reflects local rules only
+ * and must not be read as "safe".
+ */
+export type ThreatVerdict = Omit<ModelVerdict, 'evidence'> & {
+  evidence: ThreatEvidence[];
+  source: 'feed' | 'heuristics' | 'model';
+  cachedAt?: number; // Epoch ms the verdict was cached, when served from the verdict cache
+  error?: AnalysisError;
+};
+
+export const ANALYSIS_ERROR_LABELS: Record<AnalysisErrorKind, string> = {
+  input: 'Invalid Input',
+  'missing-api-key': 'Missing API Key',
+  quota: 'Quota Exceeded',
+  schema: 'Invalid Model Output',
+  timeout: 'Timeout',
+  unknown: 'Analysis Error',
+};
+
+export const THREAT_CATEGORY_LABELS: Record<ThreatCategory, string> = {
+  phishing: 'Phishing',
+  malware: 'Malware',
+  scam: 'Scam',
+  spam: 'Spam',
+  adult: 'Adult',
+  benign: 'Benign',
+  unknown: 'Unknown',
+};
+
+export type ThreatSeverity = 'critical' | 'high' | 'medium' | 'low' | 'safe';
+
+// Lowest risk score of each severity, most severe first.
+export const THREAT_SEVERITIES: { value: ThreatSeverity; label: string; minScore: number }[] = [
+  { value: 'critical', label: 'Critical', minScore: 90 },
+  { value: 'high', label: 'High', minScore: 70 },
+  { value: 'medium', label: 'Medium', minScore: 40 },
+  { value: 'low', label: 'Low', minScore: 20 },
+  { value: 'safe', label: 'Safe', minScore: 0 },
+];
+
+export function getThreatSeverity(riskScore: number): ThreatSeverity {
+  return (THREAT_SEVERITIES.find((severity) => riskScore >= severity.minScore) ?? THREAT_SEVERITIES[THREAT_SEVERITIES.length - 1]).value;
+}
+
+/**
+ * Whether a verdict counts as a threat: medium severity or worse, and not
+ * categorised as benign.
+ */
+export function isThreat(verdict: ThreatVerdict): boolean {
+  return verdict.category !== 'benign' && ['critical', 'high', 'medium'].includes(getThreatSeverity(verdict.riskScore));
+}
+
+/**
+ * Flattens evidence into one line for CSV cells, e.g.
+ * `Brand impersonation: "paypal" in subdomain | Suspicious TLD: .zip`.
+ */
+export function formatEvidence(evidence: ThreatEvidence[]): string {
+  return evidence.map((item) => `${item.signal}: ${item.detail}${item.source === 'model' ? '' : ` (${item.source === 'feed' ? 'feed' : 'rule'})`}`).join(' | ');
+}
@@ -0,0 +1,129 @@
+export type CanonicalizeOptions = {
+  ignoreScheme: boolean;
+  lowercaseHost: boolean;
+  stripDefaultPort: boolean;
+  stripWww: boolean;
+  stripTrailingSlash: boolean;
+  stripFragment: boolean;
+  sortQueryParams: boolean;
+  stripTrackingParams: boolean;
+};
+
+export const DEFAULT_CANONICALIZE_OPTIONS: CanonicalizeOptions = {
+  ignoreScheme: true,
+  lowercaseHost: true,
+  stripDefaultPort: true,
+  stripWww: true,
+  stripTrailingSlash: true,
+  stripFragment: true,
+  sortQueryParams: true,
+  stripTrackingParams: true,
+};
+
+export const CANONICALIZE_OPTION_LABELS: { key: keyof CanonicalizeOptions; label: string }[] = [
+  { key: 'ignoreScheme', label: 'Ignore http/https' },
+  { key: 'lowercaseHost', label: 'Lowercase host' },
+  { key: 'stripDefaultPort', label: 'Strip default ports' },
+  { key: 'stripWww', label: 'Strip "www."' },
+  { key: 'stripTrailingSlash', label: 'Strip trailing slashes' },
+  { key: 'stripFragment', label: 'Strip #fragments' },
+  { key: 'sortQueryParams', label: 'Sort query parameters' },
+  { key: 'stripTrackingParams', label: 'Drop tracking parameters' },
+];
+
+const DEFAULT_PORTS: Record<string, string> = {
+  'http:': '80',
+  'https:': '443',
+  'ftp:': '21',
+  'ws:': '80',
+  'wss:': '443',
+};
+
+const TRACKING_PARAMS = new Set(['fbclid', 'gclid', 'dclid', 'msclkid']);
+
+const SCHEME_RE = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+// The WHATWG URL parser always lowercases the host and drops default ports,
+// so the raw authority is read separately to honour those toggles.
+const AUTHORITY_RE = /^[a-z][a-z0-9+.-]*:\/\/(?:[^@/?#]*@)?(\[[^\]]*\]|[^:/?#]*)(?::(\d*))?/i;
+
+export function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+}
+
+/**
+ * Adds a scheme to scheme-less input such as `example.com/a` so it can be parsed.
+ */
+export function withDefaultScheme(raw: string): string {
+  const trimmed = raw.trim();
+  if (SCHEME_RE.test(trimmed)) return trimmed;
+  return `http://${trimmed.replace(/^\/\//, '')}`;
+}
+
+/**
+ * Parses a raw line as a URL, tolerating a missing scheme. Returns null when
+ * the line is not a URL with a host.
+ */
+export function parseUrlLoose(raw: string): URL | null {
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  try {
+    const parsed = new URL(withDefaultScheme(trimmed));
+    return parsed.hostname ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the canonical key for a raw URL line. Lines that cannot be parsed as
+ * URLs are returned trimmed so they still deduplicate by exact match.
+ */
+export function canonicalizeUrl(
+  raw: string,
+  options: CanonicalizeOptions = DEFAULT_CANONICALIZE_OPTIONS
+): string {
+  const trimmed = raw.trim();
+  if (!trimmed) return trimmed;
+
+  const parsed = parseUrlLoose(trimmed);
+  if (!parsed) return trimmed;
+
+  const input = withDefaultScheme(trimmed);
+  const authority = input.match(AUTHORITY_RE);
+  let host = options.lowercaseHost ? parsed.hostname : authority?.[1] || parsed.hostname;
+  if (options.stripWww && /^www\./i.test(host)) {
+    host = host.slice(4);
+  }
+
+  let port = options.stripDefaultPort ? parsed.port : authority?.[2] ?? parsed.port;
+  if (options.stripDefaultPort && port === DEFAULT_PORTS[parsed.protocol]) {
+    port = '';
+  }
+
+  let path = parsed.pathname;
+  if (options.stripTrailingSlash) {
+    path = path.replace(/\/+$/, '');
+  }
+
+  let search = parsed.search;
+  if (options.stripTrackingParams || options.sortQueryParams) {
+    let params = Array.from(parsed.searchParams.entries());
+    if (options.stripTrackingParams) {
+      params = params.filter(([name]) => !isTrackingParam(name));
+    }
+    if (options.sortQueryParams) {
+      params.sort(([a, av], [b, bv]) => (a === b ? av.localeCompare(bv) : a.localeCompare(b)));
+    }
+    search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+  }
+
+  const hash = options.stripFragment ? '' : parsed.hash;
+  const scheme = options.ignoreScheme ? '' : `${parsed.protocol}//`;
+  const credentials = parsed.username
+    ? `${parsed.username}${parsed.password ? `:${parsed.password}` : ''}@`
+    : '';
+
+  return `${scheme}${credentials}${host}${port ? `:${port}` : ''}${path}${search}${hash}`;
+}
@@ -0,0 +1,130 @@
+const QUOTE = 0x22;
+const LF = 0x0a;
+const CR = 0x0d;
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * The delimiter of a CSV file, from its first line: whichever of comma,
+ * semicolon and tab occurs most outside quotes. Defaults to a comma.
+ */
+export function detectDelimiter(sample: string): string {
+  const firstLine = sample.split(/\r?\n/, 1)[0].replace(/"(?:[^"]|"")*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Splits text arriving in chunks into lines, carrying a partial last line
+ * over to the next chunk.
+ */
+export class LineSplitter {
+  private rest = '';
+
+  push(chunk: string): string[] {
+    const lines = (this.rest + chunk).split('\n');
+    this.rest = lines.pop()!;
+    return lines.map((line) => line.replace(/\r$/, ''));
+  }
+
+  flush(): string[] {
+    const last = this.rest.replace(/\r$/, '');
+    this.rest = '';
+    return last ? [last] : [];
+  }
+}
+
+/**
+ * An RFC 4180 CSV parser fed in chunks: quoted fields may hold delimiters,
+ * line breaks and doubled quotes, and may be split across chunks anywhere.
+ * The delimiter is detected from the first chunk unless given.
+ */
+export class CsvRowParser {
+  private field = '';
+  private row: string[] = [];
+  private inQuotes = false;
+  private quoteAtChunkEnd = false; // A quote ended the last chunk: closing, or the first of a doubled pair
+  private skipLineFeed = false; // A CR ended the last chunk; a LF starting this one belongs to it
+
+  constructor(private delimiter?: string) {}
+
+  push(chunk: string): string[][] {
+    const rows: string[][] = [];
+    this.delimiter ??= detectDelimiter(chunk);
+    const delimiter = this.delimiter.charCodeAt(0);
+
+    let i = 0;
+    if (this.skipLineFeed && chunk.charCodeAt(0) === LF) i = 1;
+    this.skipLineFeed = false;
+    if (this.quoteAtChunkEnd) {
+      this.quoteAtChunkEnd = false;
+      if (chunk.charCodeAt(i) === QUOTE) {
+        this.field += '"';
+        i++;
+      } else {
+        this.inQuotes = false;
+      }
+    }
+
+    let start = i; // Start of the field text not yet copied into `field`
+    while (i < chunk.length) {
+      const code = chunk.charCodeAt(i);
+      if (this.inQuotes) {
+        if (code === QUOTE) {
+          this.field += chunk.slice(start, i);
+          if (i + 1 === chunk.length) {
+            this.quoteAtChunkEnd = true;
+          } else if (chunk.charCodeAt(i + 1) === QUOTE) {
+            this.field += '"';
+            i++;
+          } else {
+            this.inQuotes = false;
+          }
+          start = i + 1;
+        }
+        i++;
+        continue;
+      }
+
+      if (code === QUOTE && i === start && this.field === '') {
+        this.inQuotes = true;
+        start = i + 1;
+      } else if (code === delimiter) {
+        this.row.push(this.field + chunk.slice(start, i));
+        this.field = '';
+        start = i + 1;
+      } else if (code === LF || code === CR) {
+        this.row.push(this.field + chunk.slice(start, i));
+        this.field = '';
+        rows.push(this.row);
+        this.row = [];
+        if (code === CR) {
+          if (i + 1 === chunk.length) this.skipLineFeed = true;
+          else if (chunk.charCodeAt(i + 1) === LF) i++;
+        }
+        start = i + 1;
+      }
+      i++;
+    }
+    this.field += chunk.slice(start);
+    return rows;
+  }
+
+  flush(): string[][] {
+    this.inQuotes = false;
+    this.quoteAtChunkEnd = false;
+    if (this.row.length === 0 && this.field === '') return [];
+    this.row.push(this.field);
+    const row = this.row;
+    this.field = '';
+    this.row = [];
+    return [row];
+  }
+}
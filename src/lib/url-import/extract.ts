@@ -0,0 +1,302 @@
+import { hasKnownTld } from '@/lib/public-suffix';
+import { withDefaultScheme } from '@/lib/url-canonicalize';
+import { decodeXmlEntities } from '@/lib/url-import/sitemap';
+
+export type ExtractFormat = 'auto' | 'text' | 'html' | 'markdown';
+
+export const EXTRACT_FORMATS: { value: ExtractFormat; label: string }[] = [
+  { value: 'auto', label: 'Detect' },
+  { value: 'text', label: 'Plain text' },
+  { value: 'html', label: 'HTML' },
+  { value: 'markdown', label: 'Markdown' },
+];
+
+// Where in the input a URL was found.
+export type ExtractedUrlSource = 'text' | 'link' | 'href' | 'src';
+
+export type ExtractedUrl = {
+  url: string;
+  source: ExtractedUrlSource;
+  line: number; // 1-based line of the input the URL starts on
+};
+
+export type UrlExtraction = {
+  format: Exclude<ExtractFormat, 'auto'>;
+  urls: ExtractedUrl[]; // In input order, repeats included
+  skippedRelative: number; // Relative links left out because there was no base URL
+};
+
+// Scheme URLs, `www.` hosts and bare host names with an optional port and path.
+// Brackets, quotes and whitespace end a URL; trailing punctuation is trimmed after.
+const TEXT_URL_RE =
+  /(?:\b(?:https?|ftp):\/\/[^\s<>"`{}|\\^]+|\bwww\.[^\s<>"`{}|\\^]+|\b(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}(?::\d{1,5})?(?:\/[^\s<>"`{}|\\^]*)?)/gi;
+const SCHEME_RE = /^[a-z][a-z0-9+.-]*:/i;
+const FETCHABLE_SCHEME_RE = /^(?:https?|ftp):\/\//i;
+const TRAILING_PUNCTUATION = new Set(['.', ',', ';', ':', '!', '?', "'", '"', '*', '~']);
+const CLOSING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+// TLDs, country-code (`md`, `py`) and generic (`zip`, `mov`), that are more
+// often file extensions when written bare, like `notes.md` or `setup.py`.
+// Still matched with a scheme, `www.` or a path.
+const FILE_EXTENSION_TLDS = new Set(['md', 'py', 'rs', 'sh', 'pl', 'ps', 'so', 'zip', 'mov']);
+// PDF text extraction breaks long URLs at line ends; a URL ending in one of
+// these characters at the end of a line most likely continues on the next one.
+const PDF_BREAK_RE = /(?:https?|ftp):\/\/\S*[/\-_=&?#%]$/i;
+
+const HTML_TAG_RE = /<(html|head|body|div|span|p|a|img|table|br|link|script)\b[^>]*>/i;
+const MARKDOWN_LINK_RE = /\]\(\s*<?[^)\s>]+>?(?:\s+["'(][^)]*["')])?\s*\)|^\s{0,3}\[[^\]]+\]:\s*\S+/m;
+
+/**
+ * Guesses whether pasted content is HTML, Markdown or plain text.
+ */
+export function detectExtractFormat(input: string): Exclude<ExtractFormat, 'auto'> {
+  if (HTML_TAG_RE.test(input)) return 'html';
+  if (MARKDOWN_LINK_RE.test(input)) return 'markdown';
+  return 'text';
+}
+
+/**
+ * Drops trailing punctuation a URL in prose picks up: sentence ends, quotes,
+ * Markdown emphasis and closing brackets without a matching opening bracket
+ * in the URL, so `(see https://en.wikipedia.org/wiki/Bracket_(disambiguation)).`
+ * keeps its own parentheses.
+ */
+export function trimTrailingPunctuation(url: string): string {
+  let end = url.length;
+  while (end > 0) {
+    const char = url[end - 1];
+    if (TRAILING_PUNCTUATION.has(char)) {
+      end--;
+      continue;
+    }
+    const opening = CLOSING_BRACKETS[char];
+    if (opening) {
+      const body = url.slice(0, end);
+      if (body.split(char).length > body.split(opening).length) {
+        end--;
+        continue;
+      }
+    }
+    break;
+  }
+  return url.slice(0, end);
+}
+
+function lineStarts(input: string): number[] {
+  const starts = [0];
+  for (let i = input.indexOf('\n'); i !== -1; i = input.indexOf('\n', i + 1)) starts.push(i + 1);
+  return starts;
+}
+
+function lineAt(starts: number[], index: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts[mid] <= index) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+}
+
+/**
+ * Joins URLs broken across lines back together: the first word of the next
+ * line is moved up onto the end of the URL, so line numbers stay the same.
+ */
+export function joinBrokenUrls(text: string): string {
+  const lines = text.split('\n');
+  for (let i = 0; i < lines.length - 1; i++) {
+    // A URL can span several lines; a line used up entirely lets the join carry on.
+    for (let j = i + 1; j < lines.length && PDF_BREAK_RE.test(lines[i].replace(/\r$/, '')); j++) {
+      const next = lines[j].match(/^(\S+)([\s\S]*)$/);
+      if (!next) break;
+      lines[i] = lines[i].replace(/\r$/, '') + next[1];
+      lines[j] = next[2];
+      if (next[2].trim()) break;
+    }
+  }
+  return lines.join('\n');
+}
+
+// Blanks spans without moving anything after them, so later passes and line
+// numbers still line up with the input. One pass over the text, however many spans.
+function blankRanges(text: string, ranges: [start: number, end: number][]): string {
+  const parts: string[] = [];
+  let last = 0;
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    if (end <= last) continue;
+    const from = Math.max(start, last);
+    parts.push(text.slice(last, from), text.slice(from, end).replace(/[^\n]/g, ' '));
+    last = end;
+  }
+  parts.push(text.slice(last));
+  return parts.join('');
+}
+
+const ENTITY_RE = /&(#x[0-9a-f]+|#\d+|\w+);/gi;
+
+// Decodes entities, which shortens the text, and maps positions in the
+// decoded text back to the input so line numbers stay right.
+function decodeEntitiesMapped(text: string): { decoded: string; toInput: (index: number) => number } {
+  const parts: string[] = [];
+  const decodedEnds: number[] = []; // Where each decoded entity ends in the decoded text
+  const shifts: number[] = []; // Characters dropped up to and including that entity
+  let decodedLength = 0;
+  let last = 0;
+  let shift = 0;
+  for (const match of text.matchAll(ENTITY_RE)) {
+    const replacement = decodeXmlEntities(match[0]);
+    parts.push(text.slice(last, match.index), replacement);
+    decodedLength += match.index! - last + replacement.length;
+    last = match.index! + match[0].length;
+    shift += match[0].length - replacement.length;
+    decodedEnds.push(decodedLength);
+    shifts.push(shift);
+  }
+  parts.push(text.slice(last));
+
+  const toInput = (index: number) => {
+    // The last entity ending at or before `index`.
+    let low = 0;
+    let high = decodedEnds.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (decodedEnds[middle] <= index) {
+        found = middle;
+        low = middle + 1;
+      } else high = middle - 1;
+    }
+    return index + (found >= 0 ? shifts[found] : 0);
+  };
+  return { decoded: parts.join(''), toInput };
+}
+
+type Found = { url: string; source: ExtractedUrlSource; index: number };
+
+function findTextUrls(text: string): Found[] {
+  const found: Found[] = [];
+  for (const match of text.matchAll(TEXT_URL_RE)) {
+    const index = match.index!;
+    const before = text[index - 1];
+    const raw = trimTrailingPunctuation(match[0]);
+    const hasScheme = SCHEME_RE.test(raw);
+
+    if (!hasScheme) {
+      // Part of an e-mail address, a longer dotted word or a path.
+      if (before === '@' || before === '.' || before === '/' || before === '-' || text[index + match[0].length] === '@') continue;
+      const host = raw.split(/[/:?#]/)[0];
+      if (!hasKnownTld(host)) continue;
+      const isBare = !/^www\./i.test(raw) && raw === host;
+      if (isBare && FILE_EXTENSION_TLDS.has(host.split('.').pop()!.toLowerCase())) continue;
+    }
+    const url = hasScheme ? raw : withDefaultScheme(raw);
+    if (URL.canParse(url)) found.push({ url, source: 'text', index });
+  }
+  return found;
+}
+
+// Resolves a link target; null for in-page anchors, non-web schemes and
+// relative links with nothing to resolve them against.
+function resolveLink(target: string, base: string | undefined): string | null | 'relative' {
+  const value = target.trim();
+  if (!value || value.startsWith('#')) return null;
+  if (SCHEME_RE.test(value) || value.startsWith('//')) {
+    const absolute = value.startsWith('//') ? `${base ? new URL(base).protocol : 'https:'}${value}` : value;
+    return FETCHABLE_SCHEME_RE.test(absolute) && URL.canParse(absolute) ? absolute : null;
+  }
+  if (!base) return 'relative';
+  try {
+    return new URL(value, base).toString();
+  } catch {
+    return null;
+  }
+}
+
+function extractFromHtml(html: string, baseUrl: string | undefined): { found: Found[]; skippedRelative: number } {
+  const found: Found[] = [];
+  let skippedRelative = 0;
+
+  // A <base href> in the document wins over the base the user gave.
+  const baseTag = html.match(/<base\b[^>]*\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+  const baseHref = baseTag ? decodeXmlEntities(baseTag[1] ?? baseTag[2] ?? baseTag[3] ?? '') : '';
+  const resolvedBase = baseHref ? resolveLink(baseHref, baseUrl) : null;
+  const base = typeof resolvedBase === 'string' && resolvedBase !== 'relative' ? resolvedBase : baseUrl;
+
+  let text = html.replace(/<!--[\s\S]*?-->/g, (comment) => comment.replace(/[^\n]/g, ' '));
+  for (const tag of text.matchAll(/<([a-z][a-z0-9-]*)\b([^>]*)>/gi)) {
+    if (tag[1].toLowerCase() === 'base') continue;
+    for (const attribute of tag[2].matchAll(/\b(href|src)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi)) {
+      const resolved = resolveLink(decodeXmlEntities(attribute[2] ?? attribute[3] ?? attribute[4] ?? ''), base);
+      if (resolved === 'relative') skippedRelative++;
+      else if (resolved) found.push({ url: resolved, source: attribute[1].toLowerCase() as 'href' | 'src', index: tag.index! });
+    }
+  }
+
+  // Then the visible text, for URLs written out rather than linked.
+  text = text.replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, (block) => block.replace(/[^\n]/g, ' '));
+  text = text.replace(/<[^>]*>/g, (tag) => tag.replace(/[^\n]/g, ' '));
+  const linked = new Set(found.map((item) => item.url));
+  const { decoded, toInput } = decodeEntitiesMapped(text);
+  for (const item of findTextUrls(decoded)) {
+    if (!linked.has(item.url)) found.push({ ...item, index: toInput(item.index) });
+  }
+  return { found, skippedRelative };
+}
+
+function extractFromMarkdown(markdown: string, baseUrl: string | undefined): { found: Found[]; skippedRelative: number } {
+  const found: Found[] = [];
+  let skippedRelative = 0;
+  const links: [number, number][] = [];
+
+  const patterns = [
+    // [text](url "title"); as in CommonMark the url may hold balanced
+    // parentheses (one level deep here), so `[a](https://en.wikipedia.org/wiki/A_(b))`
+    // keeps its closing `)`.
+    /\]\(\s*(<[^>]*>|(?:[^()\s]|\([^()\s]*\))+)(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/g,
+    /^\s{0,3}\[[^\]]+\]:\s*(<[^>]*>|\S+)/gm, // [id]: url
+    /<((?:https?|ftp):\/\/[^>\s]+)>/gi, // <url>
+  ];
+  for (const pattern of patterns) {
+    for (const match of markdown.matchAll(pattern)) {
+      const resolved = resolveLink(match[1].replace(/^<|>$/g, ''), baseUrl);
+      if (resolved === 'relative') skippedRelative++;
+      else if (resolved) found.push({ url: resolved, source: 'link', index: match.index! });
+      links.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+  return { found: [...found, ...findTextUrls(blankRanges(markdown, links))], skippedRelative };
+}
+
+/**
+ * Finds the URLs in pasted text, HTML or Markdown. Plain text is scanned for
+ * scheme URLs, `www.` hosts and bare host names on a known TLD; HTML also
+ * yields its `href`/`src` attributes and Markdown its link targets, resolved
+ * against the document's `<base>` or `baseUrl`. URLs split across lines by
+ * PDF text extraction are joined back together.
+ */
+export function extractUrls(
+  input: string,
+  { format = 'auto', baseUrl }: { format?: ExtractFormat; baseUrl?: string } = {}
+): UrlExtraction {
+  const resolvedFormat = format === 'auto' ? detectExtractFormat(input) : format;
+  const base = baseUrl?.trim() && URL.canParse(withDefaultScheme(baseUrl)) ? withDefaultScheme(baseUrl) : undefined;
+
+  let found: Found[];
+  let skippedRelative = 0;
+  let text = input;
+  if (resolvedFormat === 'html') {
+    ({ found, skippedRelative } = extractFromHtml(input, base));
+  } else {
+    text = joinBrokenUrls(input);
+    ({ found, skippedRelative } = resolvedFormat === 'markdown' ? extractFromMarkdown(text, base) : { found: findTextUrls(text), skippedRelative: 0 });
+  }
+
+  const starts = lineStarts(text);
+  return {
+    format: resolvedFormat,
+    urls: found
+      .sort((a, b) => a.index - b.index)
+      .map(({ url, source, index }) => ({ url, source, line: lineAt(starts, index) })),
+    skippedRelative,
+  };
+}
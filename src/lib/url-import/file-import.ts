@@ -0,0 +1,177 @@
+import type { ImportedUrlMetadata } from '@/lib/url-import/metadata';
+import type { ImportSource, OriginUnit } from '@/lib/url-import/provenance';
+import {
+  extractJsonUrls,
+  isNetscapeBookmarks,
+  parseHar,
+  parseJsonRecords,
+  parseNetscapeBookmarks,
+  suggestUrlPaths,
+  type StructuredImport,
+} from '@/lib/url-import/structured';
+import { detectColumnMapping, extractTableUrls, readWorksheet } from '@/lib/url-import/table';
+import type { UrlImportRequest, UrlImportResponse } from '@/workers/url-import-protocol';
+
+export type StreamedFile = Extract<UrlImportResponse, { type: 'done' }>;
+
+// Read whole and parsed here rather than streamed: JSON and JSON Lines,
+// HAR captures and bookmark exports.
+export const STRUCTURED_FILE_TYPES = new Set(['json', 'jsonl', 'ndjson', 'har', 'html', 'htm']);
+
+/**
+ * A structured file, read: HAR captures and bookmark exports give their URLs
+ * straight away, JSON gives records whose URL field is still to be picked.
+ */
+export type StructuredFile =
+  | { kind: 'urls'; result: StructuredImport; unit?: OriginUnit }
+  | { kind: 'records'; records: unknown[]; errors: string[]; lines?: number[] };
+
+type StreamOptions = {
+  onBatch: (urls: string[], rows: number[], bytesRead: number) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * A file's type from its name, with a `.gz` suffix looked through:
+ * `crawl.csv.gz` is a gzipped `csv`.
+ */
+export function getFileType(name: string): { fileType?: string; isGzip: boolean } {
+  return {
+    fileType: name.replace(/\.gz$/i, '').split('.').pop()?.toLowerCase(),
+    isGzip: /\.gz$/i.test(name),
+  };
+}
+
+/**
+ * Reads a text or CSV file (gzipped or not) in a worker, handing the URLs
+ * over batch by batch so the file is never held in memory whole. Aborting
+ * terminates the worker and rejects with an `AbortError`.
+ */
+export function streamUrlFile(file: File, format: UrlImportRequest['format'], { onBatch, signal }: StreamOptions): Promise<StreamedFile> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../../workers/url-import.worker.ts', import.meta.url));
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      finish();
+      reject(new DOMException('The import was cancelled.', 'AbortError'));
+    };
+    if (signal?.aborted) return abort();
+    signal?.addEventListener('abort', abort);
+
+    worker.onmessage = (event: MessageEvent<UrlImportResponse>) => {
+      const message = event.data;
+      if (message.type === 'batch') {
+        onBatch(message.urls, message.rows, message.bytesRead);
+        return;
+      }
+      finish();
+      if (message.type === 'error') reject(new Error(message.message));
+      else resolve(message);
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Could not read the file.'));
+    };
+
+    const request: UrlImportRequest = { type: 'import', file, format };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Reads one of the `STRUCTURED_FILE_TYPES`. Throws when an HTML file is not a
+ * bookmarks export or a JSON file has no records.
+ */
+export async function readStructuredFile(file: File, fileType: string): Promise<StructuredFile> {
+  const text = await file.text();
+  if (fileType === 'har') return { kind: 'urls', result: parseHar(text), unit: 'entry' };
+  if (fileType === 'html' || fileType === 'htm') {
+    if (!isNetscapeBookmarks(text)) {
+      throw new Error('This HTML file is not a bookmarks export. Use "From Text" to import the links of any web page.');
+    }
+    return { kind: 'urls', result: parseNetscapeBookmarks(text) };
+  }
+  const { records, errors, lines } = parseJsonRecords(text, fileType === 'json' ? 'json' : 'jsonl');
+  if (records.length === 0) throw new Error('The file has no JSON records.');
+  return { kind: 'records', records, errors, lines };
+}
+
+export type FileImportOptions = {
+  onImport: (urls: string[], metadata: ImportedUrlMetadata | undefined, source: ImportSource) => void;
+  onProgress?: (bytesRead: number) => void;
+  signal?: AbortSignal;
+};
+
+export type FileImportResult = {
+  imported: number;
+  notes: string[]; // What was guessed or skipped, as sentences for the import summary
+};
+
+const skippedNote = (skipped: number, what: string) => (skipped > 0 ? [`${skipped} ${what} were not URLs and were skipped.`] : []);
+
+/**
+ * Imports a file without a preview, the way several files dropped at once
+ * are read: the URL column of a spreadsheet and the URL field of JSON are
+ * detected, and text and CSV files are streamed. Every URL is handed over
+ * with the file and row it came from.
+ */
+export async function importFile(file: File, { onImport, onProgress, signal }: FileImportOptions): Promise<FileImportResult> {
+  const { fileType, isGzip } = getFileType(file.name);
+
+  if (fileType === 'csv' || fileType === 'txt' || isGzip) {
+    const unit = fileType === 'csv' ? 'row' : 'line';
+    let imported = 0;
+    const done = await streamUrlFile(file, fileType === 'csv' ? 'csv' : 'txt', {
+      signal,
+      onBatch: (urls, rows, bytesRead) => {
+        if (urls.length > 0) onImport(urls, undefined, { name: file.name, unit, rows });
+        imported += urls.length;
+        onProgress?.(bytesRead);
+      },
+    });
+    return {
+      imported,
+      notes: [...(done.urlColumn ? [`URLs were read from the "${done.urlColumn}" column.`] : []), ...skippedNote(done.skipped, 'cells')],
+    };
+  }
+
+  const importStructured = (result: StructuredImport, unit?: ImportSource['unit']): FileImportResult => {
+    signal?.throwIfAborted();
+    if (result.urls.length > 0) onImport(result.urls, result.metadata, { name: file.name, unit, rows: result.rows });
+    return { imported: result.urls.length, notes: skippedNote(result.skipped, 'entries') };
+  };
+
+  if (fileType === 'xlsx' || fileType === 'xls') {
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    onProgress?.(file.size);
+    // The first sheet with URLs in it, as the preview would open it.
+    for (const name of workbook.SheetNames) {
+      const sheet = readWorksheet(XLSX, name, workbook.Sheets[name]);
+      const result = extractTableUrls(sheet.rows, detectColumnMapping(sheet.rows), sheet.rowNumbers);
+      if (result.urls.length === 0) continue;
+      signal?.throwIfAborted();
+      const sourceName = workbook.SheetNames.length > 1 ? `${file.name} · ${name}` : file.name;
+      onImport(result.urls, result.metadata, { name: sourceName, unit: 'row', rows: result.rows });
+      return {
+        imported: result.urls.length,
+        notes: [...(workbook.SheetNames.length > 1 ? [`URLs were read from the "${name}" sheet.`] : []), ...skippedNote(result.skipped, 'cells')],
+      };
+    }
+    return { imported: 0, notes: [] };
+  }
+
+  if (fileType && STRUCTURED_FILE_TYPES.has(fileType)) {
+    const read = await readStructuredFile(file, fileType);
+    onProgress?.(file.size);
+    if (read.kind === 'urls') return importStructured(read.result, read.unit);
+    const path = suggestUrlPaths(read.records)[0]?.path;
+    if (!path) return { imported: 0, notes: [] };
+    const result = importStructured(extractJsonUrls(read.records, path, { lines: read.lines }), 'line');
+    return { ...result, notes: [`URLs were read from ${path}.`, ...result.notes] };
+  }
+  throw new Error(`${file.name} is not a supported file type.`);
+}
@@ -0,0 +1,172 @@
+/**
+ * @fileOverview Runs the Google Sheets importer against a local mock of the
+ * Sheets API, its OAuth token endpoint and the public CSV export.
+ *
+ *   npm run check:sheets
+ *
+ * Covers reading by tab, gid and range with a service account, an OAuth token
+ * and no credentials, and the mapping of the API's 401, 403, 404 and 400
+ * answers and the export's sign-in redirect onto `GoogleSheetErrorKind`s. Needs
+ * no network; exits with status 1 when a case fails.
+ */
+import {generateKeyPairSync} from 'node:crypto';
+import {createServer, type IncomingMessage, type ServerResponse} from 'node:http';
+import type {AddressInfo} from 'node:net';
+
+import {GoogleSheetError, parseSheetReference, type GoogleSheetErrorKind} from '@/lib/url-import/google-sheets';
+import {readGoogleSheet} from '@/lib/url-import/google-sheets-fetch';
+
+const SPREADSHEET_ID = 'mock-sheet';
+const TABS = [
+  {sheetId: 0, title: 'Crawl'},
+  {sheetId: 77, title: 'Old crawl'},
+];
+const VALUES: Record<string, string[][]> = {
+  Crawl: [['url', 'title'], ['https://a.example', 'A'], [], ['https://b.example', 'B']],
+  'Old crawl': [['https://old.example']],
+};
+const ACCESS_TOKEN = 'mock-token';
+
+type Case = {
+  name: string;
+  url: string;
+  tab?: string;
+  range?: string;
+  expect: {rows: number[]; urls: string[]} | GoogleSheetErrorKind;
+};
+
+const sheetUrl = (id = SPREADSHEET_ID, gid?: number) =>
+  `https://docs.google.com/spreadsheets/d/${id}/edit${gid === undefined ? '' : `#gid=${gid}`}`;
+
+// One answer per spreadsheet ID: `mock-sheet` is readable, the others fail the
+// way Google does.
+function handleApi(request: IncomingMessage, response: ServerResponse, url: URL) {
+  const json = (status: number, body: object) => {
+    response.writeHead(status, {'Content-Type': 'application/json'});
+    response.end(JSON.stringify(body));
+  };
+  if (request.headers.authorization !== `Bearer ${ACCESS_TOKEN}`) {
+    return json(401, {error: {code: 401, message: 'Request had invalid authentication credentials.'}});
+  }
+  const [, id, , ...rest] = url.pathname.replace(/^\/v4\/spreadsheets\//, '/').split('/');
+  if (id === 'private') return json(403, {error: {code: 403, message: 'The caller does not have permission'}});
+  if (id === 'disabled') return json(403, {error: {code: 403, message: 'Google Sheets API has not been used in project 1 before or it is disabled.'}});
+  if (id !== SPREADSHEET_ID) return json(404, {error: {code: 404, message: 'Requested entity was not found.'}});
+  if (rest.length === 0) return json(200, {sheets: TABS.map((properties) => ({properties}))});
+
+  const [tab, range] = decodeURIComponent(rest.join('/')).split('!');
+  const title = tab.replace(/^'|'$/g, '').replace(/''/g, "'");
+  // The mock sheet is 26 columns wide, like a new Google Sheet.
+  if (range && /[A-Z]{2}/.test(range)) {
+    return json(400, {error: {code: 400, message: `Range (${tab}!${range}) exceeds grid limits. Max columns: 26`}});
+  }
+  const firstRow = Number(range?.match(/^[A-Z]+(\d+)/)?.[1] ?? 1);
+  json(200, {values: VALUES[title].slice(firstRow - 1)});
+}
+
+function handleExport(response: ServerResponse, url: URL) {
+  const id = url.pathname.split('/')[3];
+  if (id === 'private') {
+    response.writeHead(302, {Location: 'https://accounts.google.com/ServiceLogin?continue=x'});
+    return response.end();
+  }
+  if (id !== SPREADSHEET_ID) {
+    response.writeHead(404);
+    return response.end();
+  }
+  const gid = Number(url.searchParams.get('gid') ?? 0);
+  const tab = TABS.find((t) => t.sheetId === gid);
+  if (!tab) {
+    response.writeHead(400);
+    return response.end();
+  }
+  response.writeHead(200, {'Content-Type': 'text/csv'});
+  response.end(VALUES[tab.title].map((row) => row.join(',')).join('\n'));
+}
+
+async function runCases(label: string, cases: Case[]): Promise<number> {
+  let failures = 0;
+  for (const {name, url, tab, range, expect} of cases) {
+    let outcome: string;
+    let passed: boolean;
+    try {
+      const {sheet} = await readGoogleSheet(parseSheetReference(url, {tab, range}));
+      const urls = sheet.rows.map((row) => row[0]).filter((cell) => cell.startsWith('https://'));
+      const rows = sheet.rows.flatMap((row, index) => (row[0]?.startsWith('https://') ? [sheet.rowNumbers?.[index]] : []));
+      outcome = `${urls.join(' ')} (rows ${rows.join(', ')})`;
+      passed = typeof expect !== 'string' && JSON.stringify({rows, urls}) === JSON.stringify(expect);
+    } catch (error) {
+      outcome = error instanceof GoogleSheetError ? `${error.kind}: ${error.message}` : String(error);
+      passed = error instanceof GoogleSheetError && error.kind === expect;
+    }
+    if (!passed) failures++;
+    console.log(`${passed ? 'ok  ' : 'FAIL'} ${label} · ${name} → ${outcome}`);
+  }
+  return failures;
+}
+
+async function main() {
+  let tokenRequests = 0;
+  const server = createServer((request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    if (url.pathname === '/token') {
+      tokenRequests++;
+      response.writeHead(200, {'Content-Type': 'application/json'});
+      return response.end(JSON.stringify({access_token: ACCESS_TOKEN, expires_in: 3600}));
+    }
+    if (url.pathname.startsWith('/v4/')) return handleApi(request, response, url);
+    handleExport(response, url);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.GOOGLE_SHEETS_API_URL = origin;
+  process.env.GOOGLE_SHEETS_EXPORT_URL = origin;
+
+  const apiCases: Case[] = [
+    {name: 'first tab', url: sheetUrl(), expect: {rows: [2, 4], urls: ['https://a.example', 'https://b.example']}},
+    {name: 'tab by gid', url: sheetUrl(SPREADSHEET_ID, 77), expect: {rows: [1], urls: ['https://old.example']}},
+    {name: 'tab and range', url: sheetUrl(), tab: 'Crawl', range: 'A4:B', expect: {rows: [4], urls: ['https://b.example']}},
+    {name: 'unknown tab', url: sheetUrl(), tab: 'Missing', expect: 'wrong-range'},
+    {name: '400 range outside the grid', url: sheetUrl(), range: 'A1:ZZ9', expect: 'wrong-range'},
+    {name: '403 not shared', url: sheetUrl('private'), expect: 'not-shared'},
+    {name: '403 API disabled', url: sheetUrl('disabled'), expect: 'auth'},
+    {name: '404 no such sheet', url: sheetUrl('deleted'), expect: 'not-found'},
+  ];
+
+  let failures = 0;
+  try {
+    const {privateKey} = generateKeyPairSync('rsa', {modulusLength: 2048});
+    process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_KEY = JSON.stringify({
+      client_email: 'importer@mock.iam.gserviceaccount.com',
+      private_key: privateKey.export({type: 'pkcs8', format: 'pem'}),
+      token_uri: `${origin}/token`,
+    });
+    failures += await runCases('service account', apiCases);
+    if (tokenRequests !== 1) {
+      failures++;
+      console.log(`FAIL service account · token reuse → ${tokenRequests} token requests`);
+    }
+
+    delete process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_KEY;
+    process.env.GOOGLE_SHEETS_ACCESS_TOKEN = ACCESS_TOKEN;
+    failures += await runCases('oauth', apiCases);
+    process.env.GOOGLE_SHEETS_ACCESS_TOKEN = 'expired';
+    failures += await runCases('oauth', [{name: '401 bad token', url: sheetUrl(), expect: 'auth'}]);
+
+    delete process.env.GOOGLE_SHEETS_ACCESS_TOKEN;
+    failures += await runCases('public', [
+      {name: 'first tab', url: sheetUrl(), expect: {rows: [2, 4], urls: ['https://a.example', 'https://b.example']}},
+      {name: 'tab by gid', url: sheetUrl(SPREADSHEET_ID, 77), expect: {rows: [1], urls: ['https://old.example']}},
+      {name: 'unknown gid', url: sheetUrl(SPREADSHEET_ID, 5), expect: 'wrong-range'},
+      {name: 'sign-in redirect', url: sheetUrl('private'), expect: 'not-shared'},
+      {name: '404 no such sheet', url: sheetUrl('deleted'), expect: 'not-found'},
+    ]);
+  } finally {
+    server.close();
+  }
+
+  console.log(failures === 0 ? 'All cases passed.' : `${failures} case(s) failed.`);
+  process.exitCode = failures === 0 ? 0 : 1;
+}
+
+main();
@@ -0,0 +1,276 @@
+import { NETWORK_ERROR_LABELS, classifyFetchError } from '@/lib/status-checker/errors';
+import {
+  GoogleSheetError,
+  toA1Notation,
+  type GoogleSheetsAuthMode,
+  type SheetReference,
+  type SheetTab,
+} from '@/lib/url-import/google-sheets';
+import { readWorksheet, type ImportSheet } from '@/lib/url-import/table';
+import { createSign } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+/**
+ * Google Sheets access, configured by the administrator in the environment:
+ *
+ * - `GOOGLE_SHEETS_SERVICE_ACCOUNT_KEY`: a service account's JSON key, inline
+ *   or as a path to the key file. Sheets must be shared with its `client_email`.
+ * - `GOOGLE_SHEETS_ACCESS_TOKEN`: an OAuth access token with the
+ *   `spreadsheets.readonly` scope, used when there is no service account.
+ * - `GOOGLE_SHEETS_API_URL` / `GOOGLE_SHEETS_EXPORT_URL`: where the Sheets API
+ *   (default `https://sheets.googleapis.com`) and the public CSV export
+ *   (default `https://docs.google.com`) are reached; the service account's
+ *   token endpoint is its key's `token_uri`. Point them at a local mock to
+ *   test without Google, as `npm run check:sheets` does.
+ *
+ * With neither credential, only sheets shared as "anyone with the link" can be
+ * read, through the CSV export.
+ */
+const SHEETS_SCOPE = 'https://www.googleapis.com/auth/spreadsheets.readonly';
+const DEFAULT_API_URL = 'https://sheets.googleapis.com';
+const DEFAULT_EXPORT_URL = 'https://docs.google.com';
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+const SHEETS_FETCH_TIMEOUT_MS = 30_000;
+const MAX_EXPORT_REDIRECTS = 5;
+// Tokens are renewed this long before they expire.
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+type ServiceAccountKey = {
+  client_email: string;
+  private_key: string;
+  token_uri?: string;
+};
+
+// The part of the Sheets API's spreadsheet resource asked for with `fields`.
+type SpreadsheetMetadata = {
+  sheets?: { properties: { sheetId: number; title: string } }[];
+};
+
+type SheetsCredentials =
+  | { mode: 'service-account'; key: ServiceAccountKey }
+  | { mode: 'oauth'; accessToken: string }
+  | { mode: 'public' };
+
+const apiUrl = () => (process.env.GOOGLE_SHEETS_API_URL || DEFAULT_API_URL).replace(/\/+$/, '');
+const exportUrl = () => (process.env.GOOGLE_SHEETS_EXPORT_URL || DEFAULT_EXPORT_URL).replace(/\/+$/, '');
+
+function readServiceAccountKey(value: string): ServiceAccountKey {
+  let key: Partial<ServiceAccountKey>;
+  try {
+    key = JSON.parse(value.trim().startsWith('{') ? value : readFileSync(value.trim(), 'utf8'));
+  } catch (error) {
+    throw new GoogleSheetError('auth', `GOOGLE_SHEETS_SERVICE_ACCOUNT_KEY is not a readable service account key (${(error as Error).message}).`);
+  }
+  if (!key.client_email || !key.private_key) {
+    throw new GoogleSheetError('auth', 'GOOGLE_SHEETS_SERVICE_ACCOUNT_KEY has no client_email or private_key.');
+  }
+  return key as ServiceAccountKey;
+}
+
+function getCredentials(): SheetsCredentials {
+  const serviceAccountKey = process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_KEY;
+  if (serviceAccountKey) return { mode: 'service-account', key: readServiceAccountKey(serviceAccountKey) };
+  const accessToken = process.env.GOOGLE_SHEETS_ACCESS_TOKEN;
+  if (accessToken) return { mode: 'oauth', accessToken };
+  return { mode: 'public' };
+}
+
+/**
+ * How sheets are read, and the service account to share them with, for the
+ * import dialog's hint. A broken key shows as the service account mode without
+ * an email; the import itself reports what is wrong with it.
+ */
+export function getGoogleSheetsAuth(): { mode: GoogleSheetsAuthMode; serviceAccountEmail?: string } {
+  try {
+    const credentials = getCredentials();
+    return credentials.mode === 'service-account'
+      ? { mode: credentials.mode, serviceAccountEmail: credentials.key.client_email }
+      : { mode: credentials.mode };
+  } catch {
+    return { mode: 'service-account' };
+  }
+}
+
+// The sheet row an A1 range starts on: 2 for `A2:C`, 1 for `A:C` or no range.
+const firstRowOfRange = (range?: string) => Number(range?.match(/^[A-Z]*(\d+)/i)?.[1] ?? 1);
+
+async function sheetsFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const timeoutSignal = AbortSignal.timeout(SHEETS_FETCH_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: timeoutSignal });
+  } catch (error) {
+    const classified = classifyFetchError(error, timeoutSignal.aborted);
+    throw new GoogleSheetError('network', `${NETWORK_ERROR_LABELS[classified.kind]}: ${classified.message}`);
+  }
+}
+
+const tokenCache = new Map<string, { token: string; expiresAt: number }>();
+
+// Exchanges a signed JWT for an access token (the OAuth 2.0 service account
+// flow); tokens are reused until shortly before they expire.
+async function getServiceAccountToken(key: ServiceAccountKey): Promise<string> {
+  const cached = tokenCache.get(key.client_email);
+  if (cached && cached.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) return cached.token;
+
+  const tokenUri = key.token_uri || DEFAULT_TOKEN_URI;
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({
+    iss: key.client_email,
+    scope: SHEETS_SCOPE,
+    aud: tokenUri,
+    iat: issuedAt,
+    exp: issuedAt + 3600,
+  })}`;
+  let signature: string;
+  try {
+    signature = createSign('RSA-SHA256').update(unsigned).sign(key.private_key, 'base64url');
+  } catch (error) {
+    throw new GoogleSheetError('auth', `The service account's private key could not sign a token (${(error as Error).message}).`);
+  }
+
+  const response = await sheetsFetch(tokenUri, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion: `${unsigned}.${signature}` }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || typeof body.access_token !== 'string') {
+    const reason = body.error_description || body.error || `HTTP ${response.status}`;
+    throw new GoogleSheetError('auth', `The service account ${key.client_email} could not get an access token: ${reason}.`);
+  }
+  tokenCache.set(key.client_email, { token: body.access_token, expiresAt: Date.now() + (Number(body.expires_in) || 3600) * 1000 });
+  return body.access_token;
+}
+
+// Maps a Sheets API error response onto the error kinds; `sharedWith` names
+// who the sheet has to be shared with, for the "not shared" message.
+async function apiError(response: Response, sharedWith: string): Promise<GoogleSheetError> {
+  const body = await response.json().catch(() => ({}));
+  const message: string = body.error?.message || response.statusText || `HTTP ${response.status}`;
+  if (response.status === 401) return new GoogleSheetError('auth', `Google rejected the credentials: ${message}`);
+  if (response.status === 403 && /has not been used|is disabled|SERVICE_DISABLED/i.test(message)) {
+    return new GoogleSheetError('auth', `The Google Sheets API is not enabled for the credentials' project: ${message}`);
+  }
+  if (response.status === 403) {
+    return new GoogleSheetError('not-shared', `The sheet is not shared with ${sharedWith}. Share it (Viewer is enough) and try again.`);
+  }
+  if (response.status === 404) return new GoogleSheetError('not-found', 'No spreadsheet has this ID. Check the URL.');
+  if (response.status === 400 && /range/i.test(message)) return new GoogleSheetError('wrong-range', message);
+  return new GoogleSheetError('unknown', `The Sheets API answered HTTP ${response.status}: ${message}`);
+}
+
+async function readWithApi(reference: SheetReference, accessToken: string, sharedWith: string): Promise<{ sheet: ImportSheet; tabs: SheetTab[] }> {
+  const headers = { Authorization: `Bearer ${accessToken}` };
+  const base = `${apiUrl()}/v4/spreadsheets/${encodeURIComponent(reference.spreadsheetId)}`;
+
+  const metadata = await sheetsFetch(`${base}?fields=${encodeURIComponent('sheets.properties(sheetId,title)')}`, { headers });
+  if (!metadata.ok) throw await apiError(metadata, sharedWith);
+  const { sheets = [] }: SpreadsheetMetadata = await metadata.json();
+  const tabs: SheetTab[] = sheets.map((sheet) => ({
+    gid: sheet.properties.sheetId,
+    title: sheet.properties.title,
+  }));
+
+  const tab = reference.tab
+    ? tabs.find((t) => t.title === reference.tab) ?? tabs.find((t) => t.title.toLowerCase() === reference.tab!.toLowerCase())
+    : reference.gid !== undefined ? tabs.find((t) => t.gid === reference.gid) : tabs[0];
+  if (!tab) {
+    const wanted = reference.tab ? `named "${reference.tab}"` : `with gid ${reference.gid}`;
+    throw new GoogleSheetError('wrong-range', `The sheet has no tab ${wanted}. Its tabs are: ${tabs.map((t) => t.title).join(', ')}.`);
+  }
+
+  const values = await sheetsFetch(`${base}/values/${encodeURIComponent(toA1Notation(tab.title, reference.range))}?valueRenderOption=FORMATTED_VALUE`, { headers });
+  if (!values.ok) throw await apiError(values, sharedWith);
+  const rows: unknown[][] = (await values.json()).values ?? [];
+  const firstRow = firstRowOfRange(reference.range);
+  const sheet: Required<ImportSheet> = { name: tab.title, rows: [], rowNumbers: [] };
+  rows.forEach((row, index) => {
+    const cells = row.map((cell) => String(cell ?? ''));
+    if (cells.every((cell) => cell.trim() === '')) return;
+    sheet.rows.push(cells);
+    sheet.rowNumbers.push(firstRow + index);
+  });
+  return { sheet, tabs };
+}
+
+// The CSV export of a sheet shared by link. It answers an unshared sheet with
+// a redirect to the Google sign-in page, so redirects are followed by hand.
+async function readPublicExport(reference: SheetReference): Promise<string> {
+  const base = `${exportUrl()}/spreadsheets/d/${encodeURIComponent(reference.spreadsheetId)}`;
+  const params = new URLSearchParams();
+  let url: string;
+  if (reference.tab) {
+    // Only the visualization endpoint selects a tab by name.
+    params.set('tqx', 'out:csv');
+    params.set('sheet', reference.tab);
+    if (reference.range) params.set('range', reference.range);
+    url = `${base}/gviz/tq?${params}`;
+  } else {
+    params.set('format', 'csv');
+    if (reference.gid !== undefined) params.set('gid', String(reference.gid));
+    if (reference.range) params.set('range', reference.range);
+    url = `${base}/export?${params}`;
+  }
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await sheetsFetch(url, { redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      const next = new URL(location, url);
+      if (next.hostname === 'accounts.google.com' || /ServiceLogin|signin/i.test(next.pathname)) {
+        throw new GoogleSheetError('not-shared', 'The sheet is private. Share it as "Anyone with the link can view", or ask an administrator to set up a service account.');
+      }
+      if (redirects >= MAX_EXPORT_REDIRECTS) throw new GoogleSheetError('unknown', 'The sheet export redirected too many times.');
+      url = next.toString();
+      continue;
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new GoogleSheetError('not-shared', 'The sheet is private. Share it as "Anyone with the link can view", or ask an administrator to set up a service account.');
+    }
+    if (response.status === 404) throw new GoogleSheetError('not-found', 'No spreadsheet has this ID, or it was deleted. Check the URL.');
+    if (response.status === 400) {
+      throw new GoogleSheetError('wrong-range', reference.gid !== undefined
+        ? `The sheet has no tab with gid ${reference.gid}, or the range is outside it.`
+        : 'The tab or range could not be read.');
+    }
+    if (!response.ok) throw new GoogleSheetError('unknown', `The sheet export answered HTTP ${response.status}.`);
+    // A sign-in or error page served with 200 instead of a redirect.
+    if (/text\/html/i.test(response.headers.get('content-type') ?? '')) {
+      throw new GoogleSheetError('not-shared', 'The sheet is private. Share it as "Anyone with the link can view", or ask an administrator to set up a service account.');
+    }
+    return response.text();
+  }
+}
+
+// The export's CSV as rows of cell text, read the way uploaded CSV files are.
+async function parseCsvSheet(name: string, csv: string): Promise<ImportSheet> {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(csv, { type: 'string', raw: true });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  return worksheet ? readWorksheet(XLSX, name, worksheet) : { name, rows: [] };
+}
+
+/**
+ * Reads a tab (or a range of it) of a Google Sheet with the configured
+ * credentials, or through the public CSV export without any. Only API reads
+ * know the spreadsheet's other tabs.
+ */
+export async function readGoogleSheet(
+  reference: SheetReference
+): Promise<{ auth: GoogleSheetsAuthMode; sheet: ImportSheet; tabs: SheetTab[] }> {
+  const credentials = getCredentials();
+  if (credentials.mode === 'public') {
+    const name = reference.tab ?? (reference.gid !== undefined ? `gid ${reference.gid}` : 'Google Sheet');
+    const sheet = await parseCsvSheet(name, await readPublicExport(reference));
+    // The export of a range starts at the range's first row.
+    const offset = firstRowOfRange(reference.range) - 1;
+    return { auth: 'public', sheet: { ...sheet, rowNumbers: sheet.rowNumbers?.map((row) => row + offset) }, tabs: [] };
+  }
+  if (credentials.mode === 'oauth') {
+    return { auth: 'oauth', ...(await readWithApi(reference, credentials.accessToken, 'the account the access token belongs to')) };
+  }
+  const accessToken = await getServiceAccountToken(credentials.key);
+  return { auth: 'service-account', ...(await readWithApi(reference, accessToken, credentials.key.client_email)) };
+}
@@ -0,0 +1,103 @@
+import type { ImportSheet } from '@/lib/url-import/table';
+
+/**
+ * Why a Google Sheet could not be read. `not-shared`, `not-found` and
+ * `wrong-range` are the ones a user can fix from the sheet itself.
+ */
+export type GoogleSheetErrorKind = 'invalid-url' | 'not-shared' | 'not-found' | 'wrong-range' | 'auth' | 'network' | 'unknown';
+
+export const GOOGLE_SHEET_ERROR_LABELS: Record<GoogleSheetErrorKind, string> = {
+  'invalid-url': 'Invalid Sheet URL',
+  'not-shared': 'Sheet Not Shared',
+  'not-found': 'Sheet Not Found',
+  'wrong-range': 'Tab or Range Not Found',
+  auth: 'Authentication Failed',
+  network: 'Network Error',
+  unknown: 'Import Failed',
+};
+
+// How the server reads sheets: with a service account, an OAuth access token,
+// or through the public CSV export when neither is configured.
+export type GoogleSheetsAuthMode = 'service-account' | 'oauth' | 'public';
+
+export type SheetTab = {
+  gid: number;
+  title: string;
+};
+
+/**
+ * What to read: the spreadsheet, the tab (by name, or by the `gid` of its URL)
+ * and an optional A1 range within the tab.
+ */
+export type SheetReference = {
+  spreadsheetId: string;
+  gid?: number;
+  tab?: string;
+  range?: string;
+};
+
+export type GoogleSheetImportResult =
+  | { ok: true; sheet: ImportSheet; tabs: SheetTab[]; auth: GoogleSheetsAuthMode }
+  | { ok: false; error: { kind: GoogleSheetErrorKind; message: string } };
+
+/**
+ * Thrown while reading a sheet; turned into the failed result by the action.
+ */
+export class GoogleSheetError extends Error {
+  constructor(readonly kind: GoogleSheetErrorKind, message: string) {
+    super(message);
+    this.name = 'GoogleSheetError';
+  }
+}
+
+const SPREADSHEET_ID_RE = /\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/;
+// `A1:C100`, `A:C`, `2:10`, `B2`, `C2:C`; no sheet name, that goes in `tab`.
+const A1_RANGE_RE = /^(?:[a-z]{1,3}\d*|\d+)(?::(?:[a-z]{1,3}\d*|\d+))?$/i;
+
+export const isValidA1Range = (range: string) => A1_RANGE_RE.test(range.replace(/\$/g, ''));
+
+/**
+ * Reads a sheet URL and the tab and range the user typed. The tab can also
+ * come from the URL's `gid`, and the range can carry its tab the way Sheets
+ * writes it, as `'My tab'!A1:C`.
+ */
+export function parseSheetReference(url: string, { tab, range }: { tab?: string; range?: string } = {}): SheetReference {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new GoogleSheetError('invalid-url', 'Enter the URL of a Google Sheet, e.g. https://docs.google.com/spreadsheets/d/…');
+  }
+  const id = parsed.pathname.match(SPREADSHEET_ID_RE)?.[1];
+  if (parsed.hostname !== 'docs.google.com' || !id) {
+    throw new GoogleSheetError('invalid-url', 'Enter the URL of a Google Sheet, e.g. https://docs.google.com/spreadsheets/d/…');
+  }
+
+  const reference: SheetReference = { spreadsheetId: id };
+  const gid = (parsed.hash.match(/gid=(\d+)/) ?? parsed.search.match(/gid=(\d+)/))?.[1];
+  if (gid) reference.gid = Number(gid);
+
+  let rangeText = range?.trim() ?? '';
+  let tabText = tab?.trim() ?? '';
+  const qualified = rangeText.match(/^(?:'((?:[^']|'')+)'|([^!]+))!(.*)$/);
+  if (qualified) {
+    tabText ||= (qualified[1]?.replace(/''/g, "'") ?? qualified[2]).trim();
+    rangeText = qualified[3].trim();
+  }
+  if (tabText) reference.tab = tabText;
+  if (rangeText) {
+    if (!isValidA1Range(rangeText)) {
+      throw new GoogleSheetError('wrong-range', `"${rangeText}" is not an A1 range; use something like A1:C500 or A:A.`);
+    }
+    reference.range = rangeText.toUpperCase();
+  }
+  return reference;
+}
+
+/**
+ * The A1 notation the Sheets API takes, with the tab name quoted.
+ */
+export function toA1Notation(tabTitle: string, range?: string): string {
+  const quoted = `'${tabTitle.replace(/'/g, "''")}'`;
+  return range ? `${quoted}!${range}` : quoted;
+}
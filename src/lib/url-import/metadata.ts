@@ -0,0 +1,60 @@
+/**
+ * Fields an importer read alongside a URL, such as a sitemap's `lastmod`,
+ * keyed by field name. Values are kept as the source wrote them.
+ */
+export type UrlMetadata = Record<string, string>;
+
+// Metadata of imported URLs, keyed by the URL as it appears in the imported text.
+export type ImportedUrlMetadata = Map<string, UrlMetadata>;
+
+export type MetadataFilterOperator = 'contains' | 'gte' | 'lte';
+
+export type MetadataFilter = {
+  field: string;
+  operator: MetadataFilterOperator;
+  value: string;
+};
+
+export const METADATA_FILTER_OPERATORS: { value: MetadataFilterOperator; label: string }[] = [
+  { value: 'contains', label: 'contains' },
+  { value: 'gte', label: '≥' },
+  { value: 'lte', label: '≤' },
+];
+
+/**
+ * Adds `incoming` to `existing`. A URL imported twice keeps the fields of both
+ * imports; where they disagree the newer value wins.
+ */
+export function mergeImportedMetadata(existing: ImportedUrlMetadata, incoming: ImportedUrlMetadata): ImportedUrlMetadata {
+  const merged = new Map(existing);
+  incoming.forEach((metadata, url) => merged.set(url, { ...merged.get(url), ...metadata }));
+  return merged;
+}
+
+/**
+ * Field names in order of first appearance.
+ */
+export function getMetadataFields(metadata: Iterable<UrlMetadata>): string[] {
+  const fields = new Set<string>();
+  for (const entry of metadata) Object.keys(entry).forEach((field) => fields.add(field));
+  return Array.from(fields);
+}
+
+/**
+ * Whether a URL's metadata passes a filter. `gte`/`lte` compare numerically
+ * when both sides are numbers and as strings otherwise, which orders ISO dates
+ * such as sitemap `lastmod` values correctly. A URL without the field never
+ * matches.
+ */
+export function matchesMetadataFilter(metadata: UrlMetadata | undefined, filter: MetadataFilter): boolean {
+  const actual = metadata?.[filter.field];
+  if (actual === undefined) return false;
+  const expected = filter.value.trim();
+  if (filter.operator === 'contains') return actual.toLowerCase().includes(expected.toLowerCase());
+
+  const bothNumeric = actual.trim() !== '' && expected !== '' && !isNaN(Number(actual)) && !isNaN(Number(expected));
+  const comparison = bothNumeric
+    ? Number(actual) - Number(expected)
+    : actual < expected ? -1 : actual > expected ? 1 : 0;
+  return filter.operator === 'gte' ? comparison >= 0 : comparison <= 0;
+}
@@ -0,0 +1,57 @@
+// What a source's row numbers count: spreadsheet rows, text lines or HAR entries.
+export type OriginUnit = 'row' | 'line' | 'entry';
+
+/**
+ * Where the URLs of one import came from: the file, sheet or sitemap name
+ * and, where the source has them, the row of each URL (parallel to the
+ * imported URLs).
+ */
+export type ImportSource = {
+  name: string;
+  unit?: OriginUnit;
+  rows?: number[];
+};
+
+export type UrlOrigin = {
+  source: string;
+  unit?: OriginUnit;
+  row?: number;
+};
+
+// Every place each imported URL was read from, keyed by the URL as it appears
+// in the imported text. A URL imported from several files has several origins.
+export type ImportedUrlOrigins = Map<string, UrlOrigin[]>;
+
+/**
+ * Adds the origins of one import to `origins`, in place: a streamed file
+ * arrives in many batches, and copying the map for each would make large
+ * imports quadratic.
+ */
+export function addUrlOrigins(origins: ImportedUrlOrigins, urls: string[], source: ImportSource): void {
+  urls.forEach((url, index) => {
+    const origin: UrlOrigin = { source: source.name, unit: source.unit, row: source.rows?.[index] };
+    const existing = origins.get(url);
+    if (existing) existing.push(origin);
+    else origins.set(url, [origin]);
+  });
+}
+
+/**
+ * `crawl-b.csv row 88`, or just the source name when it has no rows.
+ */
+export const formatUrlOrigin = (origin: UrlOrigin) =>
+  origin.row === undefined ? origin.source : `${origin.source} ${origin.unit ?? 'row'} ${origin.row}`;
+
+// Every origin of a set of URL variants, in import order.
+export const getUrlOrigins = (origins: ImportedUrlOrigins, urls: string[]) => urls.flatMap((url) => origins.get(url) ?? []);
+
+/**
+ * The origins of a set of URL variants as tooltip lines: `from crawl-a.csv
+ * row 12`, then `also in crawl-b.csv row 88`. Long lists are cut short with a
+ * count of the rest.
+ */
+export function describeUrlOrigins(origins: ImportedUrlOrigins, urls: string[], limit = 5): string[] {
+  const all = getUrlOrigins(origins, urls).map(formatUrlOrigin);
+  const lines = all.slice(0, limit).map((origin, index) => (index === 0 ? `from ${origin}` : `also in ${origin}`));
+  return all.length > limit ? [...lines, `and ${all.length - limit} more`] : lines;
+}
@@ -0,0 +1,93 @@
+import { NETWORK_ERROR_LABELS, classifyFetchError } from '@/lib/status-checker/errors';
+import {
+  collectSitemapUrls,
+  parseRobotsSitemaps,
+  readSitemapStream,
+  SitemapTooLargeError,
+  type SitemapImportResult,
+} from '@/lib/url-import/sitemap';
+
+const SITEMAP_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; URLDetective/1.0; +sitemap-import)',
+  'Accept': 'application/xml,text/xml,application/gzip,text/plain;q=0.9,*/*;q=0.8',
+};
+const SITEMAP_FETCH_TIMEOUT_MS = 20_000;
+// 50 MB is the protocol's limit for an uncompressed sitemap.
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+// Fetches a sitemap or robots.txt, gunzipped if need be. Failures are thrown
+// with a message fit for the import summary.
+async function fetchText(url: string): Promise<string> {
+  const timeoutSignal = AbortSignal.timeout(SITEMAP_FETCH_TIMEOUT_MS);
+  const networkError = (error: unknown) => {
+    const classified = classifyFetchError(error, timeoutSignal.aborted);
+    return new Error(`${NETWORK_ERROR_LABELS[classified.kind]}: ${classified.message}`);
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: SITEMAP_HEADERS, signal: timeoutSignal });
+  } catch (error) {
+    throw networkError(error);
+  }
+  if (!response.ok) {
+    await response.body?.cancel().catch(() => {});
+    throw new Error(`HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`);
+  }
+  // Refused up front when declared; chunked and gzipped bodies are counted as they stream.
+  if (Number(response.headers.get('content-length')) > MAX_SITEMAP_BYTES) {
+    await response.body?.cancel().catch(() => {});
+    throw new SitemapTooLargeError(`File is larger than ${MAX_SITEMAP_BYTES / 1024 / 1024} MB.`);
+  }
+  if (!response.body) return '';
+  try {
+    return await readSitemapStream(response.body, MAX_SITEMAP_BYTES);
+  } catch (error) {
+    if (error instanceof SitemapTooLargeError) throw error;
+    throw networkError(error);
+  }
+}
+
+/**
+ * Where to look for sitemaps, given what the user typed: a sitemap URL is read
+ * as is; a site root or a robots.txt URL has its robots.txt `Sitemap:` lines
+ * read, falling back to `/sitemap.xml` when it lists none.
+ */
+async function resolveSitemapSources(input: string): Promise<{ sitemaps: string[]; note?: string }> {
+  const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`);
+  const isRobots = url.pathname.toLowerCase().endsWith('/robots.txt');
+  if (!isRobots && url.pathname !== '/') return { sitemaps: [url.toString()] };
+
+  const robotsUrl = isRobots ? url.toString() : new URL('/robots.txt', url).toString();
+  const fallback = new URL('/sitemap.xml', url).toString();
+  try {
+    const sitemaps = parseRobotsSitemaps(await fetchText(robotsUrl), robotsUrl);
+    if (sitemaps.length > 0) return { sitemaps };
+    return { sitemaps: [fallback], note: `${robotsUrl} lists no sitemaps; tried ${fallback}.` };
+  } catch (error) {
+    return { sitemaps: [fallback], note: `Could not read ${robotsUrl} (${(error as Error).message}); tried ${fallback}.` };
+  }
+}
+
+/**
+ * Imports the URLs of a sitemap, sitemap index, robots.txt or site. Failures
+ * are reported in `errors` rather than thrown, so a large index with a few
+ * broken files still imports the rest.
+ */
+export async function importSitemapFromUrl(input: string): Promise<SitemapImportResult> {
+  let sources: { sitemaps: string[]; note?: string };
+  try {
+    sources = await resolveSitemapSources(input.trim());
+  } catch {
+    return { urls: [], sitemaps: [], errors: [{ url: input, message: 'Not a valid URL.' }], truncated: false };
+  }
+  const result = await collectSitemapUrls(sources.sitemaps, fetchText);
+  return sources.note ? { ...result, note: sources.note } : result;
+}
+
+/**
+ * Reads the sitemaps an uploaded sitemap index lists.
+ */
+export async function importSitemapsFromIndex(sitemapUrls: string[]): Promise<SitemapImportResult> {
+  return collectSitemapUrls(sitemapUrls, fetchText);
+}
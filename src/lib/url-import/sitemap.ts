@@ -0,0 +1,260 @@
+import type { ImportedUrlMetadata, UrlMetadata } from '@/lib/url-import/metadata';
+
+// The sitemap protocol caps a file at 50,000 URLs and 50 MB uncompressed; the
+// limits below bound a whole import, index files included.
+export const MAX_SITEMAP_FILES = 500;
+export const MAX_SITEMAP_URLS = 200_000;
+const MAX_INDEX_DEPTH = 5;
+
+export type SitemapUrl = {
+  url: string;
+  lastmod?: string;
+  priority?: string;
+  changefreq?: string;
+  sitemap?: string; // The sitemap file that listed the URL, when read through an index
+};
+
+export type ParsedSitemap =
+  | { type: 'urlset'; urls: SitemapUrl[] }
+  | { type: 'sitemapindex'; sitemaps: string[] };
+
+export type SitemapImportError = {
+  url: string;
+  message: string;
+};
+
+export type SitemapImportResult = {
+  urls: SitemapUrl[];
+  sitemaps: string[]; // Sitemap files read, in order
+  errors: SitemapImportError[];
+  truncated: boolean; // A file or URL limit was hit
+  note?: string; // How the sitemaps were found, when robots.txt did not list any
+};
+
+// Entries may be namespaced (`<sm:url>`) when the file declares a prefix.
+const ENTRY_RE = /<(?:[\w-]+:)?(url|sitemap)\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?\1>/gi;
+const SITEMAP_INDEX_RE = /<(?:[\w-]+:)?sitemapindex\b/i;
+const URLSET_RE = /<(?:[\w-]+:)?urlset\b/i;
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+/**
+ * Decodes the XML predefined entities and numeric character references; also
+ * enough for the attribute values of HTML links.
+ */
+export const decodeXmlEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (!name.startsWith('#')) return ENTITIES[name.toLowerCase()] ?? entity;
+    const codePoint = /^#x/i.test(name) ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+
+function decodeXmlText(raw: string): string {
+  const cdata = raw.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1].trim();
+  return decodeXmlEntities(raw).trim();
+}
+
+// Unprefixed tags first: image and video extensions nest `<image:loc>` inside
+// `<url>`, and that must not be taken for the page's own `<loc>`.
+function readTag(block: string, name: string): string | undefined {
+  const match =
+    block.match(new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`, 'i')) ??
+    block.match(new RegExp(`<(?:sm|sitemap):${name}\\b[^>]*>([\\s\\S]*?)</(?:sm|sitemap):${name}>`, 'i'));
+  const value = match ? decodeXmlText(match[1]) : '';
+  return value || undefined;
+}
+
+const isHttpUrl = (value: string) => /^https?:\/\//i.test(value) && URL.canParse(value);
+
+/**
+ * Parses a sitemap or sitemap index. A regular-expression scan rather than an
+ * XML parser, so it also works in the browser and on files that are not
+ * quite well-formed. Throws when the text is neither.
+ */
+export function parseSitemapXml(xml: string): ParsedSitemap {
+  if (SITEMAP_INDEX_RE.test(xml)) {
+    const sitemaps: string[] = [];
+    for (const [, tag, body] of xml.matchAll(ENTRY_RE)) {
+      const loc = tag.toLowerCase() === 'sitemap' ? readTag(body, 'loc') : undefined;
+      if (loc && isHttpUrl(loc)) sitemaps.push(loc);
+    }
+    return { type: 'sitemapindex', sitemaps };
+  }
+  if (!URLSET_RE.test(xml)) throw new Error('Not a sitemap: no <urlset> or <sitemapindex> element.');
+
+  const urls: SitemapUrl[] = [];
+  for (const [, tag, body] of xml.matchAll(ENTRY_RE)) {
+    if (tag.toLowerCase() !== 'url') continue;
+    const loc = readTag(body, 'loc');
+    if (!loc || !isHttpUrl(loc)) continue;
+    const lastmod = readTag(body, 'lastmod');
+    const priority = readTag(body, 'priority');
+    const changefreq = readTag(body, 'changefreq');
+    urls.push({
+      url: loc,
+      ...(lastmod ? { lastmod } : {}),
+      ...(priority && !isNaN(Number(priority)) ? { priority } : {}),
+      ...(changefreq ? { changefreq: changefreq.toLowerCase() } : {}),
+    });
+  }
+  return { type: 'urlset', urls };
+}
+
+/**
+ * Decodes a sitemap file, gunzipping it first when it starts with the gzip
+ * magic bytes (`.xml.gz` files are often served without Content-Encoding).
+ */
+export async function decodeSitemapBytes(bytes: Uint8Array): Promise<string> {
+  if (bytes[0] !== GZIP_MAGIC[0] || bytes[1] !== GZIP_MAGIC[1]) return new TextDecoder().decode(bytes);
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
+
+export class SitemapTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SitemapTooLargeError';
+  }
+}
+
+/**
+ * Reads a sitemap as it streams in, gunzipping it like `decodeSitemapBytes`.
+ * Both the bytes received and, for a gzipped file, the bytes it inflates to
+ * are counted, and reading stops with an error once either passes
+ * `maxBytes`, so neither a chunked response nor a gzip bomb is held whole.
+ */
+export async function readSitemapStream(body: ReadableStream<Uint8Array>, maxBytes: number): Promise<string> {
+  const tooLarge = () => new SitemapTooLargeError(`File is larger than ${maxBytes / 1024 / 1024} MB.`);
+  const source = body.getReader();
+
+  // The first chunks, until there are enough bytes to see the gzip magic.
+  const head: Uint8Array[] = [];
+  let headLength = 0;
+  while (headLength < GZIP_MAGIC.length) {
+    const { done, value } = await source.read();
+    if (done) break;
+    head.push(value);
+    headLength += value.byteLength;
+  }
+  const first = head.flatMap((chunk) => Array.from(chunk.subarray(0, GZIP_MAGIC.length)));
+  const isGzip = first[0] === GZIP_MAGIC[0] && first[1] === GZIP_MAGIC[1];
+
+  let received = 0;
+  const counted = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const next = head.shift() ?? (await source.read()).value;
+      if (!next) return controller.close();
+      received += next.byteLength;
+      if (received > maxBytes) {
+        await source.cancel().catch(() => {});
+        return controller.error(tooLarge());
+      }
+      controller.enqueue(next);
+    },
+    cancel: (reason) => source.cancel(reason),
+  });
+
+  const reader = (isGzip ? counted.pipeThrough(new DecompressionStream('gzip')) : counted).getReader();
+  const decoder = new TextDecoder();
+  const parts: string[] = [];
+  let decoded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    decoded += value.byteLength;
+    if (decoded > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw tooLarge();
+    }
+    parts.push(decoder.decode(value, { stream: true }));
+  }
+  parts.push(decoder.decode());
+  return parts.join('');
+}
+
+/**
+ * The `Sitemap:` lines of a robots.txt, resolved against its URL.
+ */
+export function parseRobotsSitemaps(robotsTxt: string, robotsUrl: string): string[] {
+  const sitemaps: string[] = [];
+  for (const line of robotsTxt.split(/\r?\n/)) {
+    const match = line.match(/^\s*sitemap\s*:\s*(\S+)/i);
+    if (!match) continue;
+    try {
+      const url = new URL(match[1], robotsUrl).toString();
+      if (!sitemaps.includes(url)) sitemaps.push(url);
+    } catch {
+      // Not a URL; ignore the line.
+    }
+  }
+  return sitemaps;
+}
+
+/**
+ * Reads sitemaps and, recursively, the sitemaps their indexes list, up to
+ * `MAX_SITEMAP_FILES` files and `MAX_SITEMAP_URLS` URLs. Files are fetched
+ * with `fetchXml`; one that fails is recorded in `errors` and the rest are
+ * still read. A URL listed twice keeps its first entry, and each URL records
+ * the sitemap that listed it.
+ */
+export async function collectSitemapUrls(
+  sitemapUrls: string[],
+  fetchXml: (url: string) => Promise<string>,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<SitemapImportResult> {
+  const result: SitemapImportResult = { urls: [], sitemaps: [], errors: [], truncated: false };
+  const seenSitemaps = new Set<string>();
+  const seenUrls = new Set<string>();
+
+  const visit = async (sitemapUrl: string, depth: number): Promise<void> => {
+    if (signal?.aborted || seenSitemaps.has(sitemapUrl)) return;
+    if (seenSitemaps.size >= MAX_SITEMAP_FILES || result.urls.length >= MAX_SITEMAP_URLS) {
+      result.truncated = true;
+      return;
+    }
+    seenSitemaps.add(sitemapUrl);
+
+    let parsed: ParsedSitemap;
+    try {
+      parsed = parseSitemapXml(await fetchXml(sitemapUrl));
+    } catch (error) {
+      result.errors.push({ url: sitemapUrl, message: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    result.sitemaps.push(sitemapUrl);
+
+    if (parsed.type === 'sitemapindex') {
+      if (depth >= MAX_INDEX_DEPTH) {
+        result.errors.push({ url: sitemapUrl, message: `Sitemap indexes nested more than ${MAX_INDEX_DEPTH} levels deep.` });
+        return;
+      }
+      for (const child of parsed.sitemaps) await visit(child, depth + 1);
+      return;
+    }
+    for (const entry of parsed.urls) {
+      if (result.urls.length >= MAX_SITEMAP_URLS) {
+        result.truncated = true;
+        return;
+      }
+      if (seenUrls.has(entry.url)) continue;
+      seenUrls.add(entry.url);
+      result.urls.push({ ...entry, sitemap: sitemapUrl });
+    }
+  };
+
+  for (const sitemapUrl of sitemapUrls) await visit(sitemapUrl, 0);
+  return result;
+}
+
+/**
+ * The `lastmod`, `priority` and `changefreq` of each URL, for the importer's
+ * metadata hand-off.
+ */
+export function toSitemapMetadata(urls: SitemapUrl[]): ImportedUrlMetadata {
+  const metadata: ImportedUrlMetadata = new Map();
+  for (const { url, sitemap, ...fields } of urls) {
+    if (Object.keys(fields).length > 0) metadata.set(url, fields as UrlMetadata);
+  }
+  return metadata;
+}
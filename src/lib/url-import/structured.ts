@@ -0,0 +1,293 @@
+import type { ImportedUrlMetadata, UrlMetadata } from '@/lib/url-import/metadata';
+import { decodeXmlEntities } from '@/lib/url-import/sitemap';
+import { looksLikeUrl } from '@/lib/url-import/table';
+
+/**
+ * URLs read from a structured file, with the fields kept alongside them.
+ */
+export type StructuredImport = {
+  urls: string[];
+  metadata: ImportedUrlMetadata;
+  skipped: number; // Selected values or entries that are not importable URLs
+  rows?: number[]; // The HAR entry or JSON Lines line, from 1, of each URL
+};
+
+type PathStep =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'descendant'; key: string };
+
+// `.name`, `..name`, `.*`, `[0]`, `[*]`, `[]` and `['quoted name']`.
+const PATH_TOKEN_RE = /\.\.([\w$-]+)|\.([\w$-]+|\*)|\[\s*(?:(\d+)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|\*?)\s*\]/y;
+// Records walked when suggesting paths; enough to find the URL fields of a crawler's output.
+const SUGGEST_MAX_NODES = 50_000;
+const FETCHABLE_URL_RE = /^(?:https?|ftp):\/\//i;
+
+// JSON values may also be bare hosts, e.g. `example.com/page`, as table cells may.
+const isJsonUrl = (value: string) => FETCHABLE_URL_RE.test(value) || (!value.includes('://') && looksLikeUrl(value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isScalar = (value: unknown): value is string | number | boolean =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+/**
+ * Parses a JSONPath-like selector: `$.items[*].url`, `items[].url`,
+ * `data['page url']` or `..href` for a key at any depth. The leading `$` and
+ * the first dot are optional. Throws on a malformed path.
+ */
+export function parseJsonPath(path: string): PathStep[] {
+  let rest = path.trim().replace(/^\$/, '');
+  if (rest && !/^[.[]/.test(rest)) rest = `.${rest}`;
+
+  const steps: PathStep[] = [];
+  PATH_TOKEN_RE.lastIndex = 0;
+  while (PATH_TOKEN_RE.lastIndex < rest.length) {
+    const position = PATH_TOKEN_RE.lastIndex;
+    const match = PATH_TOKEN_RE.exec(rest);
+    if (!match) throw new Error(`Unexpected "${rest.slice(position, position + 10)}" in the path.`);
+    const [, descendant, key, index, singleQuoted, doubleQuoted] = match;
+    if (descendant) steps.push({ kind: 'descendant', key: descendant });
+    else if (key === '*') steps.push({ kind: 'wildcard' });
+    else if (key) steps.push({ kind: 'key', key });
+    else if (index) steps.push({ kind: 'index', index: Number(index) });
+    else if (singleQuoted !== undefined || doubleQuoted !== undefined) {
+      steps.push({ kind: 'key', key: (singleQuoted ?? doubleQuoted).replace(/\\(.)/g, '$1') });
+    } else steps.push({ kind: 'wildcard' });
+  }
+  return steps;
+}
+
+type PathMatch = { value: unknown; parent?: Record<string, unknown> };
+
+function collectDescendants(value: unknown, key: string, out: PathMatch[]) {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectDescendants(item, key, out));
+  } else if (isRecord(value)) {
+    if (key in value) out.push({ value: value[key], parent: value });
+    Object.values(value).forEach((item) => collectDescendants(item, key, out));
+  }
+}
+
+/**
+ * The values a path selects, each with the object holding it. A key applied
+ * to an array applies to each of its items, so `items.url` reads like
+ * `items[*].url`.
+ */
+export function selectJsonPath(data: unknown, steps: PathStep[]): PathMatch[] {
+  let current: PathMatch[] = [{ value: data }];
+  for (const step of steps) {
+    const next: PathMatch[] = [];
+    const apply = ({ value }: PathMatch) => {
+      if (step.kind === 'descendant') collectDescendants(value, step.key, next);
+      else if (step.kind === 'wildcard') {
+        if (Array.isArray(value)) value.forEach((item) => next.push({ value: item }));
+        else if (isRecord(value)) Object.values(value).forEach((item) => next.push({ value: item, parent: value }));
+      } else if (step.kind === 'index') {
+        if (Array.isArray(value) && step.index < value.length) next.push({ value: value[step.index] });
+      } else if (Array.isArray(value)) {
+        value.forEach((item) => apply({ value: item }));
+      } else if (isRecord(value) && step.key in value) {
+        next.push({ value: value[step.key], parent: value });
+      }
+    };
+    current.forEach(apply);
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Paths to fields holding URLs, with how many URLs each holds, most first.
+ * Array indices are written as `[*]`.
+ */
+export function suggestUrlPaths(records: unknown[]): { path: string; count: number }[] {
+  const counts = new Map<string, number>();
+  let visited = 0;
+  const walk = (value: unknown, path: string) => {
+    if (++visited > SUGGEST_MAX_NODES) return;
+    if (typeof value === 'string') {
+      if (isJsonUrl(value.trim())) counts.set(path || '$', (counts.get(path || '$') ?? 0) + 1);
+    } else if (Array.isArray(value)) {
+      value.forEach((item) => walk(item, `${path}[*]`));
+    } else if (isRecord(value)) {
+      for (const [key, item] of Object.entries(value)) {
+        walk(item, /^[\w$-]+$/.test(key) ? `${path}.${key}` : `${path}['${key.replace(/['\\]/g, '\\$&')}']`);
+      }
+    }
+  };
+  for (const record of records) walk(record, '$');
+  return Array.from(counts, ([path, count]) => ({ path, count })).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Parses a JSON document, or JSON Lines with one record per line. Malformed
+ * lines are reported by line number and left out; `lines` holds the line of
+ * each record that was read.
+ */
+export function parseJsonRecords(
+  text: string,
+  format: 'json' | 'jsonl',
+): { records: unknown[]; errors: string[]; lines?: number[] } {
+  if (format === 'json') {
+    try {
+      return { records: [JSON.parse(text)], errors: [] };
+    } catch (error) {
+      throw new Error(`The file is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+  const records: unknown[] = [];
+  const errors: string[] = [];
+  const lines: number[] = [];
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line));
+      lines.push(index + 1);
+    } catch (error) {
+      errors.push(`Line ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+  return { records, errors, lines };
+}
+
+/**
+ * Reads the web (http, https, ftp) URLs and bare host names a path selects
+ * from each record; other values are skipped and counted. With `carryFields`, the other scalar fields of
+ * the object holding a URL become its metadata. Given the `lines` of JSON
+ * Lines records, each URL keeps the line it came from.
+ */
+export function extractJsonUrls(
+  records: unknown[],
+  path: string,
+  { carryFields = false, lines }: { carryFields?: boolean; lines?: number[] } = {},
+): StructuredImport {
+  const steps = parseJsonPath(path);
+  const result: StructuredImport = { urls: [], metadata: new Map(), skipped: 0, rows: lines && [] };
+  records.forEach((record, index) => {
+    for (const { value, parent } of selectJsonPath(record, steps)) {
+      const url = typeof value === 'string' ? value.trim() : '';
+      if (!isJsonUrl(url)) {
+        result.skipped++;
+        continue;
+      }
+      result.urls.push(url);
+      result.rows?.push(lines![index]);
+      if (!carryFields || !parent) continue;
+
+      const fields: UrlMetadata = {};
+      for (const [key, field] of Object.entries(parent)) {
+        if (field !== value && isScalar(field) && String(field).trim()) fields[key] = String(field);
+      }
+      if (Object.keys(fields).length > 0) result.metadata.set(url, { ...result.metadata.get(url), ...fields });
+    }
+  });
+  return result;
+}
+
+// A URL seen more than once keeps each distinct value, e.g. `GET, POST`.
+function addDistinct(metadata: ImportedUrlMetadata, url: string, fields: UrlMetadata) {
+  const existing = metadata.get(url);
+  if (!existing) {
+    metadata.set(url, fields);
+    return;
+  }
+  for (const [field, value] of Object.entries(fields)) {
+    const values = existing[field] ? existing[field].split(', ') : [];
+    if (!values.includes(value)) existing[field] = [...values, value].join(', ');
+  }
+}
+
+/**
+ * Reads the requests of a HAR capture. Each URL keeps its request `method`,
+ * response `status` (0 for requests that never got one) and content `type`,
+ * to compare against a fresh status check. `data:` and `blob:` URLs are skipped.
+ */
+export function parseHar(text: string): StructuredImport {
+  let har: unknown;
+  try {
+    har = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The file is not valid JSON: ${(error as Error).message}`);
+  }
+  const log = isRecord(har) ? har.log : undefined;
+  const entries = isRecord(log) ? log.entries : undefined;
+  if (!Array.isArray(entries)) throw new Error('Not a HAR file: it has no log.entries.');
+
+  const result: StructuredImport = { urls: [], metadata: new Map(), skipped: 0, rows: [] };
+  entries.forEach((entry: unknown, index) => {
+    const request = isRecord(entry) && isRecord(entry.request) ? entry.request : {};
+    const response = isRecord(entry) && isRecord(entry.response) ? entry.response : {};
+    const url = typeof request.url === 'string' ? request.url : '';
+    if (!FETCHABLE_URL_RE.test(url)) {
+      result.skipped++;
+      return;
+    }
+    result.urls.push(url);
+    result.rows!.push(index + 1);
+    const fields: UrlMetadata = {};
+    if (isScalar(request.method) && request.method !== '') fields.method = String(request.method).toUpperCase();
+    if (typeof response.status === 'number') fields.status = String(response.status);
+    const content = isRecord(response.content) ? response.content : {};
+    const mimeType = typeof content.mimeType === 'string' ? content.mimeType.split(';')[0].trim() : '';
+    if (mimeType) fields.type = mimeType;
+    addDistinct(result.metadata, url, fields);
+  });
+  return result;
+}
+
+export const isNetscapeBookmarks = (text: string) => /<!DOCTYPE\s+NETSCAPE-Bookmark-file-1>/i.test(text.slice(0, 1024));
+
+const BOOKMARK_TOKEN_RE = /<H3\b[^>]*>([\s\S]*?)<\/H3>|<DL\b[^>]*>|<\/DL>|<A\b([^>]*)>([\s\S]*?)<\/A>/gi;
+const ATTRIBUTE_RE = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+
+const htmlText = (html: string) => decodeXmlEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+
+/**
+ * Reads a browser bookmarks export (the Netscape bookmark file format all
+ * browsers write). Each URL keeps its `title`, its `folder` path and the date
+ * it was `added`. Bookmarklets and browser-internal links are skipped.
+ */
+export function parseNetscapeBookmarks(text: string): StructuredImport {
+  const result: StructuredImport = { urls: [], metadata: new Map(), skipped: 0 };
+  const folders: (string | null)[] = [];
+  let pendingFolder: string | null = null;
+
+  for (const match of text.matchAll(BOOKMARK_TOKEN_RE)) {
+    const token = match[0].slice(0, 3).toUpperCase();
+    if (token === '<H3') {
+      pendingFolder = htmlText(match[1]);
+    } else if (token === '<DL') {
+      // The outermost list has no heading; it is the root, not a folder.
+      folders.push(pendingFolder);
+      pendingFolder = null;
+    } else if (token === '</D') {
+      folders.pop();
+    } else {
+      const attributes: Record<string, string> = {};
+      for (const attribute of match[2].matchAll(ATTRIBUTE_RE)) {
+        attributes[attribute[1].toLowerCase()] = decodeXmlEntities(attribute[2] ?? attribute[3] ?? attribute[4] ?? '');
+      }
+      const url = attributes.href?.trim() ?? '';
+      if (!FETCHABLE_URL_RE.test(url)) {
+        result.skipped++;
+        continue;
+      }
+      result.urls.push(url);
+
+      const fields: UrlMetadata = {};
+      const title = htmlText(match[3]);
+      if (title) fields.title = title;
+      const folder = folders.filter(Boolean).join(' / ');
+      if (folder) fields.folder = folder;
+      const added = Number(attributes.add_date);
+      // Seconds since the epoch, though some exporters write milli- or microseconds.
+      const addedMs = added > 1e14 ? added / 1000 : added > 1e11 ? added : added * 1000;
+      if (addedMs > 0) fields.added = new Date(addedMs).toISOString().slice(0, 10);
+      if (Object.keys(fields).length > 0 && !result.metadata.has(url)) result.metadata.set(url, fields);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,176 @@
+import type { ImportedUrlMetadata, UrlMetadata } from '@/lib/url-import/metadata';
+import type { WorkSheet } from 'xlsx';
+
+type XLSXModule = typeof import('xlsx');
+
+/**
+ * One worksheet of a spreadsheet or CSV import, as rows of cell text.
+ */
+export type ImportSheet = {
+  name: string;
+  rows: string[][];
+  rowNumbers?: number[]; // Row of each entry of `rows` in the source, where blank rows were left out
+};
+
+/**
+ * How the rows of a sheet map to URLs: which row (if any) is the header, which
+ * column holds the URLs and which other columns are carried along as metadata.
+ */
+export type ColumnMapping = {
+  headerRow: number | null;
+  urlColumn: number;
+  extraColumns: number[];
+};
+
+export type TableImport = {
+  urls: string[];
+  rows: number[]; // Source row of each URL
+  metadata: ImportedUrlMetadata;
+  skipped: number; // Non-empty cells in the URL column that are not URLs
+};
+
+// A URL with a scheme, or a bare host name with an optional path, e.g.
+// `example.com/page`. Bare words and numbers are not URLs.
+const URL_CELL_RE = /^(?:[a-z][a-z0-9+.-]*:\/\/\S+|(?:www\.)?(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,63}(?::\d+)?(?:[/?#]\S*)?)$/i;
+const URL_HEADER_RE = /^(?:urls?|links?|hrefs?|addresses|address|website|webpage|page|domain|loc)$/i;
+// Rows sampled when judging columns; enough to be representative of large sheets.
+const SAMPLE_ROWS = 500;
+// Share of a column's cells that must look like URLs for it to be auto-detected.
+const MIN_URL_DENSITY = 0.5;
+
+export const looksLikeUrl = (cell: string) => URL_CELL_RE.test(cell.trim());
+
+/**
+ * Spreadsheet-style column label: 0 → A, 25 → Z, 26 → AA.
+ */
+export function columnLetter(index: number): string {
+  let label = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
+
+/**
+ * A worksheet as rows of display text, so dates and numbers read as they do
+ * in the spreadsheet. Blank rows are left out; `rowNumbers` keeps the sheet
+ * row of the others. `XLSX` is passed in so callers can load it lazily.
+ */
+export function readWorksheet(XLSX: XLSXModule, name: string, worksheet: WorkSheet): ImportSheet {
+  const firstRow = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s.r + 1 : 1;
+  const sheet: Required<ImportSheet> = { name, rows: [], rowNumbers: [] };
+  XLSX.utils
+    .sheet_to_json<unknown[]>(worksheet, { header: 1, raw: false, defval: '', blankrows: true })
+    .forEach((row, index) => {
+      const cells = row.map((cell) => String(cell ?? ''));
+      if (cells.every((cell) => cell === '')) return;
+      sheet.rows.push(cells);
+      sheet.rowNumbers.push(firstRow + index);
+    });
+  return sheet;
+}
+
+export const columnCount = (rows: string[][]) => rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+export const firstNonEmptyRow = (rows: string[][]) => rows.findIndex((row) => row.some((cell) => cell.trim() !== ''));
+
+/**
+ * Share of the non-empty cells of each column, below `fromRow`, that look like URLs.
+ */
+export function getUrlDensities(rows: string[][], fromRow = 0): number[] {
+  const sample = rows.slice(fromRow, fromRow + SAMPLE_ROWS);
+  return Array.from({ length: columnCount(rows) }, (_, column) => {
+    const cells = sample.map((row) => row[column]?.trim() ?? '').filter(Boolean);
+    return cells.length === 0 ? 0 : cells.filter(looksLikeUrl).length / cells.length;
+  });
+}
+
+/**
+ * The header row: the first non-empty row, when none of its cells look like
+ * URLs or numbers while the rows below have a column of URLs, or when one of
+ * its cells is a URL-ish column name such as "url" or "link".
+ */
+export function detectHeaderRow(rows: string[][]): number | null {
+  const first = firstNonEmptyRow(rows);
+  if (first === -1) return null;
+  const cells = rows[first].map((cell) => cell.trim()).filter(Boolean);
+  if (cells.some(looksLikeUrl)) return null;
+  if (cells.some((cell) => URL_HEADER_RE.test(cell))) return first;
+  const isTextOnly = cells.every((cell) => isNaN(Number(cell)));
+  return isTextOnly && Math.max(0, ...getUrlDensities(rows, first + 1)) >= MIN_URL_DENSITY ? first : null;
+}
+
+/**
+ * The column with the highest share of URL-looking cells; a header named
+ * like a URL column settles ties and sheets where no column looks like URLs.
+ * Falls back to the first column with content.
+ */
+export function detectUrlColumn(rows: string[][], headerRow: number | null): number {
+  const start = headerRow === null ? Math.max(firstNonEmptyRow(rows), 0) : headerRow + 1;
+  const densities = getUrlDensities(rows, start);
+  const header = headerRow === null ? [] : rows[headerRow];
+  const namedUrl = (column: number) => URL_HEADER_RE.test(header[column]?.trim() ?? '');
+
+  let best = -1;
+  densities.forEach((density, column) => {
+    if (density < MIN_URL_DENSITY) return;
+    if (best === -1 || density > densities[best] || (density === densities[best] && namedUrl(column) && !namedUrl(best))) {
+      best = column;
+    }
+  });
+  if (best !== -1) return best;
+
+  const named = header.findIndex((_, column) => namedUrl(column));
+  if (named !== -1) return named;
+  const withContent = densities.findIndex((_, column) => rows.slice(start).some((row) => row[column]?.trim()));
+  return Math.max(withContent, 0);
+}
+
+/**
+ * The mapping an import starts from before the user adjusts it.
+ */
+export function detectColumnMapping(rows: string[][]): ColumnMapping {
+  const headerRow = detectHeaderRow(rows);
+  return { headerRow, urlColumn: detectUrlColumn(rows, headerRow), extraColumns: [] };
+}
+
+/**
+ * Column names: the header cell, or the column letter where there is none.
+ */
+export function getColumnNames(rows: string[][], headerRow: number | null): string[] {
+  return Array.from({ length: columnCount(rows) }, (_, column) => {
+    const name = headerRow === null ? '' : rows[headerRow][column]?.trim() ?? '';
+    return name || `Column ${columnLetter(column)}`;
+  });
+}
+
+/**
+ * Reads the URLs of a sheet with a mapping. Cells of the URL column that do
+ * not look like URLs are skipped and counted; extra columns become metadata
+ * named after their headers.
+ */
+export function extractTableUrls(rows: string[][], mapping: ColumnMapping, rowNumbers?: number[]): TableImport {
+  const names = getColumnNames(rows, mapping.headerRow);
+  const result: TableImport = { urls: [], rows: [], metadata: new Map(), skipped: 0 };
+  const start = mapping.headerRow === null ? 0 : mapping.headerRow + 1;
+
+  for (let index = start; index < rows.length; index++) {
+    const row = rows[index];
+    const url = row[mapping.urlColumn]?.trim() ?? '';
+    if (!url) continue;
+    if (!looksLikeUrl(url)) {
+      result.skipped++;
+      continue;
+    }
+    result.urls.push(url);
+    result.rows.push(rowNumbers?.[index] ?? index + 1);
+
+    const fields: UrlMetadata = {};
+    for (const column of mapping.extraColumns) {
+      const value = row[column]?.trim();
+      if (value) fields[names[column]] = value;
+    }
+    if (Object.keys(fields).length > 0) result.metadata.set(url, { ...result.metadata.get(url), ...fields });
+  }
+  return result;
+}
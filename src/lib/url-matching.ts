@@ -0,0 +1,43 @@
+import { getRegistrableDomain } from '@/lib/public-suffix';
+import {
+  DEFAULT_CANONICALIZE_OPTIONS,
+  canonicalizeUrl,
+  parseUrlLoose,
+  type CanonicalizeOptions,
+} from '@/lib/url-canonicalize';
+
+export type MatchLevel = 'exact' | 'canonical' | 'path' | 'domain' | 'registrable-domain';
+
+export const MATCH_LEVELS: { value: MatchLevel; label: string; unit: string }[] = [
+  { value: 'exact', label: 'Exact match', unit: 'URLs' },
+  { value: 'canonical', label: 'Canonical URL', unit: 'URLs' },
+  { value: 'path', label: 'Same path (ignore query)', unit: 'Paths' },
+  { value: 'domain', label: 'Same domain', unit: 'Domains' },
+  { value: 'registrable-domain', label: 'Same registrable domain (eTLD+1)', unit: 'Sites' },
+];
+
+/**
+ * Returns the key two URL lines must share to be counted as duplicates at the
+ * given matching level. Lines that are not URLs always fall back to exact match.
+ */
+export function getMatchKey(
+  raw: string,
+  level: MatchLevel,
+  options: CanonicalizeOptions = DEFAULT_CANONICALIZE_OPTIONS
+): string {
+  const trimmed = raw.trim();
+  if (level === 'exact') return trimmed;
+  if (level === 'canonical') return canonicalizeUrl(trimmed, options);
+
+  const parsed = parseUrlLoose(trimmed);
+  if (!parsed) return trimmed;
+
+  if (level === 'path') {
+    const key = canonicalizeUrl(trimmed, { ...options, stripFragment: true });
+    return key.split('?')[0];
+  }
+
+  const hostname = options.stripWww ? parsed.hostname.replace(/^www\./, '') : parsed.hostname;
+  if (level === 'domain') return hostname;
+  return getRegistrableDomain(hostname) ?? hostname;
+}
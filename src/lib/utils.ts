@@ -4,3 +4,30 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatDuration(ms: number) {
+  const totalSeconds = Math.ceil(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`
+}
+
+/**
+ * Resolves after `ms`, or as soon as `signal` is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener("abort", () => { clearTimeout(timer); resolve() }, { once: true })
+  })
+}
+
+/**
+ * An untrusted option value (e.g. from a request body) as a number within
+ * `[min, max]`, or `fallback` when it is not a finite number.
+ */
+export function clampOption(value: unknown, [min, max]: [number, number], fallback: number, round = true) {
+  const number = typeof value === "number" && Number.isFinite(value) ? value : fallback
+  const clamped = Math.min(max, Math.max(min, number))
+  return round ? Math.round(clamped) : clamped
+}
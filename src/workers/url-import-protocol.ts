@@ -0,0 +1,26 @@
+/**
+ * A file to stream: `txt` files have a URL per line, `csv` files have their
+ * URL column detected from the first rows. Either may be gzip-compressed.
+ * There is no cancel message; the dialog terminates the worker instead.
+ */
+export type UrlImportRequest = {
+  type: 'import';
+  file: File;
+  format: 'txt' | 'csv';
+};
+
+export type UrlImportResponse =
+  | {
+      type: 'batch';
+      urls: string[]; // URLs read since the last batch; may be empty when only progress moved
+      rows: number[]; // The line (txt) or CSV record, from 1, each URL was read from
+      bytesRead: number; // Of the file as stored, so compressed bytes for a gzip file
+      totalBytes: number;
+    }
+  | {
+      type: 'done';
+      imported: number;
+      skipped: number; // Non-empty cells in a CSV's URL column that are not URLs
+      urlColumn?: string; // The CSV column the URLs were read from
+    }
+  | { type: 'error'; message: string };
@@ -0,0 +1,131 @@
+import { CsvRowParser, LineSplitter } from '@/lib/url-import/csv-stream';
+import { detectHeaderRow, detectUrlColumn, getColumnNames, looksLikeUrl } from '@/lib/url-import/table';
+import type { UrlImportRequest, UrlImportResponse } from '@/workers/url-import-protocol';
+
+// URLs are handed over in batches of this size, or sooner when a batch has
+// been filling for longer than BATCH_INTERVAL_MS, so progress keeps moving.
+const BATCH_SIZE = 20_000;
+const BATCH_INTERVAL_MS = 250;
+// CSV rows read before the header and URL column are decided.
+const SAMPLE_ROWS = 200;
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+function post(message: UrlImportResponse) {
+  self.postMessage(message);
+}
+
+async function isGzip(file: File): Promise<boolean> {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  return head[0] === GZIP_MAGIC[0] && head[1] === GZIP_MAGIC[1];
+}
+
+type Batch = { urls: string[]; rows: number[] };
+
+// Picks the URLs out of CSV rows. The first rows are held back until the
+// header and URL column can be detected from them.
+class CsvUrlReader {
+  private sample: string[][] | null = [];
+  private sampleRecords: number[] = [];
+  private records = 0;
+  private urlColumn = 0;
+  private urlColumnName?: string;
+  skipped = 0;
+
+  read(rows: string[][], batch: Batch, isLast = false) {
+    // Blank records are counted too, so a URL's record matches its row in a spreadsheet.
+    let records = rows.map(() => ++this.records);
+    if (this.sample) {
+      rows.forEach((row, index) => {
+        if (!row.some((cell) => cell.trim() !== '')) return;
+        this.sample!.push(row);
+        this.sampleRecords.push(records[index]);
+      });
+      if (this.sample.length < SAMPLE_ROWS && !isLast) return;
+      const sample = this.sample;
+      this.sample = null;
+      const headerRow = detectHeaderRow(sample);
+      this.urlColumn = detectUrlColumn(sample, headerRow);
+      this.urlColumnName = getColumnNames(sample, headerRow)[this.urlColumn];
+      const start = headerRow === null ? 0 : headerRow + 1;
+      rows = sample.slice(start);
+      records = this.sampleRecords.slice(start);
+    }
+    rows.forEach((row, index) => {
+      const url = row[this.urlColumn]?.trim();
+      if (!url) return;
+      if (looksLikeUrl(url)) {
+        batch.urls.push(url);
+        batch.rows.push(records[index]);
+      } else this.skipped++;
+    });
+  }
+
+  get columnName() {
+    return this.urlColumnName;
+  }
+}
+
+async function importFile({ file, format }: UrlImportRequest) {
+  let bytesRead = 0;
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytesRead += chunk.byteLength;
+      controller.enqueue(chunk);
+    },
+  });
+  const gzipped = await isGzip(file);
+  let bytes = file.stream().pipeThrough(counter);
+  if (gzipped) bytes = bytes.pipeThrough(new DecompressionStream('gzip'));
+  const reader = bytes.pipeThrough(new TextDecoderStream()).getReader();
+
+  const lines = new LineSplitter();
+  const csv = new CsvRowParser();
+  const csvUrls = new CsvUrlReader();
+  let batch: Batch = { urls: [], rows: [] };
+  let lineNumber = 0;
+  let imported = 0;
+  let lastPost = Date.now();
+
+  const collect = (text: string | null) => {
+    const isLast = text === null;
+    if (format === 'csv') {
+      csvUrls.read(isLast ? csv.flush() : csv.push(text), batch, isLast);
+      return;
+    }
+    for (const line of isLast ? lines.flush() : lines.push(text)) {
+      lineNumber++;
+      const url = line.trim();
+      if (!url) continue;
+      batch.urls.push(url);
+      batch.rows.push(lineNumber);
+    }
+  };
+  const flush = () => {
+    imported += batch.urls.length;
+    post({ type: 'batch', ...batch, bytesRead, totalBytes: file.size });
+    batch = { urls: [], rows: [] };
+    lastPost = Date.now();
+  };
+
+  for (;;) {
+    let chunk: ReadableStreamReadResult<string>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      if (!gzipped) throw error;
+      throw new Error(`The file could not be decompressed (${(error as Error).message}).`);
+    }
+    const { done, value } = chunk;
+    collect(done ? null : value);
+    if (done) break;
+    if (batch.urls.length >= BATCH_SIZE || Date.now() - lastPost >= BATCH_INTERVAL_MS) flush();
+  }
+  flush();
+  post({ type: 'done', imported, skipped: csvUrls.skipped, urlColumn: format === 'csv' ? csvUrls.columnName : undefined });
+}
+
+self.onmessage = (event: MessageEvent<UrlImportRequest>) => {
+  importFile(event.data).catch((error: unknown) => {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  });
+};
@@ -0,0 +1,39 @@
+import type { CanonicalizeOptions } from '@/lib/url-canonicalize';
+import type { MatchLevel } from '@/lib/url-matching';
+
+/**
+ * New lines seen for one group within a chunk. `variants` only lists raw lines
+ * the group had not seen in earlier chunks, so deltas can be appended as-is.
+ */
+export type UrlGroupDelta = {
+  key: string;
+  url: string;
+  variants: string[];
+  positions: number[];
+};
+
+/**
+ * `process` starts a job over the typed text followed by the imported URLs.
+ * Imported URLs are posted once, batch by batch, with `append`; the worker
+ * keeps them and the running job goes on to count each new batch.
+ */
+export type UrlProcessorRequest =
+  | {
+      type: 'process';
+      jobId: number;
+      text: string;
+      matchLevel: MatchLevel;
+      options: CanonicalizeOptions;
+    }
+  | { type: 'append'; urls: string[] }
+  | { type: 'clear-imported' }
+  | { type: 'cancel'; jobId: number };
+
+export type UrlProcessorResponse = {
+  type: 'chunk';
+  jobId: number;
+  groups: UrlGroupDelta[];
+  processedLines: number;
+  totalLines: number;
+  done: boolean;
+};
@@ -0,0 +1,125 @@
+import type { CanonicalizeOptions } from '@/lib/url-canonicalize';
+import { getMatchKey, type MatchLevel } from '@/lib/url-matching';
+import type {
+  UrlGroupDelta,
+  UrlProcessorRequest,
+  UrlProcessorResponse,
+} from '@/workers/url-processor-protocol';
+
+const CHUNK_SIZE = 5000;
+
+type Job = {
+  jobId: number;
+  typedLines: string[];
+  matchLevel: MatchLevel;
+  options: CanonicalizeOptions;
+  seenVariants: Map<string, Set<string>>;
+  processedLines: number;
+  running: boolean;
+};
+
+// Imported URLs, trimmed and in import order. They come after the typed lines
+// of every job.
+let importedUrls: string[] = [];
+
+// Only one job runs at a time; a newer job or a cancel message makes the
+// running one stop at its next chunk boundary.
+let activeJob: Job | null = null;
+
+function post(message: UrlProcessorResponse) {
+  self.postMessage(message);
+}
+
+const totalLines = (job: Job) => job.typedLines.length + importedUrls.length;
+
+const lineAt = (job: Job, index: number) =>
+  index < job.typedLines.length ? job.typedLines[index] : importedUrls[index - job.typedLines.length];
+
+// Counts the job's lines from where it last stopped, so URLs appended after it
+// finished are picked up by running it again.
+async function runJob(job: Job) {
+  job.running = true;
+  try {
+    do {
+      if (activeJob !== job) return;
+
+      const start = job.processedLines;
+      const end = Math.min(start + CHUNK_SIZE, totalLines(job));
+      const deltas = new Map<string, UrlGroupDelta>();
+      for (let index = start; index < end; index++) {
+        const line = lineAt(job, index);
+        const key = getMatchKey(line, job.matchLevel, job.options);
+
+        let delta = deltas.get(key);
+        if (!delta) {
+          delta = { key, url: line, variants: [], positions: [] };
+          deltas.set(key, delta);
+        }
+        delta.positions.push(index + 1);
+
+        let variants = job.seenVariants.get(key);
+        if (!variants) {
+          variants = new Set();
+          job.seenVariants.set(key, variants);
+        }
+        if (!variants.has(line)) {
+          variants.add(line);
+          delta.variants.push(line);
+        }
+      }
+      job.processedLines = end;
+
+      const done = end >= totalLines(job);
+      post({
+        type: 'chunk',
+        jobId: job.jobId,
+        groups: Array.from(deltas.values()),
+        processedLines: end,
+        totalLines: totalLines(job),
+        done,
+      });
+      if (done) return;
+
+      // Yield so cancel and append messages can be delivered between chunks.
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    } while (job.processedLines < totalLines(job));
+  } finally {
+    job.running = false;
+  }
+}
+
+self.onmessage = (event: MessageEvent<UrlProcessorRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    if (activeJob?.jobId === request.jobId) activeJob = null;
+    return;
+  }
+  if (request.type === 'clear-imported') {
+    // The running job counted lines that are gone; the page starts a new one.
+    importedUrls = [];
+    activeJob = null;
+    return;
+  }
+  if (request.type === 'append') {
+    for (const url of request.urls) {
+      const line = url.trim();
+      if (line) importedUrls.push(line);
+    }
+    if (activeJob && !activeJob.running) void runJob(activeJob);
+    return;
+  }
+
+  activeJob = {
+    jobId: request.jobId,
+    typedLines: request.text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean),
+    matchLevel: request.matchLevel,
+    options: request.options,
+    seenVariants: new Map(),
+    processedLines: 0,
+    running: false,
+  };
+  void runJob(activeJob);
+};